@@ -0,0 +1,203 @@
+// public/sw.js
+// Precaches the app shell and Leaflet assets, serves the SPA offline and polls the fire-alert
+// endpoint through periodic background sync so rangers get notified with the tab closed.
+//
+// /precache-manifest.js is emitted by the build (see vite.config.ts). Because imported scripts
+// are part of the update check, every new build also installs a new service worker.
+importScripts('/precache-manifest.js');
+
+const { version, files } = self.__PRECACHE_MANIFEST;
+const SHELL_CACHE = `vanrakshak-shell-${version}`;
+const RUNTIME_CACHE = 'vanrakshak-runtime';
+const MAX_RUNTIME_ENTRIES = 300;
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon.svg', ...files.map(file => `/${file}`)];
+
+// Default marker images used by the Affected Areas map
+const LEAFLET_ASSETS = [
+  'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
+  'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
+  'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
+];
+
+const RUNTIME_HOSTS = ['tile.openstreetmap.org', 'cdnjs.cloudflare.com'];
+
+const PERIODIC_SYNC_TAG = 'fire-alerts';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      // The CDN images are best-effort: addAll is all-or-nothing, and a CDN hiccup must not cost
+      // the app its offline shell. The runtime cache picks up any that fail here.
+      .then(cache =>
+        cache
+          .addAll(SHELL_URLS)
+          .then(() => Promise.allSettled(LEAFLET_ASSETS.map(asset => cache.add(asset))))
+      )
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys =>
+        Promise.all(
+          keys
+            .filter(key => key.startsWith('vanrakshak-shell-') && key !== SHELL_CACHE)
+            .map(key => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+// Network first so a deployed update is picked up, the cached shell when offline
+const handleNavigation = async request => {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(SHELL_CACHE);
+    return (await cache.match('/')) || Response.error();
+  }
+};
+
+// Map tiles and CDN assets: answer from cache, refresh in the background
+const staleWhileRevalidate = async (event, request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') {
+        cache.put(request, response.clone()).then(() => trimCache(RUNTIME_CACHE, MAX_RUNTIME_ENTRIES));
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  if (cached) {
+    event.waitUntil(network);
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+    return;
+  }
+
+  if (RUNTIME_HOSTS.some(host => url.hostname.endsWith(host))) {
+    event.respondWith(staleWhileRevalidate(event, request));
+  }
+  // API requests go straight to the network; the app keeps its own offline copy in IndexedDB
+});
+
+// --- Background fire alert polling ---------------------------------------------------------
+
+// Same database and store as src/api/offlineCache.ts
+const DB_NAME = 'vanrakshak-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const CONFIG_KEY = 'serviceWorkerConfig';
+const FIRE_STATE_KEY = 'serviceWorkerFireState';
+
+const openDatabase = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async (mode, operation) => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readEntry = async key => (await runRequest('readonly', store => store.get(key)))?.value;
+
+const writeEntry = (key, value) =>
+  runRequest('readwrite', store => store.put({ key, value, savedAt: new Date().toISOString() }));
+
+const isOnFire = device => Boolean(device.isFire ?? device.isfire);
+
+const checkFireAlerts = async () => {
+  const config = await readEntry(CONFIG_KEY);
+  if (!config?.alertsUrl) return;
+
+  const response = await fetch(config.alertsUrl, { cache: 'no-store' });
+  if (!response.ok) return;
+
+  const data = await response.json();
+  if (!data?.success || !Array.isArray(data.devices)) return;
+
+  const previouslyOnFire = new Set((await readEntry(FIRE_STATE_KEY)) || []);
+  const onFire = data.devices.filter(isOnFire);
+
+  await Promise.all(
+    onFire
+      .filter(device => !previouslyOnFire.has(device.deviceId))
+      .map(device =>
+        self.registration.showNotification(`🔥 Fire detected at ${device.deviceId}`, {
+          body: `Temperature ${device.temp ?? device.temperature ?? '?'}°C, smoke ${device.smoke ?? '?'} ppm`,
+          icon: '/icons/icon.svg',
+          badge: '/icons/icon.svg',
+          // One notification per device; the open dashboard uses the same tag so they never double up
+          tag: `fire-${device.deviceId}`,
+          requireInteraction: true,
+          data: { url: `/monitoring/${encodeURIComponent(device.deviceId)}` },
+        })
+      )
+  );
+
+  await writeEntry(FIRE_STATE_KEY, onFire.map(device => device.deviceId));
+};
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(checkFireAlerts().catch(error => console.warn('Background fire alert check failed:', error)));
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil(
+    // Only a tab this worker controls can be navigated; any other gets a new window instead
+    self.clients.matchAll({ type: 'window' }).then(clients => {
+      const client = clients.find(candidate => candidate.url.startsWith(self.location.origin));
+      if (client) {
+        return client
+          .focus()
+          .then(focused => focused.navigate(url))
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
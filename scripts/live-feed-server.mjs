@@ -0,0 +1,124 @@
+// scripts/live-feed-server.mjs
+// Development stand-in for the live device feed. Emits synthetic device updates over
+// Server-Sent Events (GET /events) and WebSocket (/ws) in the same shape as GET /getAlert.
+//
+//   npm run live-feed
+//   VITE_LIVE_FEED_URL=http://localhost:8787/events npm run dev   # or ws://localhost:8787/ws
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const INTERVAL_MS = Number(process.env.INTERVAL_MS || 3000);
+const DEVICE_COUNT = Number(process.env.DEVICE_COUNT || 8);
+
+// Synthetic fleet scattered around central Uttarakhand
+const devices = Array.from({ length: DEVICE_COUNT }, (_, index) => ({
+  _id: crypto.randomBytes(12).toString('hex'),
+  deviceId: `SIM-${String(index + 1).padStart(3, '0')}`,
+  latitude: 30.0668 + (Math.random() - 0.5) * 1.2,
+  longitude: 79.0193 + (Math.random() - 0.5) * 1.2,
+  humidity: 45 + Math.random() * 20,
+  temp: 24 + Math.random() * 6,
+  smoke: 10 + Math.random() * 20,
+  isfire: false,
+  lastUpdate: new Date().toISOString(),
+}));
+
+const round = value => Math.round(value * 10) / 10;
+
+const tick = device => {
+  // Roughly one device in twenty catches fire per tick; burning devices recover after a while
+  if (!device.isfire && Math.random() < 0.05) device.isfire = true;
+  else if (device.isfire && Math.random() < 0.2) device.isfire = false;
+
+  const heat = device.isfire ? 6 : -1;
+  device.temp = round(Math.max(15, device.temp + heat + (Math.random() - 0.5) * 2));
+  device.smoke = round(Math.max(0, device.smoke + (device.isfire ? 40 : -5) + (Math.random() - 0.5) * 6));
+  device.humidity = round(Math.min(100, Math.max(5, device.humidity - heat / 2 + (Math.random() - 0.5) * 3)));
+  device.lastUpdate = new Date().toISOString();
+  return device;
+};
+
+const sseClients = new Set();
+const wsClients = new Set();
+
+// Minimal server-to-client WebSocket text frame (RFC 6455), no masking
+const encodeFrame = text => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(0x81, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(0x81, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = message => {
+  const text = JSON.stringify(message);
+  sseClients.forEach(res => res.write(`data: ${text}\n\n`));
+  wsClients.forEach(socket => socket.write(encodeFrame(text)));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/events') {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+    res.write(`data: ${JSON.stringify({ type: 'snapshot', devices })}\n\n`);
+    sseClients.add(res);
+    req.on('close', () => sseClients.delete(res));
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Not found');
+});
+
+server.on('upgrade', (req, socket) => {
+  if (req.url !== '/ws' || !req.headers['sec-websocket-key']) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+    .digest('base64');
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.write(encodeFrame(JSON.stringify({ type: 'snapshot', devices })));
+  wsClients.add(socket);
+
+  // Any client frame with the close opcode ends the connection
+  socket.on('data', chunk => {
+    if ((chunk[0] & 0x0f) === 0x8) socket.end();
+  });
+  socket.on('close', () => wsClients.delete(socket));
+  socket.on('error', () => wsClients.delete(socket));
+});
+
+setInterval(() => {
+  const device = devices[Math.floor(Math.random() * devices.length)];
+  broadcast({ type: 'device-update', device: tick(device) });
+}, INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Live feed stand-in running: SSE http://localhost:${PORT}/events, WebSocket ws://localhost:${PORT}/ws`);
+});
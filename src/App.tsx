@@ -5,6 +5,10 @@ import { SidebarProvider } from "@/components/ui/sidebar";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AppSidebar } from "@/components/AppSidebar";
+import LiveFeedProvider from "@/components/LiveFeedProvider";
+import OfflineSync from "@/components/OfflineSync";
+import OfflineBanner from "@/components/OfflineBanner";
+import FireAlertWatcher from "@/components/FireAlertWatcher";
 import Dashboard from "./pages/Dashboard";
 import SensorStatus from "./pages/SensorStatus";
 import LiveMonitoring from "./pages/LiveMonitoring";
@@ -12,36 +16,54 @@ import Reports from "./pages/Reports";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 import AffectedAreas from "./pages/AffectedAreas";
+import DataQuality from "./pages/DataQuality";
+import SensorRegistry from "./pages/SensorRegistry";
+import ManageSensors from "./pages/ManageSensors";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Transient network and server errors are already retried with backoff by the HTTP client
+      retry: false,
+    },
+  },
+});
 
 const App = () => {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <SidebarProvider>
-            <div className="min-h-screen flex w-full">
-              <AppSidebar />
-              <main className="flex-1">
-                <Routes>
-                  <Route path="/" element={<Dashboard />} />
-                  <Route path="/sensors" element={<SensorStatus />} />
-                  <Route path="/monitoring" element={<LiveMonitoring />} />
-                  <Route path="/monitoring/:sensorId" element={<LiveMonitoring />} />
-                  <Route path="/reports" element={<Reports />} />
-                  <Route path="/settings" element={<Settings />} />
-                   <Route path="/affected-areas" element={<AffectedAreas/>} />
-                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </main>
-            </div>
-          </SidebarProvider>
-        </BrowserRouter>
-      </TooltipProvider>
+      <LiveFeedProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <OfflineSync />
+          <BrowserRouter>
+            <FireAlertWatcher />
+            <SidebarProvider>
+              <div className="min-h-screen flex w-full">
+                <AppSidebar />
+                <main className="flex-1">
+                  <OfflineBanner />
+                  <Routes>
+                    <Route path="/" element={<Dashboard />} />
+                    <Route path="/sensors" element={<SensorStatus />} />
+                    <Route path="/registry" element={<SensorRegistry />} />
+                    <Route path="/manage-sensors" element={<ManageSensors />} />
+                    <Route path="/monitoring" element={<LiveMonitoring />} />
+                    <Route path="/monitoring/:sensorId" element={<LiveMonitoring />} />
+                    <Route path="/reports" element={<Reports />} />
+                    <Route path="/data-quality" element={<DataQuality />} />
+                    <Route path="/settings" element={<Settings />} />
+                     <Route path="/affected-areas" element={<AffectedAreas/>} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </main>
+              </div>
+            </SidebarProvider>
+          </BrowserRouter>
+        </TooltipProvider>
+      </LiveFeedProvider>
     </QueryClientProvider>
   );
 };
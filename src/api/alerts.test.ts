@@ -0,0 +1,136 @@
+// src/api/alerts.test.ts
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { FireAlertRecord } from '@/types/alert';
+import { SensorData } from '@/types/sensor';
+
+const ALERTS_STORAGE_KEY = 'fireAlertLifecycle';
+
+const stored = new Map<string, string>();
+const storageHandlers: ((event: Pick<StorageEvent, 'key'>) => void)[] = [];
+
+// Another tab writes straight to storage, then this tab hears about it
+const writeFromOtherTab = (alerts: FireAlertRecord[]) => {
+  stored.set(ALERTS_STORAGE_KEY, JSON.stringify(alerts));
+  storageHandlers.forEach(handler => handler({ key: ALERTS_STORAGE_KEY }));
+};
+
+const readStored = (): FireAlertRecord[] => JSON.parse(stored.get(ALERTS_STORAGE_KEY) ?? '[]');
+
+const sensor = (deviceId: string): SensorData =>
+  ({
+    id: deviceId,
+    deviceId,
+    name: deviceId,
+    temp: 70,
+    humidity: 10,
+    smoke: 200,
+    isFire: true,
+    latitude: 11.4,
+    longitude: 76.7,
+    timestamp: '2026-10-01T10:00:00.000Z',
+    status: 'active',
+  }) as SensorData;
+
+let alertsApi: typeof import('./alerts');
+
+beforeAll(async () => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.stubGlobal('window', {
+    addEventListener: (type: string, handler: (event: Pick<StorageEvent, 'key'>) => void) => {
+      if (type === 'storage') storageHandlers.push(handler);
+    },
+    removeEventListener: () => undefined,
+  });
+  alertsApi = await import('./alerts');
+});
+
+describe('alerts across tabs', () => {
+  it('reloads when another tab opens an alert', () => {
+    const otherTab = structuredClone(alertsApi.getAlerts());
+    const opened: FireAlertRecord = {
+      id: 'remote-1',
+      deviceId: 'remote',
+      state: 'new',
+      openedAt: '2026-10-01T09:00:00.000Z',
+      closedAt: null,
+      trigger: { deviceId: 'remote', timestamp: '2026-10-01T09:00:00.000Z', temp: 70, humidity: 10, smoke: 200, isFire: true },
+      transitions: [{ from: null, to: 'new', actor: 'system', note: '', at: '2026-10-01T09:00:00.000Z' }],
+      escalations: [],
+    };
+    writeFromOtherTab([...otherTab, opened]);
+
+    expect(alertsApi.getOpenAlertForDevice('remote')?.id).toBe('remote-1');
+  });
+
+  it('writes on top of what another tab stored since the last read', () => {
+    const local = alertsApi.openAlert(sensor('local'));
+    // The other tab's write lands without this tab hearing about it yet
+    const otherTab = readStored().map(alert =>
+      alert.id === 'remote-1'
+        ? {
+            ...alert,
+            state: 'acknowledged' as const,
+            transitions: [
+              ...alert.transitions,
+              { from: 'new' as const, to: 'acknowledged' as const, actor: 'Asha', note: '', at: '2026-10-01T09:05:00.000Z' },
+            ],
+          }
+        : alert
+    );
+    stored.set(ALERTS_STORAGE_KEY, JSON.stringify(otherTab));
+
+    alertsApi.transitionAlert(local.id, 'acknowledged', 'Ravi');
+
+    const alerts = readStored();
+    expect(alerts.find(alert => alert.id === 'remote-1')?.state).toBe('acknowledged');
+    expect(alerts.find(alert => alert.id === local.id)?.state).toBe('acknowledged');
+  });
+
+  it('keeps audit entries an overlapping write from another tab dropped', () => {
+    const local = alertsApi.getOpenAlertForDevice('local');
+    alertsApi.transitionAlert(local.id, 'dispatched', 'Ravi', 'Crew 4 on the way');
+    // Written from a copy taken before the dispatch
+    const staleCopy = readStored().map(alert =>
+      alert.id === local.id ? { ...alert, state: 'acknowledged' as const, transitions: alert.transitions.slice(0, -1) } : alert
+    );
+    writeFromOtherTab(staleCopy);
+
+    const restored = readStored().find(alert => alert.id === local.id);
+    expect(restored.state).toBe('dispatched');
+    expect(restored.transitions.map(transition => transition.to)).toEqual(['new', 'acknowledged', 'dispatched']);
+    expect(alertsApi.getOpenAlertForDevice('local')?.state).toBe('dispatched');
+  });
+
+  it('checks transitions against the state another tab moved the alert to', () => {
+    const remote = alertsApi.getOpenAlertForDevice('remote');
+    expect(() => alertsApi.transitionAlert(remote.id, 'acknowledged', 'Ravi')).toThrow(
+      'Alert cannot move from acknowledged to acknowledged'
+    );
+  });
+});
+
+describe('raiseFireAlerts', () => {
+  it('opens alerts for fires already burning when the page loads', () => {
+    const fleet = [sensor('remote'), sensor('mount'), { ...sensor('calm'), isFire: false }];
+    const { notify, pending } = alertsApi.raiseFireAlerts(fleet, null);
+
+    // remote already has an acknowledged alert open; mount started while no tab was watching
+    expect(notify.map(item => item.deviceId)).toEqual(['mount']);
+    expect(pending.map(item => item.deviceId)).toEqual(['mount']);
+    expect(alertsApi.getOpenAlertForDevice('mount')?.state).toBe('new');
+    expect(alertsApi.getOpenAlertForDevice('calm')).toBeUndefined();
+  });
+
+  it('only raises devices that caught fire since the previous fleet', () => {
+    const fleet = [sensor('remote'), sensor('mount'), sensor('spread')];
+    const { notify } = alertsApi.raiseFireAlerts(fleet, new Set(['remote', 'mount']));
+
+    expect(notify.map(item => item.deviceId)).toEqual(['spread']);
+    expect(alertsApi.getOpenAlertForDevice('spread')?.state).toBe('new');
+  });
+});
@@ -0,0 +1,207 @@
+// src/api/alerts.ts
+// Fire alert lifecycle: new → acknowledged → dispatched → contained → resolved / false-alarm.
+// Every transition is kept as an audit entry with who made it, when and why.
+import { AlertState, EscalationEvent, FireAlertRecord } from '@/types/alert';
+import { SensorData } from '@/types/sensor';
+import { onStorageChange } from '@/lib/storageSync';
+import { toSensorReading } from './history';
+
+const ALERTS_STORAGE_KEY = 'fireAlertLifecycle';
+const OPERATOR_STORAGE_KEY = 'operatorName';
+// Closed alerts beyond this are dropped oldest first
+const MAX_CLOSED_ALERTS = 500;
+
+export const SYSTEM_ACTOR = 'system';
+
+export const ALERT_STATE_LABELS: Record<AlertState, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  dispatched: 'Dispatched',
+  contained: 'Contained',
+  resolved: 'Resolved',
+  'false-alarm': 'False Alarm',
+};
+
+export const NEXT_ALERT_STATES: Record<AlertState, AlertState[]> = {
+  new: ['acknowledged', 'false-alarm'],
+  acknowledged: ['dispatched', 'resolved', 'false-alarm'],
+  dispatched: ['contained', 'resolved', 'false-alarm'],
+  contained: ['resolved'],
+  resolved: [],
+  'false-alarm': [],
+};
+
+export const isAlertOpen = (alert: FireAlertRecord) => NEXT_ALERT_STATES[alert.state].length > 0;
+
+const listeners = new Set<() => void>();
+
+const readAlerts = (): FireAlertRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ALERTS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+let alerts: FireAlertRecord[] = readAlerts();
+
+const unionEntries = <T>(first: T[], second: T[]) => {
+  const seen = new Set(first.map(entry => JSON.stringify(entry)));
+  return [...first, ...second.filter(entry => !seen.has(JSON.stringify(entry)))];
+};
+
+// Audit entries are only ever appended, so two tabs' copies of an alert combine into the union
+// of their entries and the latest transition decides the state
+const mergeAlert = (first: FireAlertRecord, second: FireAlertRecord): FireAlertRecord => {
+  const transitions = unionEntries(first.transitions, second.transitions).sort((a, b) => a.at.localeCompare(b.at));
+  const last = transitions[transitions.length - 1];
+  return {
+    ...first,
+    state: last.to,
+    closedAt: NEXT_ALERT_STATES[last.to].length === 0 ? last.at : null,
+    transitions,
+    escalations: unionEntries(first.escalations ?? [], second.escalations ?? []).sort((a, b) => a.at.localeCompare(b.at)),
+  };
+};
+
+// Oldest first, without the closed alerts past the cap
+const retain = (next: FireAlertRecord[]) => {
+  const sorted = [...next].sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+  const closed = sorted.filter(alert => !isAlertOpen(alert));
+  const dropped = new Set(closed.slice(0, Math.max(0, closed.length - MAX_CLOSED_ALERTS)));
+  return sorted.filter(alert => !dropped.has(alert));
+};
+
+const mergeAlerts = (stored: FireAlertRecord[], local: FireAlertRecord[]) => {
+  const byId = new Map(stored.map(alert => [alert.id, alert]));
+  local.forEach(alert => {
+    const other = byId.get(alert.id);
+    byId.set(alert.id, other ? mergeAlert(other, alert) : alert);
+  });
+  return retain([...byId.values()]);
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(alerts));
+  } catch (error) {
+    console.warn('Could not persist fire alerts:', error);
+  }
+};
+
+// Applied to what is in storage now, merged with this tab's copy, so neither tab's writes are lost
+const commit = (change: (current: FireAlertRecord[]) => FireAlertRecord[]) => {
+  alerts = retain(change(mergeAlerts(readAlerts(), alerts)));
+  persist();
+  listeners.forEach(listener => listener());
+};
+
+onStorageChange(ALERTS_STORAGE_KEY, () => {
+  const stored = readAlerts();
+  alerts = mergeAlerts(stored, alerts);
+  // Put back anything the other tab's write dropped from the trail
+  if (JSON.stringify(alerts) !== JSON.stringify(stored)) persist();
+  listeners.forEach(listener => listener());
+});
+
+// Oldest first
+export const getAlerts = (): FireAlertRecord[] => alerts;
+
+// Straight from storage rather than this tab's copy, for work another tab may have done already
+export const readLatestAlert = (alertId: string) => readAlerts().find(alert => alert.id === alertId);
+
+export const getOpenAlertForDevice = (deviceId: string) =>
+  alerts.find(alert => alert.deviceId === deviceId && isAlertOpen(alert));
+
+// Alerts for a device that were open at any point in [from, to]
+export const getAlertsForDevice = (deviceId: string, from: Date, to: Date, source: FireAlertRecord[] = alerts) =>
+  source.filter(alert => {
+    if (alert.deviceId !== deviceId) return false;
+    const opened = new Date(alert.openedAt).getTime();
+    const closed = alert.closedAt ? new Date(alert.closedAt).getTime() : Infinity;
+    return opened <= to.getTime() && closed >= from.getTime();
+  });
+
+// A device already under an open alert keeps it rather than starting a second one
+export const openAlert = (sensor: SensorData): FireAlertRecord => {
+  let alert: FireAlertRecord;
+  commit(current => {
+    alert = current.find(candidate => candidate.deviceId === sensor.deviceId && isAlertOpen(candidate));
+    if (alert) return current;
+
+    const now = new Date().toISOString();
+    alert = {
+      id: `${sensor.deviceId}-${Date.now().toString(36)}`,
+      deviceId: sensor.deviceId,
+      state: 'new',
+      openedAt: now,
+      closedAt: null,
+      trigger: toSensorReading(sensor),
+      transitions: [{ from: null, to: 'new', actor: SYSTEM_ACTOR, note: 'Sensor reported fire', at: now }],
+      escalations: [],
+    };
+    return [...current, alert];
+  });
+  return alert;
+};
+
+// Opens an alert for each device that caught fire since the previous fleet. The first fleet after
+// the page loads has nothing to compare with, so every burning device gets one: the fire may have
+// started while no tab was open. notify lists the devices to announce; on the first fleet that
+// leaves out devices whose alert was already open, which pending still lists while it waits for
+// an acknowledgement.
+export const raiseFireAlerts = (sensors: SensorData[], previouslyOnFire: Set<string> | null) => {
+  const notify: SensorData[] = [];
+  const pending: SensorData[] = [];
+  sensors
+    .filter(sensor => sensor.isFire && !previouslyOnFire?.has(sensor.deviceId))
+    .forEach(sensor => {
+      const alreadyOpen = previouslyOnFire === null && !!getOpenAlertForDevice(sensor.deviceId);
+      const alert = openAlert(sensor);
+      if (!alreadyOpen) notify.push(sensor);
+      if (!alreadyOpen || alert.state === 'new') pending.push(sensor);
+    });
+  return { notify, pending };
+};
+
+export const transitionAlert = (alertId: string, to: AlertState, actor: string, note = ''): FireAlertRecord => {
+  let updated: FireAlertRecord;
+  commit(current => {
+    // Checked against the latest state, which another tab may have moved on
+    const alert = current.find(candidate => candidate.id === alertId);
+    if (!alert) throw new Error(`Unknown alert ${alertId}`);
+    if (!NEXT_ALERT_STATES[alert.state].includes(to)) {
+      throw new Error(`Alert cannot move from ${alert.state} to ${to}`);
+    }
+
+    const now = new Date().toISOString();
+    updated = {
+      ...alert,
+      state: to,
+      closedAt: NEXT_ALERT_STATES[to].length === 0 ? now : null,
+      transitions: [...alert.transitions, { from: alert.state, to, actor: actor.trim() || 'Unknown operator', note: note.trim(), at: now }],
+    };
+    return current.map(candidate => (candidate.id === alertId ? updated : candidate));
+  });
+  return updated;
+};
+
+export const recordEscalation = (alertId: string, event: EscalationEvent) => {
+  commit(current =>
+    current.map(alert =>
+      alert.id === alertId ? { ...alert, escalations: [...(alert.escalations ?? []), event] } : alert
+    )
+  );
+};
+
+export const subscribeAlerts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// No login yet, so operators name themselves once per browser
+export const getOperatorName = () => localStorage.getItem(OPERATOR_STORAGE_KEY) || '';
+
+export const setOperatorName = (name: string) => localStorage.setItem(OPERATOR_STORAGE_KEY, name.trim());
@@ -0,0 +1,89 @@
+// src/api/config.ts
+// Runtime endpoint configuration. Defaults come from Vite env vars (see .env.example) and can be
+// overridden per browser from the Settings page, e.g. to point the dashboard at a local mock.
+export interface RuntimeConfig {
+  fireAlertsBaseUrl: string;
+  weatherApiUrl: string;
+  weatherApiKey: string;
+  predictionUrl: string;
+  liveFeedUrl: string;
+}
+
+export type RuntimeConfigKey = keyof RuntimeConfig;
+
+export interface RuntimeConfigField {
+  key: RuntimeConfigKey;
+  label: string;
+  description: string;
+  secret?: boolean;
+}
+
+export const RUNTIME_CONFIG_FIELDS: RuntimeConfigField[] = [
+  { key: 'fireAlertsBaseUrl', label: 'Fire Alerts API', description: 'Base URL serving /getAlert and /createAlert' },
+  { key: 'weatherApiUrl', label: 'Weather API', description: 'OpenWeatherMap current weather endpoint' },
+  { key: 'weatherApiKey', label: 'Weather API Key', description: 'OpenWeatherMap app id', secret: true },
+  { key: 'predictionUrl', label: 'Fire Risk Model', description: 'AI prediction endpoint (POST)' },
+  { key: 'liveFeedUrl', label: 'Live Feed', description: 'SSE (http://) or WebSocket (ws://) URL; leave empty to poll' },
+];
+
+const OVERRIDES_STORAGE_KEY = 'runtimeConfigOverrides';
+
+export const ENV_CONFIG: RuntimeConfig = {
+  fireAlertsBaseUrl:
+    import.meta.env.VITE_FIRE_ALERTS_API_URL || 'https://fire-detection-system-neon.vercel.app/api/fire-alerts',
+  weatherApiUrl: import.meta.env.VITE_WEATHER_API_URL || 'https://api.openweathermap.org/data/2.5/weather',
+  weatherApiKey: import.meta.env.VITE_WEATHER_API_KEY || '070b8d1eb7f4b59140b6788d2bb9e26f',
+  predictionUrl: import.meta.env.VITE_PREDICTION_API_URL || 'https://forest-fire-api2.onrender.com/predict',
+  liveFeedUrl: import.meta.env.VITE_LIVE_FEED_URL || '',
+};
+
+const listeners = new Set<() => void>();
+
+const readOverrides = (): Partial<RuntimeConfig> => {
+  try {
+    return JSON.parse(localStorage.getItem(OVERRIDES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+let currentConfig: RuntimeConfig = { ...ENV_CONFIG, ...readOverrides() };
+
+export const getConfig = (): RuntimeConfig => currentConfig;
+
+export const getConfigOverrides = (): Partial<RuntimeConfig> => readOverrides();
+
+const cleanOverrides = (overrides: Partial<RuntimeConfig>) =>
+  Object.fromEntries(
+    Object.entries(overrides)
+      .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+      .filter(([key, value]) => value !== '' && value !== ENV_CONFIG[key as RuntimeConfigKey])
+  ) as Partial<RuntimeConfig>;
+
+// The config these overrides would give once saved, e.g. to check edited endpoints first
+export const resolveConfig = (overrides: Partial<RuntimeConfig>): RuntimeConfig => ({
+  ...ENV_CONFIG,
+  ...cleanOverrides(overrides),
+});
+
+// Store overrides; empty values fall back to the env default
+export const setConfigOverrides = (overrides: Partial<RuntimeConfig>) => {
+  const cleaned = cleanOverrides(overrides);
+
+  localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(cleaned));
+  currentConfig = { ...ENV_CONFIG, ...cleaned };
+  listeners.forEach(listener => listener());
+};
+
+export const resetConfigOverrides = () => {
+  localStorage.removeItem(OVERRIDES_STORAGE_KEY);
+  currentConfig = { ...ENV_CONFIG };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeConfig = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,30 @@
+// src/api/connectivity.ts
+// Whether the dashboard is currently showing cached data instead of a live API response.
+export interface OfflineStatus {
+  offline: boolean;
+  // When the cached data being shown was saved
+  dataAsOf: string | null;
+}
+
+const listeners = new Set<() => void>();
+
+let status: OfflineStatus = { offline: false, dataAsOf: null };
+
+const update = (next: OfflineStatus) => {
+  if (next.offline === status.offline && next.dataAsOf === status.dataAsOf) return;
+  status = next;
+  listeners.forEach(listener => listener());
+};
+
+export const getOfflineStatus = (): OfflineStatus => status;
+
+export const markOffline = (dataAsOf: string | null) => update({ offline: true, dataAsOf });
+
+export const markOnline = () => update({ offline: false, dataAsOf: null });
+
+export const subscribeOfflineStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,196 @@
+// src/api/deviceSchema.ts
+import { z } from 'zod';
+import type { AlertData } from './fireAlerts';
+
+// A reading that only passes after coercion is kept but reported as 'coerced',
+// a reading that fails even the lenient schema is dropped and reported as 'rejected'
+export type RecordOutcome = 'coerced' | 'rejected';
+
+export interface DeviceRecordIssue {
+  field: string;
+  message: string;
+}
+
+export interface DeviceRecordReport {
+  index: number;
+  recordId: string | null;
+  deviceId: string | null;
+  outcome: RecordOutcome;
+  issues: DeviceRecordIssue[];
+  raw: unknown;
+}
+
+export interface DeviceValidationResult {
+  alerts: AlertData[];
+  records: DeviceRecordReport[];
+  total: number;
+  checkedAt: string;
+}
+
+const toNumber = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+const toBoolean = (value: unknown) => {
+  if (value === undefined || value === null) return false;
+  if (value === 'true' || value === 1 || value === '1') return true;
+  if (value === 'false' || value === 0 || value === '0') return false;
+  return value;
+};
+
+const clamp = (min: number, max: number) => (value: number) => Math.min(Math.max(value, min), max);
+
+const isValidDate = (value: string) => !isNaN(Date.parse(value));
+
+// Devices without a GPS fix report 0/0, which is not a real deployment location
+const hasLocation = (device: { latitude: number; longitude: number }) =>
+  !(device.latitude === 0 && device.longitude === 0);
+
+const missingLocation = {
+  message: 'Coordinates are 0,0 (no GPS fix)',
+  path: ['latitude'],
+};
+
+// Exact shape the firmware is expected to send
+export const deviceSchema = z
+  .object({
+    _id: z.string().min(1),
+    deviceId: z.string().min(1),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    humidity: z.number().min(0).max(100),
+    temp: z.number().finite(),
+    smoke: z.number().min(0),
+    isfire: z.boolean(),
+    lastUpdate: z.string().refine(isValidDate, 'Invalid date'),
+    zone: z.string().optional(),
+  })
+  .refine(hasLocation, missingLocation);
+
+// Same shape, but repairs values that are recoverable (numeric strings, out-of-range readings, missing flags)
+const lenientDeviceSchema = z
+  .object({
+    _id: z.string().min(1),
+    deviceId: z.string().min(1),
+    latitude: z.preprocess(toNumber, z.number().min(-90).max(90)),
+    longitude: z.preprocess(toNumber, z.number().min(-180).max(180)),
+    humidity: z.preprocess(toNumber, z.number().finite()).transform(clamp(0, 100)),
+    temp: z.preprocess(toNumber, z.number().finite()),
+    smoke: z.preprocess(toNumber, z.number().finite()).transform(clamp(0, Infinity)),
+    isfire: z.preprocess(toBoolean, z.boolean()),
+    lastUpdate: z
+      .preprocess(value => value ?? new Date().toISOString(), z.string())
+      .refine(isValidDate, 'Invalid date')
+      .transform(value => new Date(value).toISOString()),
+    zone: z.preprocess(value => (typeof value === 'string' && value.trim() ? value.trim() : undefined), z.string().optional()),
+  })
+  .refine(hasLocation, missingLocation);
+
+export const deviceResponseSchema = z.object({
+  success: z.boolean(),
+  devices: z.array(z.unknown()),
+});
+
+// Response of the per-device endpoint; a missing device comes back as success: false
+export const deviceAlertResponseSchema = z.object({
+  success: z.boolean(),
+  device: z.unknown().optional(),
+  message: z.string().optional(),
+});
+
+export type DeviceAlertResponse = z.infer<typeof deviceAlertResponseSchema>;
+
+// Historical readings; older firmware reports lastUpdate/isfire, newer exports timestamp/isFire
+export const historyReadingSchema = z
+  .object({
+    deviceId: z.string().optional(),
+    temp: z.preprocess(toNumber, z.number().finite()),
+    humidity: z.preprocess(toNumber, z.number().finite()).transform(clamp(0, 100)),
+    smoke: z.preprocess(toNumber, z.number().finite()).transform(clamp(0, Infinity)),
+    isFire: z.preprocess(toBoolean, z.boolean()).optional(),
+    isfire: z.preprocess(toBoolean, z.boolean()).optional(),
+    latitude: z.preprocess(toNumber, z.number()).optional(),
+    longitude: z.preprocess(toNumber, z.number()).optional(),
+    timestamp: z.string().refine(isValidDate, 'Invalid date').optional(),
+    lastUpdate: z.string().refine(isValidDate, 'Invalid date').optional(),
+  })
+  .refine(reading => reading.timestamp || reading.lastUpdate, {
+    message: 'Reading has no timestamp',
+    path: ['timestamp'],
+  });
+
+export const historyResponseSchema = z.object({
+  success: z.boolean(),
+  readings: z.array(z.unknown()),
+  nextCursor: z.string().nullable().optional(),
+});
+
+const toIssues = (error: z.ZodError): DeviceRecordIssue[] =>
+  error.issues.map(issue => ({
+    field: issue.path.join('.') || 'record',
+    message: issue.message,
+  }));
+
+const readString = (raw: unknown, key: string): string | null => {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>)[key] : null;
+  return typeof value === 'string' ? value : null;
+};
+
+// Validate a single backend device record
+export const parseDevice = (
+  raw: unknown,
+  index = 0
+): { alert: AlertData | null; report: DeviceRecordReport | null } => {
+  const strict = deviceSchema.safeParse(raw);
+  const lenient = strict.success ? strict : lenientDeviceSchema.safeParse(raw);
+
+  const report: DeviceRecordReport | null = strict.success
+    ? null
+    : {
+        index,
+        recordId: readString(raw, '_id'),
+        deviceId: readString(raw, 'deviceId'),
+        outcome: lenient.success ? 'coerced' : 'rejected',
+        issues: toIssues(lenient.success ? strict.error : lenient.error),
+        raw,
+      };
+
+  if (!lenient.success) {
+    return { alert: null, report };
+  }
+
+  const device = lenient.data;
+  return {
+    alert: {
+      id: device._id,
+      deviceId: device.deviceId,
+      latitude: device.latitude,
+      longitude: device.longitude,
+      humidity: device.humidity,
+      temp: device.temp,
+      smoke: device.smoke,
+      isFire: device.isfire,
+      timestamp: device.lastUpdate,
+      zone: device.zone,
+    },
+    report,
+  };
+};
+
+// Validate every record of a getAlert payload, keeping a report for each record that needed attention
+export const validateDevices = (devices: unknown[]): DeviceValidationResult => {
+  const alerts: AlertData[] = [];
+  const records: DeviceRecordReport[] = [];
+
+  devices.forEach((raw, index) => {
+    const { alert, report } = parseDevice(raw, index);
+    if (alert) alerts.push(alert);
+    if (report) records.push(report);
+  });
+
+  return {
+    alerts,
+    records,
+    total: devices.length,
+    checkedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,47 @@
+// src/api/endpointProbe.ts
+// Remembers whether an optional backend endpoint exists, so an older backend only costs
+// one failed probe instead of one per poll.
+export type EndpointSupport = 'unknown' | 'supported' | 'unsupported';
+
+const REPROBE_MS = 6 * 60 * 60 * 1000; // Re-check an unsupported backend every 6 hours
+
+interface StoredProbe {
+  support: EndpointSupport;
+  baseUrl: string;
+  checkedAt: number;
+}
+
+export interface EndpointProbe {
+  get: () => EndpointSupport;
+  set: (support: EndpointSupport) => void;
+  reset: () => void;
+}
+
+export const createEndpointProbe = (name: string, getBaseUrl: () => string): EndpointProbe => {
+  const storageKey = `endpointSupport:${name}`;
+
+  const read = (): StoredProbe | null => {
+    try {
+      const probe = JSON.parse(localStorage.getItem(storageKey) || 'null');
+      return probe && probe.baseUrl === getBaseUrl() ? probe : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    get: () => {
+      const probe = read();
+      if (!probe) return 'unknown';
+      if (probe.support === 'unsupported' && Date.now() - probe.checkedAt > REPROBE_MS) {
+        return 'unknown';
+      }
+      return probe.support;
+    },
+    set: support => {
+      const probe: StoredProbe = { support, baseUrl: getBaseUrl(), checkedAt: Date.now() };
+      localStorage.setItem(storageKey, JSON.stringify(probe));
+    },
+    reset: () => localStorage.removeItem(storageKey),
+  };
+};
@@ -0,0 +1,135 @@
+// src/api/escalation.ts
+// Escalation chain for fire alerts nobody acknowledges: each step notifies one more person once
+// the alert has been new for that many minutes. Deliveries are recorded on the alert itself, so
+// a reload neither repeats a step nor forgets one that came due while the page was closed.
+// Every open tab checks, but only the one holding the escalation lock sends.
+import { EscalationPolicy, EscalationStep, FireAlertRecord } from '@/types/alert';
+import { onStorageChange } from '@/lib/storageSync';
+import { getAlerts, readLatestAlert, recordEscalation } from './alerts';
+import { EscalationMessage, sendNotification } from './notifiers';
+
+const POLICY_STORAGE_KEY = 'escalationPolicy';
+const ESCALATION_LOCK = 'fireAlertEscalation';
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  enabled: true,
+  steps: [
+    { id: 'range-officer', afterMinutes: 3, recipient: 'Range Officer', channel: 'sms', target: '' },
+    { id: 'dfo', afterMinutes: 10, recipient: 'Divisional Forest Officer', channel: 'email', target: '' },
+  ],
+};
+
+const listeners = new Set<() => void>();
+
+const readPolicy = (): EscalationPolicy => {
+  try {
+    return { ...DEFAULT_ESCALATION_POLICY, ...JSON.parse(localStorage.getItem(POLICY_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_ESCALATION_POLICY;
+  }
+};
+
+let policy = readPolicy();
+
+onStorageChange(POLICY_STORAGE_KEY, () => {
+  policy = readPolicy();
+  listeners.forEach(listener => listener());
+});
+
+export const getEscalationPolicy = (): EscalationPolicy => policy;
+
+export const setEscalationPolicy = (next: EscalationPolicy) => {
+  policy = { ...next, steps: [...next.steps].sort((a, b) => a.afterMinutes - b.afterMinutes) };
+  localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeEscalationPolicy = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const createEscalationStep = (): EscalationStep => ({
+  id: Date.now().toString(36),
+  afterMinutes: 15,
+  recipient: '',
+  channel: 'sms',
+  target: '',
+});
+
+const buildMessage = (alert: FireAlertRecord, step: EscalationStep, now: number): EscalationMessage => {
+  const minutesUnacknowledged = Math.floor((now - new Date(alert.openedAt).getTime()) / 60000);
+  const { latitude, longitude } = alert.trigger;
+  return {
+    alertId: alert.id,
+    deviceId: alert.deviceId,
+    recipient: step.recipient,
+    minutesUnacknowledged,
+    trigger: alert.trigger,
+    text: [
+      `FIRE at sensor ${alert.deviceId} unacknowledged for ${minutesUnacknowledged} min.`,
+      `Temp ${alert.trigger.temp}°C, smoke ${alert.trigger.smoke} ppm.`,
+      latitude !== undefined && longitude !== undefined
+        ? `Location ${latitude.toFixed(5)}, ${longitude.toFixed(5)}.`
+        : '',
+    ]
+      .filter(Boolean)
+      .join(' '),
+  };
+};
+
+// Steps being delivered right now, so overlapping runs don't send the same step twice
+const inFlight = new Set<string>();
+
+export const sendEscalation = async (alert: FireAlertRecord, step: EscalationStep, now = Date.now()) => {
+  const key = `${alert.id}:${step.id}`;
+  if (inFlight.has(key)) return;
+  inFlight.add(key);
+
+  try {
+    // Another tab may have acknowledged the alert or delivered this step since it was found due
+    const latest = readLatestAlert(alert.id);
+    if (latest?.state !== 'new' || latest.escalations?.some(event => event.stepId === step.id)) return;
+
+    const result = await sendNotification(step.channel, buildMessage(latest, step, now), step.target);
+    recordEscalation(alert.id, {
+      stepId: step.id,
+      recipient: step.recipient || 'Unnamed recipient',
+      channel: step.channel,
+      target: step.target,
+      ok: result.ok,
+      message: result.message,
+      at: new Date().toISOString(),
+    });
+  } finally {
+    inFlight.delete(key);
+  }
+};
+
+const sendDueEscalations = async (now: number) => {
+  const due = getAlerts()
+    .filter(alert => alert.state === 'new')
+    .flatMap(alert => {
+      const minutesOpen = (now - new Date(alert.openedAt).getTime()) / 60000;
+      const attempted = new Set((alert.escalations ?? []).map(event => event.stepId));
+      return policy.steps
+        .filter(step => step.afterMinutes <= minutesOpen && !attempted.has(step.id))
+        .map(step => sendEscalation(alert, step, now));
+    });
+
+  await Promise.all(due);
+};
+
+// Each step is attempted once per alert; a failed delivery stays on the timeline for follow-up.
+// A tab that finds the lock taken skips this round, as the holder is already sending. Without
+// the Web Locks API (plain http), each tab runs on its own and relies on the re-read above.
+export const runEscalations = async (now = Date.now()) => {
+  if (!policy.enabled) return;
+  if (!navigator.locks) return sendDueEscalations(now);
+
+  await navigator.locks.request(ESCALATION_LOCK, { ifAvailable: true }, async lock => {
+    if (lock) await sendDueEscalations(now);
+  });
+};
@@ -1,5 +1,19 @@
 // src/api/fireAlerts.ts
-const API_BASE_URL = 'https://fire-detection-system-neon.vercel.app/api/fire-alerts';
+import {
+  deviceAlertResponseSchema,
+  deviceResponseSchema,
+  parseDevice,
+  validateDevices,
+  DeviceValidationResult,
+} from './deviceSchema';
+import { createEndpointProbe } from './endpointProbe';
+import { getConfig } from './config';
+import { requestJson, isAbortError, HttpError, ParseError } from './httpClient';
+
+// Resolved on every request so Settings overrides apply without a reload
+export const getApiBaseUrl = () => getConfig().fireAlertsBaseUrl;
+
+const ALERTS_TIMEOUT_MS = 10000;
 
 export interface AlertData {
   id: string;
@@ -11,107 +25,130 @@ export interface AlertData {
   smoke: number;
   isFire: boolean;
   timestamp: string;
+  // Management zone the device is deployed in, when the backend tags one
+  zone?: string;
 }
 
-// ✅ Fetch all alerts (GET)
-export const getFireAlerts = async (): Promise<AlertData[]> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/getAlert`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      mode: 'cors',
-    });
+// Body of POST /createAlert, in the backend's own field names. The backend creates the device,
+// or replaces the record of an existing one with the same deviceId.
+export interface DevicePayload {
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  humidity: number;
+  temp: number;
+  smoke: number;
+  isfire: boolean;
+  lastUpdate: string;
+  zone?: string;
+}
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch alerts: ${response.status} ${response.statusText}`);
-    }
+// ✅ Fetch all alerts (GET) together with the validation report for every record
+export const getFireAlertReport = async (signal?: AbortSignal): Promise<DeviceValidationResult> => {
+  try {
+    const { data } = await requestJson(`${getApiBaseUrl()}/getAlert`, { signal, timeoutMs: ALERTS_TIMEOUT_MS });
+    const parsed = deviceResponseSchema.safeParse(data);
 
-    const data = await response.json();
-    console.log('API Response:', data);
-
-    if (data.success && Array.isArray(data.devices)) {
-      return data.devices.map((alert: any) => ({
-        id: alert._id,
-        deviceId: alert.deviceId,
-        latitude: alert.latitude,
-        longitude: alert.longitude,
-        humidity: alert.humidity,
-        temp: alert.temp,
-        smoke: alert.smoke,
-        isFire: alert.isfire,
-        timestamp: alert.lastUpdate,
-      }));
+    if (parsed.success && parsed.data.success) {
+      const result = validateDevices(parsed.data.devices);
+      if (result.records.length > 0) {
+        console.warn(`${result.records.length} of ${result.total} device records needed attention`, result.records);
+      }
+      return result;
     }
 
     console.warn('Unexpected API response format:', data);
-    return [];
+    return validateDevices([]);
   } catch (error) {
-    console.error('Error fetching fire alerts:', error);
+    if (!isAbortError(error)) console.error('Error fetching fire alerts:', error);
     throw error;
   }
 };
 
-// ✅ Fetch alert by device ID (GET) - with fallback to getAll if specific endpoint fails
-export const getFireAlertByDeviceId = async (deviceId: string): Promise<AlertData | null> => {
-  try {
-    // First try the specific device endpoint
-    const response = await fetch(`${API_BASE_URL}/getAlert`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      mode: 'cors',
-    });
+// Device IDs the backend holds a record for, including records too malformed to show
+export const getRecordedDeviceIds = async (signal?: AbortSignal): Promise<Set<string>> => {
+  const { alerts, records } = await getFireAlertReport(signal);
+  return new Set([...alerts.map(alert => alert.deviceId), ...records.map(record => record.deviceId).filter(Boolean)]);
+};
 
-    if (response.ok) {
-      const data = await response.json();
-      console.log('API Response for device:', deviceId, data);
-
-      if (data.success && data.device) {
-        const alert = data.device;
-        return {
-          id: alert._id,
-          deviceId: alert.deviceId,
-          latitude: alert.latitude,
-          longitude: alert.longitude,
-          humidity: alert.humidity,
-          temp: alert.temp,
-          smoke: alert.smoke,
-          isFire: alert.isfire,
-          timestamp: alert.lastUpdate,
-        };
+// ✅ Fetch all alerts (GET)
+export const getFireAlerts = async (signal?: AbortSignal): Promise<AlertData[]> => {
+  const { alerts } = await getFireAlertReport(signal);
+  return alerts;
+};
+
+// Whether the backend serves GET /getAlert/:deviceId
+export const deviceEndpointProbe = createEndpointProbe('getAlertByDevice', getApiBaseUrl);
+
+// Returns undefined when the endpoint itself is not available on this backend
+const requestDeviceAlert = async (deviceId: string, signal?: AbortSignal): Promise<AlertData | null | undefined> => {
+  const url = `${getApiBaseUrl()}/getAlert/${encodeURIComponent(deviceId)}`;
+  const response = await requestJson(url, {
+    signal,
+    timeoutMs: ALERTS_TIMEOUT_MS,
+    acceptStatus: status => status < 500,
+  }).catch(error => {
+    // An SPA fallback page instead of JSON also means the route is missing
+    if (error instanceof ParseError) return { status: 200, ok: true, data: null };
+    throw error;
+  });
+
+  const parsed = deviceAlertResponseSchema.safeParse(response.data);
+
+  // A route that doesn't exist answers with an HTML/empty 404, or with the fleet list instead of one device
+  if (!parsed.success || (response.ok && parsed.data.success && !parsed.data.device)) {
+    return undefined;
+  }
+
+  if (!parsed.data.success || !parsed.data.device) {
+    if (response.ok || response.status === 404) return null;
+    throw new HttpError(url, response.status, '', response.data);
+  }
+
+  const { alert, report } = parseDevice(parsed.data.device);
+  if (report) {
+    console.warn(`Device ${deviceId} record was ${report.outcome}:`, report.issues);
+  }
+  return alert;
+};
+
+// ✅ Fetch alert by device ID (GET) - falls back to getAll on backends without the per-device endpoint
+export const getFireAlertByDeviceId = async (deviceId: string, signal?: AbortSignal): Promise<AlertData | null> => {
+  try {
+    const support = deviceEndpointProbe.get();
+    if (support !== 'unsupported') {
+      // While still probing, a request that fails outright (e.g. CORS on an unknown route) just falls back
+      const alert = await requestDeviceAlert(deviceId, signal).catch(error => {
+        if (support === 'supported' || isAbortError(error)) throw error;
+        return undefined;
+      });
+      if (alert !== undefined) {
+        deviceEndpointProbe.set('supported');
+        return alert;
       }
+
+      console.warn('Per-device endpoint is not available, falling back to the full alert list');
+      deviceEndpointProbe.set('unsupported');
     }
 
     // Fallback: Get all alerts and filter by deviceId
-    console.warn(`Specific device endpoint failed, trying fallback for device: ${deviceId}`);
-    const allAlerts = await getFireAlerts();
+    const allAlerts = await getFireAlerts(signal);
     const deviceAlert = allAlerts.find(alert => alert.deviceId === deviceId);
     return deviceAlert || null;
   } catch (error) {
-    console.error(`Error fetching fire alert for device ${deviceId}:`, error);
+    if (!isAbortError(error)) console.error(`Error fetching fire alert for device ${deviceId}:`, error);
     throw error;
   }
 };
 
 // ✅ Create / update device alert (POST)
-export const createFireAlert = async (alertData: any) => {
+export const createFireAlert = async (alertData: DevicePayload) => {
   try {
-    const response = await fetch(`${API_BASE_URL}/createAlert`, {
+    const { data } = await requestJson(`${getApiBaseUrl()}/createAlert`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(alertData),
+      body: alertData,
+      timeoutMs: ALERTS_TIMEOUT_MS,
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to create alert: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
     return data;
   } catch (error) {
     console.error('Error creating fire alert:', error);
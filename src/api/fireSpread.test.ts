@@ -0,0 +1,138 @@
+// src/api/fireSpread.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  acceleratedDistance,
+  deadFuelMoisture,
+  FUEL_MODELS,
+  lengthToBreadth,
+  predictFireSpread,
+  rothermelSpread,
+} from './fireSpread';
+import { SpreadInput } from '@/types/fireSpread';
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// Compass bearing from the ignition point to the outline point furthest from it
+const outlineDirection = (outline: [number, number][], latitude: number, longitude: number) => {
+  const cosLat = Math.cos((latitude * Math.PI) / 180);
+  const offsets = outline.map(([lat, lng]) => ({ north: lat - latitude, east: (lng - longitude) * cosLat }));
+  const furthest = offsets.reduce((best, offset) =>
+    Math.hypot(offset.north, offset.east) > Math.hypot(best.north, best.east) ? offset : best
+  );
+  return Math.round(((Math.atan2(furthest.east, furthest.north) * 180) / Math.PI + 360) % 360);
+};
+
+describe('deadFuelMoisture', () => {
+  it('follows the three Simard humidity bands', () => {
+    expect(deadFuelMoisture(9, 10)).toBeCloseTo(0.023, 3);
+    expect(deadFuelMoisture(25, 32)).toBeCloseTo(0.0491, 3);
+    expect(deadFuelMoisture(80, 20)).toBeCloseTo(0.1612, 3);
+  });
+
+  it('gets wetter with humidity and drier with heat', () => {
+    expect(deadFuelMoisture(60, 25)).toBeGreaterThan(deadFuelMoisture(30, 25));
+    expect(deadFuelMoisture(30, 40)).toBeLessThan(deadFuelMoisture(30, 10));
+  });
+
+  it('never drops below the floor and clamps humidity', () => {
+    expect(deadFuelMoisture(0, 45)).toBe(0.02);
+    expect(deadFuelMoisture(150, 20)).toBe(deadFuelMoisture(100, 20));
+  });
+});
+
+describe('rothermelSpread', () => {
+  const grass = FUEL_MODELS.grass;
+
+  it('matches the reference grass rate', () => {
+    expect(rothermelSpread(grass, 0.08, 440).rateOfSpread).toBeCloseTo(89.2, 0);
+  });
+
+  it('does not spread at or above the moisture of extinction', () => {
+    expect(rothermelSpread(grass, grass.extinctionMoisture, 440).rateOfSpread).toBe(0);
+    expect(rothermelSpread(grass, grass.extinctionMoisture + 0.1, 440).rateOfSpread).toBe(0);
+  });
+
+  it('spreads faster with more wind until the wind limit', () => {
+    const rates = [0, 88, 264, 440, 880].map(wind => rothermelSpread(FUEL_MODELS.shrub, 0.06, wind).rateOfSpread);
+    rates.slice(1).forEach((rate, index) => expect(rate).toBeGreaterThan(rates[index]));
+
+    const { reactionIntensity } = rothermelSpread(grass, 0.06, 0);
+    const limited = rothermelSpread(grass, 0.06, reactionIntensity).rateOfSpread;
+    expect(rothermelSpread(grass, 0.06, reactionIntensity * 10).rateOfSpread).toBe(limited);
+  });
+
+  it('spreads faster upslope', () => {
+    const pine = FUEL_MODELS.pineLitter;
+    expect(rothermelSpread(pine, 0.06, 0, 50).rateOfSpread).toBeGreaterThan(rothermelSpread(pine, 0.06, 0).rateOfSpread);
+  });
+});
+
+describe('lengthToBreadth', () => {
+  it('is a circle in calm air and stays within the model bounds', () => {
+    expect(lengthToBreadth(0)).toBe(1);
+    expect(lengthToBreadth(-5)).toBe(1);
+    expect(lengthToBreadth(100)).toBe(8);
+  });
+
+  it('elongates with wind', () => {
+    expect(lengthToBreadth(10)).toBeGreaterThan(lengthToBreadth(5));
+  });
+});
+
+describe('acceleratedDistance', () => {
+  it('starts from zero and stays behind the steady rate', () => {
+    expect(acceleratedDistance(2, 0)).toBe(0);
+    expect(acceleratedDistance(2, 30)).toBeLessThan(60);
+    expect(acceleratedDistance(2, 30)).toBeGreaterThan(0);
+  });
+
+  it('approaches the steady rate for a developed fire', () => {
+    expect(acceleratedDistance(2, 30, 1000)).toBeCloseTo(60, 6);
+    expect(acceleratedDistance(2, 30, 10)).toBeGreaterThan(acceleratedDistance(2, 30));
+  });
+});
+
+describe('predictFireSpread', () => {
+  const input: SpreadInput = {
+    latitude: 38.5,
+    longitude: -122.5,
+    fuel: 'pineLitter',
+    windSpeedMs: 4,
+    windFromDeg: 270,
+    relativeHumidity: 25,
+    temperatureC: 32,
+    intensity: 0.5,
+  };
+
+  const summarise = (spreadInput: SpreadInput) => {
+    const prediction = predictFireSpread(spreadInput);
+    return {
+      rateOfSpreadMPerMin: round(prediction.rateOfSpreadMPerMin),
+      headingDeg: prediction.headingDeg,
+      lengthToBreadth: round(prediction.lengthToBreadth),
+      fuelMoisture: round(prediction.fuelMoisture, 4),
+      perimeters: prediction.perimeters.map(perimeter => ({
+        minutes: perimeter.minutes,
+        headM: round(perimeter.headM, 1),
+        backM: round(perimeter.backM, 1),
+        flankM: round(perimeter.flankM, 1),
+        areaHa: round(perimeter.areaHa),
+        direction: outlineDirection(perimeter.outline, spreadInput.latitude, spreadInput.longitude),
+      })),
+    };
+  };
+
+  it('runs downwind of a westerly', () => {
+    expect(summarise(input)).toMatchSnapshot();
+  });
+
+  it('runs downwind of a north-easterly in grass', () => {
+    expect(summarise({ ...input, fuel: 'grass', windSpeedMs: 7, windFromDeg: 45, intensity: 1 })).toMatchSnapshot();
+  });
+
+  it('closes each outline and grows with time', () => {
+    const { perimeters } = predictFireSpread(input);
+    perimeters.forEach(({ outline }) => expect(outline[outline.length - 1][0]).toBeCloseTo(outline[0][0], 9));
+    perimeters.slice(1).forEach((perimeter, index) => expect(perimeter.areaHa).toBeGreaterThan(perimeters[index].areaHa));
+  });
+});
@@ -0,0 +1,238 @@
+// src/api/fireSpread.ts
+// Surface fire spread from a single ignition point. The head fire rate of spread follows
+// Rothermel (1972) for the chosen fuel bed, dead fuel moisture comes from air temperature and
+// humidity, and the burned area grows as an ellipse stretched downwind (Anderson 1983). Fires
+// accelerate from ignition towards the steady rate (McAlpine & Wakimoto 1991), and the sensor's
+// readings say how far along that curve the fire already is. The same inputs always give the
+// same perimeters.
+import { FuelModel, FuelType, SpreadInput, SpreadPerimeter, SpreadPrediction } from '@/types/fireSpread';
+import { SensorData } from '@/types/sensor';
+import {
+  FT_MIN_PER_M_S,
+  FT_PER_M,
+  KW_M2_PER_BTU_FT2_MIN,
+  METERS_PER_DEGREE_LAT,
+  METERS_PER_DEGREE_LNG,
+  MPH_PER_M_S,
+} from '@/lib/units';
+
+// Anderson (1982) models for the forest types in the division, fine dead fuels only
+export const FUEL_MODELS: Record<FuelType, FuelModel> = {
+  grass: {
+    label: 'Short grass',
+    andersonModel: 1,
+    load: 0.034,
+    surfaceToVolume: 3500,
+    depth: 1,
+    extinctionMoisture: 0.12,
+    windReduction: 0.4,
+  },
+  grassUnderstory: {
+    label: 'Open forest with grass understory',
+    andersonModel: 2,
+    load: 0.092,
+    surfaceToVolume: 3000,
+    depth: 1,
+    extinctionMoisture: 0.15,
+    windReduction: 0.3,
+  },
+  shrub: {
+    label: 'Shrubs (lantana, scrub)',
+    andersonModel: 5,
+    load: 0.046,
+    surfaceToVolume: 2000,
+    depth: 2,
+    extinctionMoisture: 0.2,
+    windReduction: 0.4,
+  },
+  broadleafLitter: {
+    label: 'Broadleaf litter (sal, oak)',
+    andersonModel: 8,
+    load: 0.069,
+    surfaceToVolume: 2000,
+    depth: 0.2,
+    extinctionMoisture: 0.3,
+    windReduction: 0.2,
+  },
+  pineLitter: {
+    label: 'Pine needle litter (chir pine)',
+    andersonModel: 9,
+    load: 0.134,
+    surfaceToVolume: 2500,
+    depth: 0.2,
+    extinctionMoisture: 0.25,
+    windReduction: 0.3,
+  },
+};
+
+export const FUEL_TYPES = Object.keys(FUEL_MODELS) as FuelType[];
+
+export const DEFAULT_FUEL: FuelType = 'pineLitter';
+
+export const SPREAD_HORIZONS_MIN = [30, 60, 120];
+
+// Rothermel's fuel particle constants
+const HEAT_CONTENT_BTU_LB = 8000;
+const PARTICLE_DENSITY_LB_FT3 = 32;
+const TOTAL_MINERAL_CONTENT = 0.0555;
+const EFFECTIVE_MINERAL_CONTENT = 0.01;
+
+// Point ignitions reach most of their steady rate within half an hour
+const ACCELERATION_PER_MIN = 0.115;
+// A fully developed fire is treated as this many time constants past ignition
+const DEVELOPED_TIME_CONSTANTS = 3;
+// Anderson's length-to-breadth ratio stops being meaningful past this
+const MAX_LENGTH_TO_BREADTH = 8;
+// Moisture never drops below this even in a heat plume
+const MIN_FUEL_MOISTURE = 0.02;
+const OUTLINE_POINTS = 72;
+
+// Simard (1968) equilibrium moisture content of fine dead fuel, fraction
+export const deadFuelMoisture = (relativeHumidity: number, temperatureC: number) => {
+  const rh = Math.min(100, Math.max(0, relativeHumidity));
+  const tempF = temperatureC * 1.8 + 32;
+  let percent: number;
+  if (rh < 10) percent = 0.03229 + 0.281073 * rh - 0.000578 * rh * tempF;
+  else if (rh < 50) percent = 2.22749 + 0.160107 * rh - 0.01478 * tempF;
+  else percent = 21.0606 + 0.005565 * rh * rh - 0.00035 * rh * tempF - 0.483199 * rh;
+  return Math.max(MIN_FUEL_MOISTURE, percent / 100);
+};
+
+export interface RothermelResult {
+  // ft/min
+  rateOfSpread: number;
+  // Btu/ft²/min
+  reactionIntensity: number;
+}
+
+// Rothermel (1972) head fire rate of spread for a single fuel size class. Upslope is assumed to
+// line up with the wind, the worst case when the terrain is unknown.
+export const rothermelSpread = (
+  fuel: FuelModel,
+  moisture: number,
+  midflameWindFtMin: number,
+  slopePercent = 0
+): RothermelResult => {
+  const { load, surfaceToVolume: sigma, depth, extinctionMoisture } = fuel;
+  if (moisture >= extinctionMoisture) return { rateOfSpread: 0, reactionIntensity: 0 };
+
+  const netLoad = load * (1 - TOTAL_MINERAL_CONTENT);
+  const bulkDensity = load / depth;
+  const packing = bulkDensity / PARTICLE_DENSITY_LB_FT3;
+  const optimumPacking = 3.348 * sigma ** -0.8189;
+  const relativePacking = packing / optimumPacking;
+
+  const maxReactionVelocity = sigma ** 1.5 / (495 + 0.0594 * sigma ** 1.5);
+  const exponentA = 133 * sigma ** -0.7913;
+  const reactionVelocity = maxReactionVelocity * relativePacking ** exponentA * Math.exp(exponentA * (1 - relativePacking));
+
+  const moistureRatio = Math.min(1, moisture / extinctionMoisture);
+  const moistureDamping = 1 - 2.59 * moistureRatio + 5.11 * moistureRatio ** 2 - 3.52 * moistureRatio ** 3;
+  const mineralDamping = Math.min(1, 0.174 * EFFECTIVE_MINERAL_CONTENT ** -0.19);
+  const reactionIntensity = reactionVelocity * netLoad * HEAT_CONTENT_BTU_LB * moistureDamping * mineralDamping;
+
+  const propagatingFlux =
+    Math.exp((0.792 + 0.681 * Math.sqrt(sigma)) * (packing + 0.1)) / (192 + 0.2595 * sigma);
+
+  // Past 0.9 IR the wind stops adding spread (Rothermel's wind limit)
+  const wind = Math.min(Math.max(0, midflameWindFtMin), 0.9 * reactionIntensity);
+  const c = 7.47 * Math.exp(-0.133 * sigma ** 0.55);
+  const b = 0.02526 * sigma ** 0.54;
+  const e = 0.715 * Math.exp(-3.59e-4 * sigma);
+  const windFactor = c * wind ** b * relativePacking ** -e;
+  const slopeFactor = 5.275 * packing ** -0.3 * (Math.max(0, slopePercent) / 100) ** 2;
+
+  const effectiveHeating = Math.exp(-138 / sigma);
+  const heatOfPreignition = 250 + 1116 * moisture;
+  const rateOfSpread =
+    (reactionIntensity * propagatingFlux * (1 + windFactor + slopeFactor)) /
+    (bulkDensity * effectiveHeating * heatOfPreignition);
+
+  return { rateOfSpread, reactionIntensity };
+};
+
+// Anderson (1983) ellipse length-to-breadth from mid-flame wind in mph
+export const lengthToBreadth = (midflameWindMph: number) =>
+  Math.min(
+    MAX_LENGTH_TO_BREADTH,
+    Math.max(1, 0.936 * Math.exp(0.2566 * midflameWindMph) + 0.461 * Math.exp(-0.1548 * midflameWindMph) - 0.397)
+  );
+
+// Head fire distance after minutes, for a fire that started accelerating startMinutes ago
+export const acceleratedDistance = (steadyRate: number, minutes: number, startMinutes = 0) =>
+  steadyRate *
+  (minutes -
+    (Math.exp(-ACCELERATION_PER_MIN * startMinutes) - Math.exp(-ACCELERATION_PER_MIN * (startMinutes + minutes))) /
+      ACCELERATION_PER_MIN);
+
+// 0-1 from how hot, smoky and dry the sensor reads
+export const sensorFireIntensity = (sensor: Pick<SensorData, 'temp' | 'smoke' | 'humidity'>) => {
+  const score = ((sensor.temp - 20) / 40) * 100 + sensor.smoke / 2 + (100 - sensor.humidity) / 2;
+  return Math.min(1, Math.max(0, score / 100));
+};
+
+const ellipseOutline = (
+  latitude: number,
+  longitude: number,
+  headingRad: number,
+  headM: number,
+  backM: number,
+  flankM: number
+): [number, number][] => {
+  const semiMajor = (headM + backM) / 2;
+  const centerOffset = (headM - backM) / 2;
+  const metersPerDegreeLng = METERS_PER_DEGREE_LNG * Math.cos((latitude * Math.PI) / 180);
+
+  return Array.from({ length: OUTLINE_POINTS + 1 }, (_, index) => {
+    const angle = (index / OUTLINE_POINTS) * 2 * Math.PI;
+    // Along and across the heading, from the ignition point
+    const along = centerOffset + semiMajor * Math.cos(angle);
+    const across = flankM * Math.sin(angle);
+    const north = along * Math.cos(headingRad) - across * Math.sin(headingRad);
+    const east = along * Math.sin(headingRad) + across * Math.cos(headingRad);
+    return [latitude + north / METERS_PER_DEGREE_LAT, longitude + east / metersPerDegreeLng];
+  });
+};
+
+export const predictFireSpread = (input: SpreadInput, horizons = SPREAD_HORIZONS_MIN): SpreadPrediction => {
+  const fuel = FUEL_MODELS[input.fuel];
+  const fuelMoisture = deadFuelMoisture(input.relativeHumidity, input.temperatureC);
+  const midflameWindMs = Math.max(0, input.windSpeedMs) * fuel.windReduction;
+
+  const { rateOfSpread, reactionIntensity } = rothermelSpread(
+    fuel,
+    fuelMoisture,
+    midflameWindMs * FT_MIN_PER_M_S,
+    input.slopePercent
+  );
+  const rateOfSpreadMPerMin = rateOfSpread / FT_PER_M;
+  const ratio = lengthToBreadth(midflameWindMs * MPH_PER_M_S);
+  const eccentricity = Math.sqrt(ratio * ratio - 1) / ratio;
+  // Fires run with the wind, away from where it blows from
+  const headingDeg = (((input.windFromDeg + 180) % 360) + 360) % 360;
+  const startMinutes =
+    (Math.min(1, Math.max(0, input.intensity)) * DEVELOPED_TIME_CONSTANTS) / ACCELERATION_PER_MIN;
+
+  const perimeters = horizons.map((minutes): SpreadPerimeter => {
+    const headM = acceleratedDistance(rateOfSpreadMPerMin, minutes, startMinutes);
+    const backM = (headM * (1 - eccentricity)) / (1 + eccentricity);
+    const flankM = (headM + backM) / 2 / ratio;
+    return {
+      minutes,
+      headM,
+      backM,
+      flankM,
+      areaHa: (Math.PI * ((headM + backM) / 2) * flankM) / 10000,
+      outline: ellipseOutline(input.latitude, input.longitude, (headingDeg * Math.PI) / 180, headM, backM, flankM),
+    };
+  });
+
+  return {
+    rateOfSpreadMPerMin,
+    headingDeg,
+    lengthToBreadth: ratio,
+    fuelMoisture,
+    reactionIntensityKwM2: reactionIntensity * KW_M2_PER_BTU_FT2_MIN,
+    perimeters,
+  };
+};
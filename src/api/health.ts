@@ -0,0 +1,109 @@
+// src/api/health.ts
+import { getConfig, RuntimeConfig, RuntimeConfigKey } from './config';
+import { deviceResponseSchema } from './deviceSchema';
+import { describeRequestError, requestJson, HttpError } from './httpClient';
+import type { OpenWeatherResponse } from './weatherApi';
+
+export type HealthCheckTarget = Exclude<RuntimeConfigKey, 'weatherApiKey'>;
+
+export interface HealthResult {
+  ok: boolean;
+  latencyMs: number;
+  message: string;
+  checkedAt: string;
+}
+
+const HEALTH_TIMEOUT_MS = 8000;
+
+// Reference point used for the weather and model checks (center of Uttarakhand)
+const SAMPLE_LOCATION = { lat: 30.0668, lon: 79.0193 };
+
+// Single attempt, never shared with in-flight app requests
+const probe = <T>(url: string, options: Parameters<typeof requestJson>[1] = {}) =>
+  requestJson<T>(url, { timeoutMs: HEALTH_TIMEOUT_MS, retries: 0, dedupe: false, ...options });
+
+const checkFireAlerts = async (config: RuntimeConfig): Promise<string> => {
+  const { data } = await probe(`${config.fireAlertsBaseUrl}/getAlert`);
+  const parsed = deviceResponseSchema.safeParse(data);
+  if (!parsed.success || !parsed.data.success) throw new Error('Unexpected response format');
+  return `${parsed.data.devices.length} devices reported`;
+};
+
+const checkWeather = async (config: RuntimeConfig): Promise<string> => {
+  const params = new URLSearchParams({
+    lat: String(SAMPLE_LOCATION.lat),
+    lon: String(SAMPLE_LOCATION.lon),
+    appid: config.weatherApiKey,
+    units: 'metric',
+  });
+  const { data } = await probe<OpenWeatherResponse>(`${config.weatherApiUrl}?${params}`).catch(error => {
+    if (error instanceof HttpError && error.status === 401) throw new Error('API key rejected');
+    throw error;
+  });
+  return data?.weather?.[0]?.description ? `Weather: ${data.weather[0].description}` : 'Responded';
+};
+
+const checkPrediction = async (config: RuntimeConfig): Promise<string> => {
+  const { data } = await probe<{ prediction?: number }>(config.predictionUrl, {
+    method: 'POST',
+    body: {
+      temperature: 25,
+      humidity: 50,
+      smoke: 10,
+      temp_max: 35,
+      temp_min: 15,
+      wind_speed: 2,
+      wind_gust: 3,
+    },
+  });
+  if (data?.prediction === undefined) throw new Error('Response has no prediction');
+  return 'Model responded';
+};
+
+const checkLiveFeed = (config: RuntimeConfig): Promise<string> => {
+  const url = config.liveFeedUrl;
+  if (!url) return Promise.reject(new Error('Not configured, polling is used'));
+
+  return new Promise((resolve, reject) => {
+    const source = /^wss?:\/\//i.test(url) ? new WebSocket(url) : new EventSource(url);
+    const timer = setTimeout(() => {
+      source.close();
+      reject(new Error('Timed out waiting for connection'));
+    }, HEALTH_TIMEOUT_MS);
+
+    source.onopen = () => {
+      clearTimeout(timer);
+      source.close();
+      resolve('Connected');
+    };
+    source.onerror = () => {
+      clearTimeout(timer);
+      source.close();
+      reject(new Error('Connection failed'));
+    };
+  });
+};
+
+const CHECKS: Record<HealthCheckTarget, (config: RuntimeConfig) => Promise<string>> = {
+  fireAlertsBaseUrl: checkFireAlerts,
+  weatherApiUrl: checkWeather,
+  predictionUrl: checkPrediction,
+  liveFeedUrl: checkLiveFeed,
+};
+
+export const isHealthCheckTarget = (key: RuntimeConfigKey): key is HealthCheckTarget => key in CHECKS;
+
+// ✅ Check that a configured endpoint is reachable and answers in the expected shape
+export const checkEndpointHealth = async (
+  target: HealthCheckTarget,
+  config: RuntimeConfig = getConfig()
+): Promise<HealthResult> => {
+  const started = performance.now();
+  try {
+    const message = await CHECKS[target](config);
+    return { ok: true, latencyMs: Math.round(performance.now() - started), message, checkedAt: new Date().toISOString() };
+  } catch (error) {
+    const message = describeRequestError(error);
+    return { ok: false, latencyMs: Math.round(performance.now() - started), message, checkedAt: new Date().toISOString() };
+  }
+};
@@ -0,0 +1,40 @@
+// src/api/heartbeat.test.ts
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+const HEARTBEAT_STORAGE_KEY = 'heartbeatSettings';
+
+const stored = new Map<string, string>();
+const storageHandlers: ((event: Pick<StorageEvent, 'key'>) => void)[] = [];
+
+let heartbeatApi: typeof import('./heartbeat');
+
+beforeAll(async () => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.stubGlobal('window', {
+    addEventListener: (type: string, handler: (event: Pick<StorageEvent, 'key'>) => void) => {
+      if (type === 'storage') storageHandlers.push(handler);
+    },
+    removeEventListener: () => undefined,
+  });
+  heartbeatApi = await import('./heartbeat');
+});
+
+describe('heartbeat settings across tabs', () => {
+  it('picks up intervals another tab saved', () => {
+    heartbeatApi.setReportInterval('ridge-1', 10);
+    const listener = vi.fn();
+    const unsubscribe = heartbeatApi.subscribeHeartbeatSettings(listener);
+
+    stored.set(HEARTBEAT_STORAGE_KEY, JSON.stringify({ defaultIntervalMinutes: 15, intervals: { 'ridge-1': 30 } }));
+    storageHandlers.forEach(handler => handler({ key: HEARTBEAT_STORAGE_KEY }));
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(heartbeatApi.getReportInterval('ridge-1')).toBe(30);
+    expect(heartbeatApi.getReportInterval('valley-2')).toBe(15);
+  });
+});
@@ -0,0 +1,124 @@
+// src/api/heartbeat.ts
+// Tells reporting devices from silent ones. Each device is expected to report every so many
+// minutes; the longer it has been quiet relative to that, the further it moves along
+// fresh → late → stale → offline. Stale and offline devices no longer count as active.
+import { Heartbeat, HeartbeatSettings, HeartbeatState, SensorData } from '@/types/sensor';
+import { onStorageChange } from '@/lib/storageSync';
+
+const HEARTBEAT_STORAGE_KEY = 'heartbeatSettings';
+
+export const DEFAULT_HEARTBEAT_SETTINGS: HeartbeatSettings = {
+  defaultIntervalMinutes: 5,
+  intervals: {},
+};
+
+// Missed intervals before each state: one late report is normal jitter, an hour of silence is not
+const LATE_AFTER_INTERVALS = 1.5;
+const STALE_AFTER_INTERVALS = 3;
+const OFFLINE_AFTER_INTERVALS = 12;
+
+export const HEARTBEAT_STATES: HeartbeatState[] = ['fresh', 'late', 'stale', 'offline'];
+
+export const HEARTBEAT_LABELS: Record<HeartbeatState, string> = {
+  fresh: 'Fresh',
+  late: 'Late',
+  stale: 'Stale',
+  offline: 'Offline',
+};
+
+const listeners = new Set<() => void>();
+
+const readSettings = (): HeartbeatSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HEARTBEAT_STORAGE_KEY) || '{}');
+    return { ...DEFAULT_HEARTBEAT_SETTINGS, ...stored, intervals: { ...stored.intervals } };
+  } catch {
+    return DEFAULT_HEARTBEAT_SETTINGS;
+  }
+};
+
+let settings = readSettings();
+
+const commit = (next: HeartbeatSettings) => {
+  settings = next;
+  localStorage.setItem(HEARTBEAT_STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach(listener => listener());
+};
+
+onStorageChange(HEARTBEAT_STORAGE_KEY, () => {
+  settings = readSettings();
+  listeners.forEach(listener => listener());
+});
+
+export const getHeartbeatSettings = (): HeartbeatSettings => settings;
+
+export const setDefaultReportInterval = (minutes: number) => commit({ ...settings, defaultIntervalMinutes: minutes });
+
+// null goes back to the default interval
+export const setReportInterval = (deviceId: string, minutes: number | null) => {
+  const intervals = { ...settings.intervals };
+  if (minutes === null) {
+    delete intervals[deviceId];
+  } else {
+    intervals[deviceId] = minutes;
+  }
+  commit({ ...settings, intervals });
+};
+
+export const subscribeHeartbeatSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getReportInterval = (deviceId: string, source: HeartbeatSettings = settings) =>
+  source.intervals[deviceId] ?? source.defaultIntervalMinutes;
+
+export const getHeartbeat = (
+  sensor: Pick<SensorData, 'deviceId' | 'timestamp'>,
+  now = Date.now(),
+  source: HeartbeatSettings = settings
+): Heartbeat => {
+  const lastSeen = new Date(sensor.timestamp).getTime();
+  const expectedMs = getReportInterval(sensor.deviceId, source) * 60000;
+  // A clock running ahead on the device shouldn't read as a report from the future
+  const sinceMs = Number.isNaN(lastSeen) ? Infinity : Math.max(0, now - lastSeen);
+  const missed = sinceMs / expectedMs;
+
+  let state: HeartbeatState = 'fresh';
+  if (missed > OFFLINE_AFTER_INTERVALS) state = 'offline';
+  else if (missed > STALE_AFTER_INTERVALS) state = 'stale';
+  else if (missed > LATE_AFTER_INTERVALS) state = 'late';
+
+  return { state, lastSeen, sinceMs, expectedMs };
+};
+
+// Late devices are still trusted; stale and offline ones show their last known values only
+export const isReporting = (state: HeartbeatState) => state === 'fresh' || state === 'late';
+
+export interface SensorHeartbeat {
+  sensor: SensorData;
+  heartbeat: Heartbeat;
+}
+
+// Devices that are not fresh, longest silent first
+export const getSensorsNeedingAttention = (
+  sensors: SensorData[],
+  now = Date.now(),
+  source: HeartbeatSettings = settings
+): SensorHeartbeat[] =>
+  sensors
+    .map(sensor => ({ sensor, heartbeat: getHeartbeat(sensor, now, source) }))
+    .filter(({ heartbeat }) => heartbeat.state !== 'fresh')
+    .sort((a, b) => b.heartbeat.sinceMs - a.heartbeat.sinceMs);
+
+export const formatSince = (ms: number) => {
+  if (!Number.isFinite(ms)) return 'never';
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
@@ -0,0 +1,132 @@
+// src/api/heatmap.ts
+// Interpolated reading surface for the map. Each point on the map takes an inverse distance
+// weighted (IDW) average of the sensors around it, so a hot area spanning several sensors shows
+// as one patch before any single sensor trips its fire flag. Far from every sensor there is
+// nothing to interpolate from, and the surface fades out.
+import { HeatmapMetric } from '@/types/mapLayers';
+import { METERS_PER_DEGREE_LAT, METERS_PER_DEGREE_LNG } from '@/lib/units';
+
+export interface HeatmapScale {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  // Low values are the dangerous ones (dry air)
+  inverted?: boolean;
+}
+
+export const HEATMAP_METRICS: HeatmapMetric[] = ['temp', 'smoke', 'humidity'];
+
+// Spans the default status thresholds, so watch and warning levels land mid-ramp
+export const HEATMAP_SCALES: Record<HeatmapMetric, HeatmapScale> = {
+  temp: { label: 'Temperature', unit: '°C', min: 15, max: 65 },
+  smoke: { label: 'Smoke', unit: 'ppm', min: 0, max: 150 },
+  humidity: { label: 'Humidity', unit: '%', min: 0, max: 100, inverted: true },
+};
+
+// Low risk to high risk
+export const HEATMAP_RAMP: [number, number, number][] = [
+  [34, 197, 94],
+  [234, 179, 8],
+  [249, 115, 22],
+  [220, 38, 38],
+];
+
+// How far a sensor's reading carries; beyond it the surface is transparent
+export const HEATMAP_RADIUS_M = 8000;
+const IDW_POWER = 2;
+
+export interface HeatmapPoint {
+  latitude: number;
+  longitude: number;
+  value: number;
+}
+
+export interface InterpolatedValue {
+  value: number;
+  // Distance to the closest sensor, for fading the surface out
+  nearestM: number;
+}
+
+// Flat-earth distance; accurate to well under a percent across one forest division
+const distanceM = (latitude: number, longitude: number, point: HeatmapPoint) => {
+  const dy = (point.latitude - latitude) * METERS_PER_DEGREE_LAT;
+  const dx = (point.longitude - longitude) * METERS_PER_DEGREE_LNG * Math.cos((latitude * Math.PI) / 180);
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+export const interpolateAt = (
+  points: HeatmapPoint[],
+  latitude: number,
+  longitude: number,
+  radiusM = HEATMAP_RADIUS_M
+): InterpolatedValue | null => {
+  let weighted = 0;
+  let totalWeight = 0;
+  let nearestM = Infinity;
+
+  for (const point of points) {
+    const distance = distanceM(latitude, longitude, point);
+    if (distance > radiusM) continue;
+    // Standing on a sensor: its own reading, not an average
+    if (distance < 1) return { value: point.value, nearestM: 0 };
+    const weight = 1 / distance ** IDW_POWER;
+    weighted += weight * point.value;
+    totalWeight += weight;
+    nearestM = Math.min(nearestM, distance);
+  }
+
+  return totalWeight === 0 ? null : { value: weighted / totalWeight, nearestM };
+};
+
+// Position on the ramp from 0 (low risk) to 1 (high risk)
+export const riskFraction = (metric: HeatmapMetric, value: number) => {
+  const { min, max, inverted } = HEATMAP_SCALES[metric];
+  const fraction = Math.min(1, Math.max(0, (value - min) / (max - min)));
+  return inverted ? 1 - fraction : fraction;
+};
+
+export const rampColor = (fraction: number): [number, number, number] => {
+  const scaled = fraction * (HEATMAP_RAMP.length - 1);
+  const index = Math.min(HEATMAP_RAMP.length - 2, Math.floor(scaled));
+  const t = scaled - index;
+  const [from, to] = [HEATMAP_RAMP[index], HEATMAP_RAMP[index + 1]];
+  return [0, 1, 2].map(channel => Math.round(from[channel] + (to[channel] - from[channel]) * t)) as [
+    number,
+    number,
+    number,
+  ];
+};
+
+export interface HeatmapGrid {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  cols: number;
+  rows: number;
+}
+
+// RGBA pixels for the grid, top row first as canvas ImageData expects
+export const renderHeatmapPixels = (points: HeatmapPoint[], metric: HeatmapMetric, grid: HeatmapGrid) => {
+  const { south, west, north, east, cols, rows } = grid;
+  const pixels = new Uint8ClampedArray(cols * rows * 4);
+  if (points.length === 0) return pixels;
+
+  for (let row = 0; row < rows; row++) {
+    const latitude = north - ((row + 0.5) / rows) * (north - south);
+    for (let col = 0; col < cols; col++) {
+      const longitude = west + ((col + 0.5) / cols) * (east - west);
+      const sample = interpolateAt(points, latitude, longitude);
+      if (!sample) continue;
+
+      const [r, g, b] = rampColor(riskFraction(metric, sample.value));
+      const offset = (row * cols + col) * 4;
+      pixels[offset] = r;
+      pixels[offset + 1] = g;
+      pixels[offset + 2] = b;
+      pixels[offset + 3] = Math.round(255 * Math.sqrt(1 - sample.nearestM / HEATMAP_RADIUS_M));
+    }
+  }
+  return pixels;
+};
@@ -0,0 +1,84 @@
+// src/api/history.test.ts
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SensorData, SensorReading } from '@/types/sensor';
+
+const LEGACY_HISTORY_KEY = 'sensorHistory';
+const MINUTE = 60 * 1000;
+
+const stored = new Map<string, string>();
+// Recent enough to survive the age limit, on whole minutes
+const start = Math.floor(Date.now() / MINUTE) * MINUTE - 60 * MINUTE;
+
+const reading = (deviceId: string, minute: number, temp = 30): SensorReading => ({
+  deviceId,
+  timestamp: new Date(start + minute * MINUTE).toISOString(),
+  temp,
+  humidity: 40,
+  smoke: 5,
+  isFire: false,
+});
+
+let historyApi: typeof import('./history');
+let cacheApi: typeof import('./offlineCache');
+
+beforeAll(async () => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  stored.set(LEGACY_HISTORY_KEY, JSON.stringify({ legacy: [reading('legacy', 0), reading('legacy', 1)] }));
+  vi.useFakeTimers({ toFake: ['setTimeout'] });
+
+  historyApi = await import('./history');
+  cacheApi = await import('./offlineCache');
+  historyApi.historyEndpointProbe.set('unsupported');
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+const range = (from: number, to: number) => [new Date(start + from * MINUTE), new Date(start + to * MINUTE)] as const;
+
+describe('local history', () => {
+  it('moves readings out of localStorage into IndexedDB', async () => {
+    const page = await historyApi.getDeviceHistory('legacy', ...range(0, 10));
+    expect(page.readings.map(entry => entry.timestamp)).toEqual([reading('legacy', 0).timestamp, reading('legacy', 1).timestamp]);
+    expect(stored.has(LEGACY_HISTORY_KEY)).toBe(false);
+
+    await vi.runAllTimersAsync();
+    const cached = await cacheApi.readCache<SensorReading[]>(cacheApi.CACHE_KEYS.history('legacy'));
+    expect(cached?.value).toHaveLength(2);
+  });
+
+  it('saves recorded readings per device in one batched write', async () => {
+    const sensor = (minute: number) => ({ ...reading('fresh', minute), id: 'fresh', name: 'Fresh' }) as SensorData;
+    historyApi.recordReadings([sensor(0)]);
+    historyApi.recordReadings([sensor(0), sensor(1)]);
+    expect(historyApi.getRecentReadings('fresh', 120 * MINUTE)).toHaveLength(2);
+    expect(await cacheApi.readCache(cacheApi.CACHE_KEYS.history('fresh'))).toBeUndefined();
+
+    await vi.runAllTimersAsync();
+    const cached = await cacheApi.readCache<SensorReading[]>(cacheApi.CACHE_KEYS.history('fresh'));
+    expect(cached?.value.map(entry => entry.timestamp)).toEqual([sensor(0).timestamp, sensor(1).timestamp]);
+  });
+});
+
+describe('local history pages', () => {
+  it('do not repeat a bucket across pages', async () => {
+    const sensor = (second: number, temp: number) =>
+      ({ ...reading('paged', 0, temp), timestamp: new Date(start + second * 1000).toISOString(), id: 'paged' }) as SensorData;
+    // Three readings in each of the first three minutes
+    [0, 20, 40, 60, 80, 100, 120, 140, 160].forEach((second, index) => historyApi.recordReadings([sensor(second, index)]));
+
+    const [from, to] = range(0, 10);
+    const first = await historyApi.getDeviceHistory('paged', from, to, '1m', { limit: 2 });
+    const second = await historyApi.getDeviceHistory('paged', from, to, '1m', { limit: 2, cursor: first.nextCursor });
+
+    expect(first.readings.map(entry => entry.temp)).toEqual([1, 4]);
+    expect(second.readings.map(entry => entry.temp)).toEqual([7]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+// src/api/history.ts
+import { getApiBaseUrl } from './fireAlerts';
+import { historyReadingSchema, historyResponseSchema } from './deviceSchema';
+import { createEndpointProbe } from './endpointProbe';
+import { requestJson, isAbortError, ParseError } from './httpClient';
+import { CACHE_KEYS, deleteCache, HISTORY_KEY_PREFIX, readCache, readCacheEntries, writeCache } from './offlineCache';
+import { SensorData, SensorReading } from '@/types/sensor';
+
+export type HistoryResolution = 'raw' | '1m' | '5m' | '15m' | '1h';
+
+export const RESOLUTION_MS: Record<HistoryResolution, number> = {
+  raw: 0,
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+export interface HistoryPage {
+  readings: SensorReading[];
+  nextCursor: string | null;
+  source: 'server' | 'local';
+}
+
+export interface HistoryPageOptions {
+  cursor?: string | null;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGES = 20;
+const HISTORY_TIMEOUT_MS = 15000;
+
+// Readings this client has seen, used while the backend has no history endpoint. They live in
+// IndexedDB, one entry per device; before that they filled up localStorage under this key.
+const LEGACY_HISTORY_KEY = 'sensorHistory';
+const LOCAL_HISTORY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const LOCAL_HISTORY_MAX_PER_DEVICE = 5000;
+// Batches a fleet poll into one write per device that reported
+const LOCAL_HISTORY_WRITE_DELAY_MS = 5000;
+
+// Whether the backend serves GET /getHistory/:deviceId
+export const historyEndpointProbe = createEndpointProbe('getHistory', getApiBaseUrl);
+
+const byTimestamp = (a: SensorReading, b: SensorReading) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+// Held in memory as well, since status rules read it synchronously on each render
+const localHistory: Record<string, SensorReading[]> = {};
+const unsavedDevices = new Set<string>();
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+// One reading per timestamp, oldest first, within the age and size limits
+const mergeReadings = (current: SensorReading[], added: SensorReading[]) => {
+  const cutoff = Date.now() - LOCAL_HISTORY_MAX_AGE_MS;
+  const byTime = new Map<string, SensorReading>();
+  [...current, ...added].forEach(reading => byTime.set(reading.timestamp, reading));
+  return Array.from(byTime.values())
+    .filter(reading => new Date(reading.timestamp).getTime() >= cutoff)
+    .sort(byTimestamp)
+    .slice(-LOCAL_HISTORY_MAX_PER_DEVICE);
+};
+
+const saveLocalHistory = async () => {
+  writeTimer = null;
+  const deviceIds = Array.from(unsavedDevices);
+  unsavedDevices.clear();
+
+  await Promise.all(
+    deviceIds.map(async deviceId => {
+      // Other tabs record too; keep what they saved
+      const stored = await readCache<SensorReading[]>(CACHE_KEYS.history(deviceId));
+      const readings = mergeReadings(localHistory[deviceId] ?? [], stored?.value ?? []);
+      if (readings.length === 0) {
+        delete localHistory[deviceId];
+        return deleteCache(CACHE_KEYS.history(deviceId));
+      }
+      localHistory[deviceId] = readings;
+      return writeCache(CACHE_KEYS.history(deviceId), readings);
+    })
+  );
+};
+
+const scheduleSave = (deviceIds: string[]) => {
+  deviceIds.forEach(deviceId => unsavedDevices.add(deviceId));
+  if (!writeTimer && unsavedDevices.size > 0) writeTimer = setTimeout(saveLocalHistory, LOCAL_HISTORY_WRITE_DELAY_MS);
+};
+
+const loadLocalHistory = async () => {
+  const entries = await readCacheEntries<SensorReading[]>(HISTORY_KEY_PREFIX);
+  entries.forEach(({ key, value }) => {
+    const deviceId = key.slice(HISTORY_KEY_PREFIX.length);
+    localHistory[deviceId] = mergeReadings(localHistory[deviceId] ?? [], value);
+  });
+
+  // Move readings recorded before history moved to IndexedDB, and free the space they took
+  let legacy: Record<string, SensorReading[]> = {};
+  try {
+    legacy = JSON.parse(localStorage.getItem(LEGACY_HISTORY_KEY) || '{}');
+  } catch {
+    // Unreadable; dropped below
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  Object.entries(legacy).forEach(([deviceId, readings]) => {
+    localHistory[deviceId] = mergeReadings(localHistory[deviceId] ?? [], readings);
+  });
+  scheduleSave(Object.keys(legacy));
+};
+
+// Readings recorded before this resolves are merged in, not overwritten
+const localHistoryLoaded = loadLocalHistory();
+
+export const toSensorReading = (sensor: SensorData): SensorReading => ({
+  deviceId: sensor.deviceId,
+  timestamp: sensor.timestamp,
+  temp: sensor.temp,
+  humidity: sensor.humidity,
+  smoke: sensor.smoke,
+  isFire: sensor.isFire,
+  latitude: sensor.latitude,
+  longitude: sensor.longitude,
+});
+
+// Append the latest snapshot of each sensor to the local history
+export const recordReadings = (sensors: SensorData[]) => {
+  const changed = sensors.filter(sensor => {
+    const readings = localHistory[sensor.deviceId] || [];
+    const last = readings[readings.length - 1];
+    if (last && last.timestamp === sensor.timestamp) return false;
+
+    localHistory[sensor.deviceId] = mergeReadings(readings, [toSensorReading(sensor)]);
+    return true;
+  });
+
+  scheduleSave(changed.map(sensor => sensor.deviceId));
+};
+
+// Locally recorded readings of a device from the last windowMs, oldest first
+export const getRecentReadings = (deviceId: string, windowMs: number): SensorReading[] => {
+  const cutoff = Date.now() - windowMs;
+  return (localHistory[deviceId] || []).filter(reading => new Date(reading.timestamp).getTime() >= cutoff);
+};
+
+// Average readings into fixed-size buckets; a bucket is on fire if any reading in it was
+export const downsampleReadings = (readings: SensorReading[], resolution: HistoryResolution): SensorReading[] => {
+  const bucketMs = RESOLUTION_MS[resolution];
+  if (!bucketMs) return readings;
+
+  const buckets = new Map<number, SensorReading[]>();
+  readings.forEach(reading => {
+    const bucket = Math.floor(new Date(reading.timestamp).getTime() / bucketMs) * bucketMs;
+    buckets.set(bucket, [...(buckets.get(bucket) || []), reading]);
+  });
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, group]) => ({
+      deviceId: group[0].deviceId,
+      timestamp: new Date(bucket).toISOString(),
+      temp: average(group.map(r => r.temp)),
+      humidity: average(group.map(r => r.humidity)),
+      smoke: average(group.map(r => r.smoke)),
+      isFire: group.some(r => r.isFire),
+      latitude: group[group.length - 1].latitude,
+      longitude: group[group.length - 1].longitude,
+    }));
+};
+
+// Coarsest resolution that still keeps roughly maxPoints readings across the window
+export const pickResolution = (from: Date, to: Date, maxPoints = 300): HistoryResolution => {
+  const span = to.getTime() - from.getTime();
+  const order: HistoryResolution[] = ['raw', '1m', '5m', '15m', '1h'];
+  return order.find(resolution => resolution !== 'raw' && span / RESOLUTION_MS[resolution] <= maxPoints) || '1h';
+};
+
+const getLocalHistoryPage = async (
+  deviceId: string,
+  from: Date,
+  to: Date,
+  resolution: HistoryResolution,
+  { cursor, limit = DEFAULT_PAGE_SIZE }: HistoryPageOptions
+): Promise<HistoryPage> => {
+  await localHistoryLoaded;
+  const after = cursor ? new Date(cursor).getTime() : from.getTime() - 1;
+  const inRange = (localHistory[deviceId] || []).filter(reading => {
+    const time = new Date(reading.timestamp).getTime();
+    return time > after && time >= from.getTime() && time <= to.getTime();
+  });
+
+  const sampled = downsampleReadings(inRange, resolution);
+  const readings = sampled.slice(0, limit);
+  const hasMore = sampled.length > limit;
+  // A bucket is stamped with its start, so move past its end or the next page repeats the rest of it
+  const lastEnd = hasMore
+    ? new Date(readings[readings.length - 1].timestamp).getTime() + Math.max(0, RESOLUTION_MS[resolution] - 1)
+    : null;
+
+  return {
+    readings,
+    nextCursor: lastEnd === null ? null : new Date(lastEnd).toISOString(),
+    source: 'local',
+  };
+};
+
+// Returns undefined when the backend has no history endpoint
+const requestHistoryPage = async (
+  deviceId: string,
+  from: Date,
+  to: Date,
+  resolution: HistoryResolution,
+  { cursor, limit = DEFAULT_PAGE_SIZE, signal }: HistoryPageOptions
+): Promise<HistoryPage | undefined> => {
+  const params = new URLSearchParams({
+    from: from.toISOString(),
+    to: to.toISOString(),
+    resolution,
+    limit: String(limit),
+  });
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await requestJson(`${getApiBaseUrl()}/getHistory/${encodeURIComponent(deviceId)}?${params}`, {
+    signal,
+    timeoutMs: HISTORY_TIMEOUT_MS,
+    acceptStatus: status => status < 500,
+  }).catch(error => {
+    if (error instanceof ParseError) return null;
+    throw error;
+  });
+
+  const parsed = historyResponseSchema.safeParse(response?.data);
+  if (!parsed.success) return undefined;
+
+  const readings = parsed.data.readings.flatMap((raw): SensorReading[] => {
+    const parsedReading = historyReadingSchema.safeParse(raw);
+    if (!parsedReading.success) {
+      console.warn(`Dropping invalid history reading for ${deviceId}:`, parsedReading.error.issues);
+      return [];
+    }
+
+    const reading = parsedReading.data;
+    return [{
+      deviceId: reading.deviceId || deviceId,
+      timestamp: new Date(reading.timestamp || reading.lastUpdate).toISOString(),
+      temp: reading.temp,
+      humidity: reading.humidity,
+      smoke: reading.smoke,
+      isFire: Boolean(reading.isFire ?? reading.isfire),
+      latitude: reading.latitude,
+      longitude: reading.longitude,
+    }];
+  });
+
+  return {
+    readings: readings.sort(byTimestamp),
+    nextCursor: parsed.data.nextCursor ?? null,
+    source: 'server',
+  };
+};
+
+// ✅ Fetch one page of a device's readings between from and to (oldest first)
+export const getDeviceHistory = async (
+  deviceId: string,
+  from: Date,
+  to: Date,
+  resolution: HistoryResolution = 'raw',
+  options: HistoryPageOptions = {}
+): Promise<HistoryPage> => {
+  try {
+    const support = historyEndpointProbe.get();
+    if (support !== 'unsupported') {
+      const page = await requestHistoryPage(deviceId, from, to, resolution, options).catch(error => {
+        if (support === 'supported' || isAbortError(error)) throw error;
+        return undefined;
+      });
+      if (page) {
+        historyEndpointProbe.set('supported');
+        return page;
+      }
+
+      console.warn('History endpoint is not available, using readings recorded by this browser');
+      historyEndpointProbe.set('unsupported');
+    }
+
+    return await getLocalHistoryPage(deviceId, from, to, resolution, options);
+  } catch (error) {
+    if (!isAbortError(error)) console.error(`Error fetching history for device ${deviceId}:`, error);
+    throw error;
+  }
+};
+
+// ✅ Fetch every page of a device's readings between from and to
+export const getDeviceHistoryRange = async (
+  deviceId: string,
+  from: Date,
+  to: Date,
+  resolution: HistoryResolution = 'raw',
+  signal?: AbortSignal
+): Promise<SensorReading[]> => {
+  const readings: SensorReading[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await getDeviceHistory(deviceId, from, to, resolution, { cursor, signal });
+    readings.push(...result.readings);
+    cursor = result.nextCursor;
+    if (!cursor) break;
+  }
+
+  return readings;
+};
@@ -0,0 +1,248 @@
+// src/api/httpClient.ts
+// Shared fetch wrapper: per-request timeouts, retries with jittered exponential backoff,
+// de-duplication of identical in-flight GETs and cancellation through AbortSignal.
+
+export type RequestErrorKind = 'network' | 'http' | 'parse';
+
+export class RequestError extends Error {
+  readonly kind: RequestErrorKind;
+  readonly url: string;
+
+  constructor(kind: RequestErrorKind, url: string, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.url = url;
+  }
+}
+
+// The server could not be reached: offline, DNS, CORS or timeout
+export class NetworkError extends RequestError {
+  readonly timedOut: boolean;
+
+  constructor(url: string, message: string, timedOut = false) {
+    super('network', url, message);
+    this.name = 'NetworkError';
+    this.timedOut = timedOut;
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpError extends RequestError {
+  readonly status: number;
+  readonly statusText: string;
+  readonly body: unknown;
+
+  constructor(url: string, status: number, statusText: string, body: unknown) {
+    super('http', url, `HTTP ${status} ${statusText}`.trim());
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+// The server answered 2xx but the body was not what we expected
+export class ParseError extends RequestError {
+  constructor(url: string, message: string) {
+    super('parse', url, message);
+    this.name = 'ParseError';
+  }
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Extra attempts after the first; defaults to 2 for GET and 0 otherwise
+  retries?: number;
+  retryBaseMs?: number;
+  // Share one in-flight request between identical callers; defaults to true for GET
+  dedupe?: boolean;
+  // Resolve with the error response instead of throwing, for callers that inspect status codes
+  acceptStatus?: (status: number) => boolean;
+}
+
+export interface JsonResponse<T> {
+  status: number;
+  ok: boolean;
+  data: T;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRY_BASE_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+// Worth another attempt: connectivity problems, rate limiting and server errors
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  (error instanceof HttpError && (error.status === 429 || error.status >= 500));
+
+// Full jitter: a random delay between 0 and the exponential ceiling
+export const backoffDelay = (attempt: number, baseMs = DEFAULT_RETRY_BASE_MS) =>
+  Math.random() * Math.min(MAX_RETRY_DELAY_MS, baseMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const parseBody = async (response: Response, url: string): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    if (!response.ok) return text;
+    throw new ParseError(url, 'Response was not valid JSON');
+  }
+};
+
+const attempt = async <T>(
+  url: string,
+  { method = 'GET', headers, body, timeoutMs = DEFAULT_TIMEOUT_MS, acceptStatus }: RequestOptions,
+  signal: AbortSignal
+): Promise<JsonResponse<T>> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        mode: 'cors',
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (signal.aborted) throw abortError();
+      if (timedOut) throw new NetworkError(url, `Request timed out after ${timeoutMs / 1000}s`, true);
+      throw new NetworkError(url, error instanceof Error ? error.message : 'Network request failed');
+    }
+
+    const data = await parseBody(response, url);
+    if (!response.ok && !acceptStatus?.(response.status)) {
+      throw new HttpError(url, response.status, response.statusText, data);
+    }
+    return { status: response.status, ok: response.ok, data: data as T };
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', onAbort);
+  }
+};
+
+const send = async <T>(url: string, options: RequestOptions, signal: AbortSignal): Promise<JsonResponse<T>> => {
+  const retries = options.retries ?? ((options.method ?? 'GET') === 'GET' ? 2 : 0);
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      return await attempt<T>(url, options, signal);
+    } catch (error) {
+      if (attemptIndex >= retries || !isRetryableError(error)) throw error;
+      await sleep(backoffDelay(attemptIndex, options.retryBaseMs), signal);
+    }
+  }
+};
+
+interface InFlightRequest {
+  promise: Promise<JsonResponse<unknown>>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inFlight = new Map<string, InFlightRequest>();
+
+// Reject as soon as this caller's signal aborts, without cancelling the shared request for others
+const withCallerSignal = <T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort: () => void) => {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    onAbort();
+    return Promise.reject(abortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      onAbort();
+      reject(abortError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+};
+
+// ✅ Request a JSON resource
+export const requestJson = <T = unknown>(url: string, options: RequestOptions = {}): Promise<JsonResponse<T>> => {
+  const method = options.method ?? 'GET';
+  const dedupe = options.dedupe ?? method === 'GET';
+
+  if (!dedupe) {
+    const controller = new AbortController();
+    return withCallerSignal(send<T>(url, options, controller.signal), options.signal, () => controller.abort());
+  }
+
+  const key = `${method} ${url} ${options.body === undefined ? '' : JSON.stringify(options.body)}`;
+  let entry = inFlight.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const promise = send<unknown>(url, options, controller.signal).finally(() => {
+      if (inFlight.get(key) === entry) inFlight.delete(key);
+    });
+    entry = { promise, controller, subscribers: 0 };
+    inFlight.set(key, entry);
+  }
+
+  const shared = entry;
+  shared.subscribers += 1;
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    shared.subscribers -= 1;
+    // The last interested caller went away, so stop the underlying request
+    if (shared.subscribers === 0) {
+      shared.controller.abort();
+      if (inFlight.get(key) === shared) inFlight.delete(key);
+    }
+  };
+
+  return withCallerSignal(shared.promise as Promise<JsonResponse<T>>, options.signal, release).finally(() => {
+    released = true;
+  });
+};
+
+// User-facing one-liner for an error thrown by requestJson
+export const describeRequestError = (error: unknown): string => {
+  if (error instanceof NetworkError) {
+    return error.timedOut ? 'The server took too long to respond' : 'Could not reach the server';
+  }
+  if (error instanceof HttpError) {
+    if (error.status === 401 || error.status === 403) return 'The server rejected our credentials';
+    return `The server returned an error (${error.status})`;
+  }
+  if (error instanceof ParseError) return 'The server sent an unexpected response';
+  return error instanceof Error ? error.message : 'Something went wrong';
+};
@@ -0,0 +1,76 @@
+// src/api/liveFeed.test.ts
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { SensorData } from '@/types/sensor';
+
+vi.mock('./offlineCache', async importOriginal => ({
+  ...(await importOriginal<typeof import('./offlineCache')>()),
+  saveFleetSnapshot: vi.fn(),
+}));
+
+const sensor = (deviceId: string, temp = 30): SensorData =>
+  ({
+    id: deviceId,
+    deviceId,
+    name: deviceId,
+    temp,
+    humidity: 40,
+    smoke: 5,
+    isFire: false,
+    latitude: 11.4,
+    longitude: 76.7,
+    timestamp: '2026-10-01T10:00:00.000Z',
+    status: 'active',
+  }) as SensorData;
+
+let liveFeedApi: typeof import('./liveFeed');
+let sensorsApi: typeof import('./sensors');
+let cacheApi: typeof import('./offlineCache');
+
+beforeAll(async () => {
+  const stored = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: () => undefined, removeEventListener: () => undefined });
+  liveFeedApi = await import('./liveFeed');
+  sensorsApi = await import('./sensors');
+  cacheApi = await import('./offlineCache');
+});
+
+beforeEach(() => vi.mocked(cacheApi.saveFleetSnapshot).mockClear());
+
+describe('mergeSensorsIntoCache', () => {
+  it('leaves the fleet empty when a single update arrives before the first fetch', () => {
+    const queryClient = new QueryClient();
+    liveFeedApi.mergeSensorsIntoCache(queryClient, [sensor('a')]);
+
+    expect(queryClient.getQueryData(sensorsApi.sensorQueryKeys.all)).toBeUndefined();
+    expect(queryClient.getQueryData(sensorsApi.sensorQueryKeys.device('a'))).toEqual(sensor('a'));
+    expect(cacheApi.saveFleetSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('takes a snapshot as the whole fleet', () => {
+    const queryClient = new QueryClient();
+    liveFeedApi.mergeSensorsIntoCache(queryClient, [sensor('a'), sensor('b')], true);
+
+    expect(queryClient.getQueryData(sensorsApi.sensorQueryKeys.all)).toHaveLength(2);
+    expect(cacheApi.saveFleetSnapshot).toHaveBeenCalledWith([sensor('a'), sensor('b')]);
+  });
+
+  it('merges updates into a loaded fleet', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(sensorsApi.sensorQueryKeys.all, [sensor('a'), sensor('b')]);
+    liveFeedApi.mergeSensorsIntoCache(queryClient, [sensor('b', 45)]);
+
+    const fleet = queryClient.getQueryData<SensorData[]>(sensorsApi.sensorQueryKeys.all);
+    expect(fleet.map(item => [item.deviceId, item.temp])).toEqual([
+      ['a', 30],
+      ['b', 45],
+    ]);
+    expect(cacheApi.saveFleetSnapshot).toHaveBeenCalledWith(fleet);
+  });
+});
@@ -0,0 +1,139 @@
+// src/api/liveFeed.ts
+import { QueryClient } from '@tanstack/react-query';
+import { parseDevice } from './deviceSchema';
+import { sensorQueryKeys, toSensorData } from './sensors';
+import { recordReadings } from './history';
+import { saveFleetSnapshot } from './offlineCache';
+import { markOnline } from './connectivity';
+import { SensorData } from '@/types/sensor';
+
+// Push channel for device updates. ws:// and wss:// URLs use a WebSocket, anything else Server-Sent Events.
+export type LiveFeedTransport = 'sse' | 'websocket';
+export type LiveFeedStatus = 'disabled' | 'connecting' | 'open' | 'closed';
+
+// Messages carry devices in the same raw shape as GET /getAlert
+export type LiveFeedMessage =
+  | { type: 'device-update'; device: unknown }
+  | { type: 'snapshot'; devices: unknown[] };
+
+interface LiveFeedOptions {
+  url: string;
+  onSensors: (sensors: SensorData[], isSnapshot: boolean) => void;
+  onStatus: (status: LiveFeedStatus) => void;
+}
+
+export interface LiveFeedConnection {
+  close: () => void;
+}
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+export const getTransport = (url: string): LiveFeedTransport =>
+  /^wss?:\/\//i.test(url) ? 'websocket' : 'sse';
+
+const parseMessage = (payload: string): { sensors: SensorData[]; isSnapshot: boolean } | null => {
+  let message: LiveFeedMessage;
+  try {
+    message = JSON.parse(payload);
+  } catch {
+    console.warn('Ignoring malformed live feed message:', payload);
+    return null;
+  }
+
+  let devices: unknown[] = [];
+  if (message?.type === 'snapshot') devices = message.devices;
+  else if (message?.type === 'device-update') devices = [message.device];
+
+  const isSnapshot = message?.type === 'snapshot';
+  const sensors = (Array.isArray(devices) ? devices : [])
+    .map(device => parseDevice(device).alert)
+    .filter(Boolean)
+    .map(toSensorData);
+
+  return { sensors, isSnapshot };
+};
+
+// Open a live feed that reconnects with exponential backoff until closed
+export const connectLiveFeed = ({ url, onSensors, onStatus }: LiveFeedOptions): LiveFeedConnection => {
+  const transport = getTransport(url);
+  let source: EventSource | WebSocket | null = null;
+  let retryDelay = INITIAL_RETRY_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const handlePayload = (payload: string) => {
+    const message = parseMessage(payload);
+    if (!message || (message.sensors.length === 0 && !message.isSnapshot)) return;
+    onSensors(message.sensors, message.isSnapshot);
+  };
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    onStatus('closed');
+    retryTimer = setTimeout(open, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+  };
+
+  const handleOpen = () => {
+    retryDelay = INITIAL_RETRY_MS;
+    onStatus('open');
+  };
+
+  function open() {
+    if (closed) return;
+    onStatus('connecting');
+
+    if (transport === 'websocket') {
+      const socket = new WebSocket(url);
+      socket.onopen = handleOpen;
+      socket.onmessage = event => handlePayload(String(event.data));
+      socket.onclose = scheduleReconnect;
+      source = socket;
+    } else {
+      const eventSource = new EventSource(url);
+      eventSource.onopen = handleOpen;
+      eventSource.onmessage = event => handlePayload(event.data);
+      // EventSource retries on its own, but without backoff; take over so we can fall back to polling
+      eventSource.onerror = () => {
+        eventSource.close();
+        scheduleReconnect();
+      };
+      source = eventSource;
+    }
+  }
+
+  open();
+
+  return {
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+      onStatus('disabled');
+    },
+  };
+};
+
+// Merge pushed sensors into the shared React Query cache
+export const mergeSensorsIntoCache = (queryClient: QueryClient, sensors: SensorData[], isSnapshot = false) => {
+  recordReadings(sensors);
+
+  const fleet = queryClient.setQueryData<SensorData[]>(sensorQueryKeys.all, current => {
+    if (isSnapshot) return sensors;
+    // A partial update is not the whole fleet; leave the list for the first fetch to fill
+    if (!current) return undefined;
+
+    const updated = new Map(current.map(sensor => [sensor.deviceId, sensor]));
+    sensors.forEach(sensor => updated.set(sensor.deviceId, sensor));
+    return Array.from(updated.values());
+  });
+
+  // Polling stops while the feed is open, so keep the offline snapshot current from here
+  if (fleet) saveFleetSnapshot(fleet);
+  markOnline();
+
+  sensors.forEach(sensor => {
+    queryClient.setQueryData(sensorQueryKeys.device(sensor.deviceId), sensor);
+  });
+};
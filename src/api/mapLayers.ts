@@ -0,0 +1,215 @@
+// src/api/mapLayers.ts
+// Basemaps and overlays for the sensor map. Which provider serves the satellite and terrain
+// basemaps is configured in Settings; which basemap and overlays are showing is remembered per
+// browser. Both are plain local stores like the other settings.
+import { HEATMAP_METRICS } from '@/api/heatmap';
+import { onStorageChange } from '@/lib/storageSync';
+import {
+  BasemapId,
+  HeatmapMetric,
+  MapLayerChoices,
+  MapProviderSettings,
+  OverlayId,
+  SatelliteProvider,
+  TerrainProvider,
+  TileSource,
+} from '@/types/mapLayers';
+
+const PROVIDER_STORAGE_KEY = 'mapProviderSettings';
+const CHOICES_STORAGE_KEY = 'mapLayerChoices';
+
+export const DEFAULT_PROVIDER_SETTINGS: MapProviderSettings = {
+  satellite: 'esri',
+  terrain: 'opentopomap',
+  mapboxToken: '',
+};
+
+export const DEFAULT_LAYER_CHOICES: MapLayerChoices = {
+  basemap: 'osm',
+  overlays: ['fireZones', 'boundaries'],
+  heatmapMetric: 'temp',
+  heatmapOpacity: 0.6,
+};
+
+export const BASEMAPS: { value: BasemapId; label: string }[] = [
+  { value: 'osm', label: 'Streets (OpenStreetMap)' },
+  { value: 'satellite', label: 'Satellite' },
+  { value: 'terrain', label: 'Terrain' },
+];
+
+export const OVERLAYS: { value: OverlayId; label: string }[] = [
+  { value: 'fireZones', label: 'Fire zones' },
+  { value: 'coverage', label: 'Sensor coverage' },
+  { value: 'boundaries', label: 'Forest boundaries' },
+  { value: 'roads', label: 'Roads' },
+  { value: 'water', label: 'Water sources' },
+  { value: 'heatmap', label: 'Reading heatmap' },
+];
+
+export const SATELLITE_PROVIDERS: { value: SatelliteProvider; label: string }[] = [
+  { value: 'esri', label: 'Esri World Imagery' },
+  { value: 'mapbox', label: 'Mapbox Satellite' },
+];
+
+export const TERRAIN_PROVIDERS: { value: TerrainProvider; label: string }[] = [
+  { value: 'opentopomap', label: 'OpenTopoMap' },
+  { value: 'esri', label: 'Esri World Topo' },
+  { value: 'mapbox', label: 'Mapbox Outdoors' },
+];
+
+// Area a sensor is trusted to watch, drawn by the coverage overlay
+export const SENSOR_COVERAGE_RADIUS_M = 1500;
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const ESRI_ATTRIBUTION = 'Tiles &copy; Esri';
+const MAPBOX_ATTRIBUTION = '&copy; <a href="https://www.mapbox.com/about/maps/">Mapbox</a> ' + OSM_ATTRIBUTION;
+
+const OSM_TILES: TileSource = {
+  url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: OSM_ATTRIBUTION,
+  maxZoom: 19,
+};
+
+const mapboxTiles = (style: string, token: string): TileSource => ({
+  url: `https://api.mapbox.com/styles/v1/mapbox/${style}/tiles/512/{z}/{x}/{y}?access_token=${encodeURIComponent(token)}`,
+  attribution: MAPBOX_ATTRIBUTION,
+  maxZoom: 19,
+  tileSize: 512,
+  zoomOffset: -1,
+});
+
+const SATELLITE_TILES: Record<Exclude<SatelliteProvider, 'mapbox'>, TileSource> = {
+  esri: {
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: `${ESRI_ATTRIBUTION}, Maxar, Earthstar Geographics`,
+    maxZoom: 19,
+  },
+};
+
+const TERRAIN_TILES: Record<Exclude<TerrainProvider, 'mapbox'>, TileSource> = {
+  opentopomap: {
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: `${OSM_ATTRIBUTION}, SRTM | &copy; <a href="https://opentopomap.org">OpenTopoMap</a>`,
+    maxZoom: 17,
+  },
+  esri: {
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+    attribution: ESRI_ATTRIBUTION,
+    maxZoom: 19,
+  },
+};
+
+// Transparent road network drawn over any basemap
+export const ROADS_TILES: TileSource = {
+  url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Transportation/MapServer/tile/{z}/{y}/{x}',
+  attribution: ESRI_ATTRIBUTION,
+  maxZoom: 19,
+};
+
+// Mapbox without a token falls back to the keyless provider rather than a grey map
+export const resolveBasemap = (basemap: BasemapId, settings: MapProviderSettings = providerSettings): TileSource => {
+  const token = settings.mapboxToken.trim();
+  if (basemap === 'satellite') {
+    return settings.satellite === 'mapbox' && token
+      ? mapboxTiles('satellite-v9', token)
+      : SATELLITE_TILES.esri;
+  }
+  if (basemap === 'terrain') {
+    if (settings.terrain === 'mapbox') return token ? mapboxTiles('outdoors-v12', token) : TERRAIN_TILES.opentopomap;
+    return TERRAIN_TILES[settings.terrain];
+  }
+  return OSM_TILES;
+};
+
+// Mapbox public tokens start with pk.; secret sk. tokens must never reach a browser
+export const isMapboxPublicToken = (token: string) => /^pk\.[\w-]+\.[\w-]+$/.test(token.trim());
+
+// Provider settings
+
+const providerListeners = new Set<() => void>();
+
+const readProviderSettings = (): MapProviderSettings => {
+  try {
+    return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(localStorage.getItem(PROVIDER_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+let providerSettings = readProviderSettings();
+
+onStorageChange(PROVIDER_STORAGE_KEY, () => {
+  providerSettings = readProviderSettings();
+  providerListeners.forEach(listener => listener());
+});
+
+export const getMapProviderSettings = (): MapProviderSettings => providerSettings;
+
+export const setMapProviderSettings = (changes: Partial<MapProviderSettings>) => {
+  providerSettings = { ...providerSettings, ...changes };
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(providerSettings));
+  providerListeners.forEach(listener => listener());
+};
+
+export const subscribeMapProviderSettings = (listener: () => void) => {
+  providerListeners.add(listener);
+  return () => {
+    providerListeners.delete(listener);
+  };
+};
+
+// Layer choices
+
+const choiceListeners = new Set<() => void>();
+
+const isBasemap = (value: unknown): value is BasemapId => BASEMAPS.some(option => option.value === value);
+const isOverlay = (value: unknown): value is OverlayId => OVERLAYS.some(option => option.value === value);
+
+// Drops ids from older versions or hand-edited links
+export const sanitizeOverlays = (values: unknown[]): OverlayId[] => [...new Set(values.filter(isOverlay))];
+
+export const parseBasemap = (value: unknown): BasemapId | undefined => (isBasemap(value) ? value : undefined);
+
+export const parseHeatmapMetric = (value: unknown): HeatmapMetric | undefined =>
+  HEATMAP_METRICS.includes(value as HeatmapMetric) ? (value as HeatmapMetric) : undefined;
+
+const clampOpacity = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(1, Math.max(0, value))
+    : DEFAULT_LAYER_CHOICES.heatmapOpacity;
+
+const readChoices = (): MapLayerChoices => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CHOICES_STORAGE_KEY) || '{}');
+    return {
+      basemap: parseBasemap(stored.basemap) ?? DEFAULT_LAYER_CHOICES.basemap,
+      overlays: Array.isArray(stored.overlays) ? sanitizeOverlays(stored.overlays) : DEFAULT_LAYER_CHOICES.overlays,
+      heatmapMetric: parseHeatmapMetric(stored.heatmapMetric) ?? DEFAULT_LAYER_CHOICES.heatmapMetric,
+      heatmapOpacity: clampOpacity(stored.heatmapOpacity),
+    };
+  } catch {
+    return DEFAULT_LAYER_CHOICES;
+  }
+};
+
+let choices = readChoices();
+
+onStorageChange(CHOICES_STORAGE_KEY, () => {
+  choices = readChoices();
+  choiceListeners.forEach(listener => listener());
+});
+
+export const getMapLayerChoices = (): MapLayerChoices => choices;
+
+export const setMapLayerChoices = (next: MapLayerChoices) => {
+  choices = next;
+  localStorage.setItem(CHOICES_STORAGE_KEY, JSON.stringify(choices));
+  choiceListeners.forEach(listener => listener());
+};
+
+export const subscribeMapLayerChoices = (listener: () => void) => {
+  choiceListeners.add(listener);
+  return () => {
+    choiceListeners.delete(listener);
+  };
+};
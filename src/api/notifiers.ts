@@ -0,0 +1,137 @@
+// src/api/notifiers.ts
+// Delivery adapters for alert escalation. Webhooks are posted for real; email and SMS have no
+// provider yet, so their default adapters record the message in a local outbox instead.
+// Swap any channel for a real integration with registerNotifier.
+import { NotifierChannel } from '@/types/alert';
+import { SensorReading } from '@/types/sensor';
+import { onStorageChange } from '@/lib/storageSync';
+import { describeRequestError, ParseError, requestJson } from './httpClient';
+
+export interface EscalationMessage {
+  alertId: string;
+  deviceId: string;
+  recipient: string;
+  minutesUnacknowledged: number;
+  trigger: SensorReading;
+  text: string;
+}
+
+export interface NotifierResult {
+  ok: boolean;
+  message: string;
+}
+
+export interface NotifierAdapter {
+  channel: NotifierChannel;
+  send: (message: EscalationMessage, target: string) => Promise<NotifierResult>;
+}
+
+export interface OutboxEntry {
+  channel: NotifierChannel;
+  target: string;
+  text: string;
+  sentAt: string;
+}
+
+export const NOTIFIER_CHANNELS: { value: NotifierChannel; label: string; placeholder: string }[] = [
+  { value: 'sms', label: 'SMS', placeholder: '+91 98765 43210' },
+  { value: 'email', label: 'Email', placeholder: 'officer@forest.gov.in' },
+  { value: 'webhook', label: 'Webhook', placeholder: 'https://example.org/hooks/fire' },
+];
+
+const OUTBOX_STORAGE_KEY = 'notifierOutbox';
+const MAX_OUTBOX_ENTRIES = 50;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const outboxListeners = new Set<() => void>();
+
+const readOutbox = (): OutboxEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+let outbox: OutboxEntry[] = readOutbox();
+
+onStorageChange(OUTBOX_STORAGE_KEY, () => {
+  outbox = readOutbox();
+  outboxListeners.forEach(listener => listener());
+});
+
+// Newest first
+export const getOutbox = (): OutboxEntry[] => outbox;
+
+export const clearOutbox = () => {
+  outbox = [];
+  localStorage.removeItem(OUTBOX_STORAGE_KEY);
+  outboxListeners.forEach(listener => listener());
+};
+
+export const subscribeOutbox = (listener: () => void) => {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+};
+
+const stubNotifier = (channel: NotifierChannel): NotifierAdapter => ({
+  channel,
+  send: async (message, target) => {
+    if (!target.trim()) return { ok: false, message: `No ${channel} recipient configured` };
+
+    // Re-read so entries other tabs recorded meanwhile stay in the outbox
+    outbox = [{ channel, target, text: message.text, sentAt: new Date().toISOString() }, ...readOutbox()].slice(
+      0,
+      MAX_OUTBOX_ENTRIES
+    );
+    try {
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+    } catch (error) {
+      console.warn('Could not persist notifier outbox:', error);
+    }
+    outboxListeners.forEach(listener => listener());
+    console.info(`[${channel} stub] to ${target}: ${message.text}`);
+    return { ok: true, message: 'Recorded in the local outbox (stub)' };
+  },
+});
+
+const webhookNotifier: NotifierAdapter = {
+  channel: 'webhook',
+  send: async (message, target) => {
+    if (!/^https?:\/\//.test(target.trim())) return { ok: false, message: 'Webhook URL must start with http(s)://' };
+
+    try {
+      await requestJson(target.trim(), { method: 'POST', body: message, timeoutMs: WEBHOOK_TIMEOUT_MS });
+      return { ok: true, message: 'Delivered' };
+    } catch (error) {
+      // Receivers often answer 2xx with plain text; the message still arrived
+      if (error instanceof ParseError) return { ok: true, message: 'Delivered' };
+      return { ok: false, message: describeRequestError(error) };
+    }
+  },
+};
+
+const adapters: Record<NotifierChannel, NotifierAdapter> = {
+  webhook: webhookNotifier,
+  email: stubNotifier('email'),
+  sms: stubNotifier('sms'),
+};
+
+export const registerNotifier = (adapter: NotifierAdapter) => {
+  adapters[adapter.channel] = adapter;
+};
+
+// Adapters report failures in their result; anything they throw is folded into one too
+export const sendNotification = async (
+  channel: NotifierChannel,
+  message: EscalationMessage,
+  target: string
+): Promise<NotifierResult> => {
+  try {
+    return await adapters[channel].send(message, target);
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : String(error) };
+  }
+};
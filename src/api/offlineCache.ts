@@ -0,0 +1,99 @@
+// src/api/offlineCache.ts
+// Last known good data kept in IndexedDB so the dashboard can start and keep working
+// from a forest post without connectivity.
+import { SensorData } from '@/types/sensor';
+
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  savedAt: string;
+}
+
+// public/sw.js opens the same database; keep the version and schema in step
+const DB_NAME = 'vanrakshak-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+export const HISTORY_KEY_PREFIX = 'history:';
+
+export const CACHE_KEYS = {
+  fleet: 'fleet',
+  sessions: 'sessions',
+  // Read by public/sw.js, which cannot see localStorage
+  serviceWorkerConfig: 'serviceWorkerConfig',
+  // ~1 km grid so nearby sensors share a cached forecast
+  weather: (lat: number, lon: number) => `weather:${lat.toFixed(2)},${lon.toFixed(2)}`,
+  // Readings this browser recorded for one device; see src/api/history.ts
+  history: (deviceId: string) => `${HISTORY_KEY_PREFIX}${deviceId}`,
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Cache misses and storage failures (private mode, quota) both resolve to undefined
+export const readCache = async <T>(key: string): Promise<CacheEntry<T> | undefined> => {
+  try {
+    return await runRequest<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+  } catch (error) {
+    console.warn(`Could not read offline cache entry ${key}:`, error);
+    return undefined;
+  }
+};
+
+export const writeCache = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    const entry: CacheEntry<T> = { key, value, savedAt: new Date().toISOString() };
+    await runRequest('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn(`Could not write offline cache entry ${key}:`, error);
+  }
+};
+
+// Every entry whose key starts with prefix
+export const readCacheEntries = async <T>(prefix: string): Promise<CacheEntry<T>[]> => {
+  try {
+    return await runRequest<CacheEntry<T>[]>('readonly', store =>
+      store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+    );
+  } catch (error) {
+    console.warn(`Could not read offline cache entries ${prefix}*:`, error);
+    return [];
+  }
+};
+
+export const deleteCache = async (key: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(key));
+  } catch (error) {
+    console.warn(`Could not delete offline cache entry ${key}:`, error);
+  }
+};
+
+export const saveFleetSnapshot = (sensors: SensorData[]) => writeCache(CACHE_KEYS.fleet, sensors);
+
+export const loadFleetSnapshot = () => readCache<SensorData[]>(CACHE_KEYS.fleet);
@@ -0,0 +1,67 @@
+// src/api/provisioning.test.ts
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+const stored = new Map<string, string>();
+const posted: Record<string, unknown>[] = [];
+
+const record = (deviceId: string, overrides: Record<string, unknown> = {}) => ({
+  _id: `id-${deviceId}`,
+  deviceId,
+  latitude: 30.07,
+  longitude: 79.02,
+  humidity: 40,
+  temp: 25,
+  smoke: 5,
+  isfire: false,
+  lastUpdate: '2026-10-01T10:00:00.000Z',
+  ...overrides,
+});
+
+// One good record, and one the lenient schema still rejects
+const BACKEND_DEVICES = [record('DEV-1'), record('DEV-2', { latitude: 'north ridge' })];
+
+const respond = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+let provisioningApi: typeof import('./provisioning');
+let statusRulesApi: typeof import('./statusRules');
+
+beforeAll(async () => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: () => undefined, removeEventListener: () => undefined });
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    if (url.endsWith('/createAlert')) {
+      posted.push(JSON.parse(String(init.body)));
+      return respond({ success: true });
+    }
+    return respond({ success: true, devices: BACKEND_DEVICES });
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  provisioningApi = await import('./provisioning');
+  statusRulesApi = await import('./statusRules');
+});
+
+describe('isDeviceRegistered', () => {
+  it('counts records that fail validation', async () => {
+    expect(await provisioningApi.isDeviceRegistered('DEV-1')).toBe(true);
+    expect(await provisioningApi.isDeviceRegistered('DEV-2')).toBe(true);
+    expect(await provisioningApi.isDeviceRegistered('DEV-3')).toBe(false);
+  });
+});
+
+describe('registerDevices', () => {
+  it('skips devices the backend already holds and posts readings the rules treat as normal', async () => {
+    const devices = ['DEV-2', 'DEV-3'].map(deviceId => ({ deviceId, latitude: 30.1, longitude: 79.1 }));
+    const result = await provisioningApi.registerDevices(devices);
+
+    expect(result.failed).toEqual([{ deviceId: 'DEV-2', message: 'Already registered' }]);
+    expect(result.registered).toEqual(['DEV-3']);
+    expect(posted).toHaveLength(1);
+    const reading = { ...(posted[0] as { temp: number; humidity: number; smoke: number }), timestamp: new Date().toISOString() };
+    expect(statusRulesApi.evaluateStatus(reading, { history: [] }).level).toBe('normal');
+  });
+});
@@ -0,0 +1,180 @@
+// src/api/provisioning.ts
+// Registering, relocating and decommissioning devices. The backend only knows devices by their
+// latest record, so registering or moving one means posting a record for it through createAlert;
+// decommissioning lives in the sensor registry because the backend has no way to retire a device.
+import { z } from 'zod';
+import { createFireAlert, DevicePayload, getRecordedDeviceIds } from './fireAlerts';
+import { describeRequestError } from './httpClient';
+import { importRegistryEntries, setDecommissioned } from './registry';
+import { parseCsvRecords } from '@/lib/csv';
+import { SensorData } from '@/types/sensor';
+
+const blankToUndefined = (value: unknown) =>
+  value === null || (typeof value === 'string' && value.trim() === '') ? undefined : value;
+
+// Form inputs and CSV cells are strings; a blank one must fail as required, not coerce to 0
+const coordinate = (min: number, max: number, label: string) =>
+  z.preprocess(
+    value => (typeof value === 'string' ? (value.trim() === '' ? undefined : Number(value)) : value),
+    z
+      .number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+      .min(min, `${label} must be between ${min} and ${max}`)
+      .max(max, `${label} must be between ${min} and ${max}`)
+  );
+
+const coordinates = {
+  latitude: coordinate(-90, 90, 'Latitude'),
+  longitude: coordinate(-180, 180, 'Longitude'),
+};
+
+// Same rule the telemetry validation applies: 0,0 means no GPS fix, not a deployment site
+const hasFix = (location: { latitude: number; longitude: number }) =>
+  !(location.latitude === 0 && location.longitude === 0);
+
+const noFix = { message: 'Coordinates are 0,0; pick the actual site', path: ['latitude'] };
+
+export const relocationSchema = z
+  .object({
+    deviceId: z.string().min(1, 'Choose a sensor'),
+    ...coordinates,
+  })
+  .refine(hasFix, noFix);
+
+export const deviceRegistrationSchema = z
+  .object({
+    deviceId: z
+      .string()
+      .trim()
+      .min(1, 'Device ID is required')
+      .regex(/^[\w.-]+$/, 'Use letters, digits, dots, dashes and underscores only'),
+    ...coordinates,
+    name: z.preprocess(blankToUndefined, z.string().trim().optional()),
+    zone: z.preprocess(blankToUndefined, z.string().trim().optional()),
+  })
+  .refine(hasFix, noFix);
+
+export const decommissionSchema = z.object({
+  deviceId: z.string().min(1, 'Choose a sensor'),
+  confirmed: z.literal(true, { errorMap: () => ({ message: 'Confirm the sensor has been taken out of service' }) }),
+});
+
+export type DeviceLocation = Pick<z.infer<typeof relocationSchema>, 'latitude' | 'longitude'>;
+export type DeviceRegistration = z.infer<typeof deviceRegistrationSchema>;
+
+// The fleet list may be stale or the offline snapshot, and drops records that fail validation, so
+// ask the backend for every record before posting over one
+export const isDeviceRegistered = async (deviceId: string) => (await getRecordedDeviceIds()).has(deviceId);
+
+// Mild readings the default status rules treat as normal, so a new sensor doesn't show as on watch
+// or paint the heatmap before it has reported
+const PLACEHOLDER_READINGS = { temp: 20, humidity: 60, smoke: 0 };
+
+// A device registered ahead of its first report starts with neutral readings
+export const registerDevice = async (device: DeviceRegistration) => {
+  const payload: DevicePayload = {
+    deviceId: device.deviceId,
+    latitude: device.latitude,
+    longitude: device.longitude,
+    ...PLACEHOLDER_READINGS,
+    isfire: false,
+    lastUpdate: new Date().toISOString(),
+    zone: device.zone,
+  };
+  await createFireAlert(payload);
+  if (device.name) {
+    importRegistryEntries([{ deviceId: device.deviceId, name: device.name, updatedAt: payload.lastUpdate }]);
+  }
+};
+
+// Re-posts the latest reading at the new site, so relocating doesn't wipe what the device reported
+export const relocateDevice = (sensor: SensorData, location: DeviceLocation) =>
+  createFireAlert({
+    deviceId: sensor.deviceId,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    humidity: sensor.humidity,
+    temp: sensor.temp,
+    smoke: sensor.smoke,
+    isfire: sensor.isFire,
+    lastUpdate: sensor.timestamp,
+    zone: sensor.zone,
+  });
+
+export const decommissionDevice = (deviceId: string) => setDecommissioned(deviceId, true);
+
+export const recommissionDevice = (deviceId: string) => setDecommissioned(deviceId, false);
+
+export interface BulkRegistrationRow {
+  // 1-based line in the CSV, header included
+  row: number;
+  device?: DeviceRegistration;
+  error?: string;
+}
+
+const BULK_COLUMNS: Record<string, keyof DeviceRegistration> = {
+  deviceid: 'deviceId',
+  'device id': 'deviceId',
+  latitude: 'latitude',
+  lat: 'latitude',
+  longitude: 'longitude',
+  lng: 'longitude',
+  lon: 'longitude',
+  name: 'name',
+  zone: 'zone',
+};
+
+export const BULK_REGISTRATION_HEADER = 'deviceId,latitude,longitude,name,zone';
+
+// Every row comes back, valid or not, so the preview can show what will be skipped and why
+export const parseBulkRegistrationCsv = (text: string): BulkRegistrationRow[] => {
+  const { columns, records } = parseCsvRecords(text, header => BULK_COLUMNS[header.trim().toLowerCase()]);
+  if (columns.length === 0) throw new Error('File is empty');
+  const missing = (['deviceId', 'latitude', 'longitude'] as const).filter(column => !columns.includes(column));
+  if (missing.length > 0) throw new Error(`CSV is missing the ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}`);
+
+  const seen = new Set<string>();
+  return records.map((record, index) => {
+    const row = index + 2;
+    const result = deviceRegistrationSchema.safeParse(record);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      return { row, error: `${issue.path.join('.') || 'row'}: ${issue.message}` };
+    }
+    if (seen.has(result.data.deviceId)) return { row, error: `Duplicate deviceId ${result.data.deviceId}` };
+    seen.add(result.data.deviceId);
+    return { row, device: result.data };
+  });
+};
+
+export interface BulkRegistrationResult {
+  registered: string[];
+  failed: { deviceId: string; message: string }[];
+}
+
+// One at a time, so a flaky connection fails single devices rather than the whole batch
+export const registerDevices = async (
+  devices: DeviceRegistration[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkRegistrationResult> => {
+  const result: BulkRegistrationResult = { registered: [], failed: [] };
+  let recorded: Set<string>;
+  try {
+    recorded = await getRecordedDeviceIds();
+  } catch (error) {
+    const message = describeRequestError(error);
+    return { registered: [], failed: devices.map(device => ({ deviceId: device.deviceId, message })) };
+  }
+
+  for (const device of devices) {
+    try {
+      if (recorded.has(device.deviceId)) throw new Error('Already registered');
+      await registerDevice(device);
+      recorded.add(device.deviceId);
+      result.registered.push(device.deviceId);
+    } catch (error) {
+      result.failed.push({ deviceId: device.deviceId, message: describeRequestError(error) });
+    }
+    onProgress?.(result.registered.length + result.failed.length, devices.length);
+  }
+  return result;
+};
@@ -0,0 +1,42 @@
+// src/api/rasters.test.ts
+import { describe, expect, it } from 'vitest';
+import { parseAsciiGrid, steepestSlope } from './rasters';
+
+const ASCII_GRID = `ncols 3
+nrows 2
+xllcorner 76.5
+yllcorner 11.25
+cellsize 0.25
+NODATA_value -9999
+1 2 3
+4 -9999 6.5
+`;
+
+describe('parseAsciiGrid', () => {
+  it('reads the header and values', async () => {
+    const grid = await parseAsciiGrid([ASCII_GRID]);
+    expect(grid).toMatchObject({ cols: 3, rows: 2, west: 76.5, north: 11.75, cellWidth: 0.25, noData: -9999 });
+    expect(Array.from(grid.values)).toEqual([1, 2, 3, 4, -9999, 6.5]);
+  });
+
+  it('joins tokens cut between chunks', async () => {
+    const chunks = ASCII_GRID.match(/[\s\S]{1,4}/g);
+    const grid = await parseAsciiGrid(chunks);
+    expect(grid.north).toBe(11.75);
+    expect(Array.from(grid.values)).toEqual([1, 2, 3, 4, -9999, 6.5]);
+  });
+
+  it('rejects a grid with missing values or no header', async () => {
+    await expect(parseAsciiGrid([ASCII_GRID.replace(' 6.5', '')])).rejects.toThrow('ASCII grid has 5 values, expected 6');
+    await expect(parseAsciiGrid(['1 2 3'])).rejects.toThrow('Not an ASCII grid');
+  });
+});
+
+describe('steepestSlope', () => {
+  it('finds the steepest step between neighbouring cells, skipping no-data', async () => {
+    const grid = await parseAsciiGrid([ASCII_GRID]);
+    // Cells are 0.25 degrees, about 27.6 km north-south at this latitude
+    expect(steepestSlope(grid, 11.5, 76.9, 100_000)).toBeCloseTo((3.5 / 27635) * 100, 4);
+    expect(steepestSlope(grid, 40, 10, 1000)).toBe(0);
+  });
+});
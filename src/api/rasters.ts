@@ -0,0 +1,359 @@
+// src/api/rasters.ts
+// Loads the fuel and elevation rasters the spread simulation runs over. Supports ESRI ASCII
+// grids and single-band GeoTIFFs, either uncompressed or Deflate-compressed, as exported by QGIS
+// or gdal_translate. Both must be in WGS84 longitude/latitude (EPSG:4326).
+import { METERS_PER_DEGREE_LAT, METERS_PER_DEGREE_LNG } from '@/lib/units';
+import { RasterGrid } from '@/types/fireSpread';
+
+// A 4000 x 4000 grid; larger files should be clipped to the division first
+const MAX_RASTER_CELLS = 16_000_000;
+
+const checkSize = (cols: number, rows: number) => {
+  if (!(cols > 0 && rows > 0)) throw new Error('Raster has no cells');
+  if (cols * rows > MAX_RASTER_CELLS) {
+    throw new Error(`Raster is too large (${cols} x ${rows}); clip it to the area of interest first`);
+  }
+};
+
+const checkGeographic = (grid: Omit<RasterGrid, 'values' | 'noData'>) => {
+  const east = grid.west + grid.cols * grid.cellWidth;
+  const south = grid.north - grid.rows * grid.cellHeight;
+  if (grid.west < -180 || east > 180 || south < -90 || grid.north > 90) {
+    throw new Error('Raster is not in longitude/latitude degrees; reproject it to WGS84 (EPSG:4326)');
+  }
+};
+
+// ESRI ASCII grid
+
+const ASCII_HEADER_KEYS = ['ncols', 'nrows', 'xllcorner', 'xllcenter', 'yllcorner', 'yllcenter', 'cellsize', 'nodata_value'];
+
+// Parses text as it arrives, a chunk at a time, so a large grid never sits in memory as one
+// string plus an array of tokens
+export const parseAsciiGrid = async (chunks: AsyncIterable<string> | Iterable<string>): Promise<RasterGrid> => {
+  const header: Record<string, number> = {};
+  let headerKey: string | null = null;
+  let grid: Omit<RasterGrid, 'values' | 'noData'> | null = null;
+  let values: Float32Array | null = null;
+  let count = 0;
+
+  const startValues = () => {
+    const { ncols: cols, nrows: rows, cellsize: cellSize } = header;
+    if (!cols || !rows || !cellSize) throw new Error('Not an ASCII grid: ncols, nrows and cellsize are required');
+    checkSize(cols, rows);
+
+    // Corner coordinates are the outer edge; centre coordinates are half a cell in
+    const west = header.xllcorner ?? header.xllcenter - cellSize / 2;
+    const south = header.yllcorner ?? header.yllcenter - cellSize / 2;
+    grid = { cols, rows, west, north: south + rows * cellSize, cellWidth: cellSize, cellHeight: cellSize };
+    if (![grid.west, grid.north].every(Number.isFinite)) throw new Error('ASCII grid has no lower-left coordinates');
+    checkGeographic(grid);
+    values = new Float32Array(cols * rows);
+  };
+
+  const take = (token: string) => {
+    if (!values) {
+      if (headerKey) {
+        header[headerKey] = Number(token);
+        headerKey = null;
+        return;
+      }
+      if (ASCII_HEADER_KEYS.includes(token.toLowerCase())) {
+        headerKey = token.toLowerCase();
+        return;
+      }
+      startValues();
+    }
+    if (count < values.length) values[count] = Number(token);
+    count++;
+  };
+
+  // A token may be cut between two chunks, so the last one waits for the next chunk
+  let partial = '';
+  for await (const chunk of chunks) {
+    const tokens = (partial + chunk).split(/\s+/);
+    partial = tokens.pop();
+    tokens.forEach(token => token && take(token));
+  }
+  if (partial) take(partial);
+  if (!values) startValues();
+
+  if (count < values.length) throw new Error(`ASCII grid has ${count} values, expected ${values.length}`);
+  return { ...grid, values, noData: header.nodata_value ?? null };
+};
+
+const readTextChunks = async function* (file: Blob) {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield decoder.decode(value, { stream: true });
+  }
+  yield decoder.decode();
+};
+
+// GeoTIFF
+
+const TAGS = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalNoData: 42113,
+};
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_DEFLATE = [8, 32946];
+const PREDICTOR_HORIZONTAL = 2;
+const GT_MODEL_TYPE_KEY = 1024;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type TiffTags = Map<number, number[] | string>;
+
+const readFieldValue = (view: DataView, type: number, offset: number, little: boolean): number => {
+  switch (type) {
+    case 3: return view.getUint16(offset, little);
+    case 4: return view.getUint32(offset, little);
+    case 5: return view.getUint32(offset, little) / view.getUint32(offset + 4, little);
+    case 6: return view.getInt8(offset);
+    case 8: return view.getInt16(offset, little);
+    case 9: return view.getInt32(offset, little);
+    case 10: return view.getInt32(offset, little) / view.getInt32(offset + 4, little);
+    case 11: return view.getFloat32(offset, little);
+    case 12: return view.getFloat64(offset, little);
+    default: return view.getUint8(offset);
+  }
+};
+
+const readTags = (view: DataView, little: boolean): TiffTags => {
+  const tags: TiffTags = new Map();
+  const ifd = view.getUint32(4, little);
+  const entries = view.getUint16(ifd, little);
+
+  for (let entry = 0; entry < entries; entry++) {
+    const at = ifd + 2 + entry * 12;
+    const tag = view.getUint16(at, little);
+    const type = view.getUint16(at + 2, little);
+    const count = view.getUint32(at + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    // Values that fit in four bytes are stored in the entry itself
+    const start = size * count <= 4 ? at + 8 : view.getUint32(at + 8, little);
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + start, count);
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, ''));
+    } else {
+      tags.set(tag, Array.from({ length: count }, (_, index) => readFieldValue(view, type, start + index * size, little)));
+    }
+  }
+  return tags;
+};
+
+const numberTag = (tags: TiffTags, tag: number): number[] | undefined => {
+  const value = tags.get(tag);
+  return Array.isArray(value) ? value : undefined;
+};
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const sampleReader = (bits: number, format: number) => {
+  if (format === 3 && bits === 32) return (view: DataView, at: number, little: boolean) => view.getFloat32(at, little);
+  if (format === 3 && bits === 64) return (view: DataView, at: number, little: boolean) => view.getFloat64(at, little);
+  const signed = format === 2;
+  if (bits === 8) return signed ? (view: DataView, at: number) => view.getInt8(at) : (view: DataView, at: number) => view.getUint8(at);
+  if (bits === 16) {
+    return signed
+      ? (view: DataView, at: number, little: boolean) => view.getInt16(at, little)
+      : (view: DataView, at: number, little: boolean) => view.getUint16(at, little);
+  }
+  if (bits === 32) {
+    return signed
+      ? (view: DataView, at: number, little: boolean) => view.getInt32(at, little)
+      : (view: DataView, at: number, little: boolean) => view.getUint32(at, little);
+  }
+  throw new Error(`Unsupported GeoTIFF sample type (${bits}-bit, format ${format})`);
+};
+
+// Undo horizontal differencing, wrapping the way the integer type would
+const undoPredictor = (samples: Float64Array, width: number, bits: number, signed: boolean) => {
+  const range = 2 ** bits;
+  for (let row = 0; row < samples.length / width; row++) {
+    for (let col = 1; col < width; col++) {
+      const at = row * width + col;
+      let value = (samples[at] + samples[at - 1]) % range;
+      if (value < 0) value += range;
+      if (signed && value >= range / 2) value -= range;
+      samples[at] = value;
+    }
+  }
+};
+
+export const parseGeoTiff = async (buffer: ArrayBuffer): Promise<RasterGrid> => {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Not a TIFF file');
+  const little = order === 0x4949;
+  const magic = view.getUint16(2, little);
+  if (magic === 43) throw new Error('BigTIFF is not supported; export a regular GeoTIFF');
+  if (magic !== 42) throw new Error('Not a TIFF file');
+
+  const tags = readTags(view, little);
+  const [cols] = numberTag(tags, TAGS.width) ?? [];
+  const [rows] = numberTag(tags, TAGS.height) ?? [];
+  checkSize(cols, rows);
+  if ((numberTag(tags, TAGS.samplesPerPixel)?.[0] ?? 1) !== 1) throw new Error('Only single-band GeoTIFFs are supported');
+
+  const [bits] = numberTag(tags, TAGS.bitsPerSample) ?? [8];
+  const [format] = numberTag(tags, TAGS.sampleFormat) ?? [1];
+  const [compression] = numberTag(tags, TAGS.compression) ?? [COMPRESSION_NONE];
+  const [predictor] = numberTag(tags, TAGS.predictor) ?? [1];
+  if (compression !== COMPRESSION_NONE && !COMPRESSION_DEFLATE.includes(compression)) {
+    throw new Error('Only uncompressed or Deflate GeoTIFFs are supported; re-export with COMPRESS=DEFLATE');
+  }
+  if (predictor !== 1 && !(predictor === PREDICTOR_HORIZONTAL && format !== 3)) {
+    throw new Error('Unsupported GeoTIFF predictor; re-export without PREDICTOR=3');
+  }
+
+  const [modelType] = numberTag(tags, TAGS.geoKeyDirectory)?.slice(4).flatMap((value, index, keys) =>
+    index % 4 === 0 && value === GT_MODEL_TYPE_KEY ? [keys[index + 3]] : []
+  ) ?? [];
+  if (modelType !== undefined && modelType !== MODEL_TYPE_GEOGRAPHIC) {
+    throw new Error('GeoTIFF is projected; reproject it to WGS84 (EPSG:4326)');
+  }
+  const scale = numberTag(tags, TAGS.modelPixelScale);
+  const tiepoint = numberTag(tags, TAGS.modelTiepoint);
+  if (!scale || !tiepoint) throw new Error('TIFF has no georeferencing (ModelPixelScale and ModelTiepoint)');
+  // The tiepoint ties raster pixel (i, j) to model coordinates (x, y)
+  const grid = {
+    cols,
+    rows,
+    west: tiepoint[3] - tiepoint[0] * scale[0],
+    north: tiepoint[4] + tiepoint[1] * scale[1],
+    cellWidth: scale[0],
+    cellHeight: scale[1],
+  };
+  checkGeographic(grid);
+
+  // Strips are tiles as wide as the image
+  const tiled = tags.has(TAGS.tileOffsets);
+  const chunkWidth = tiled ? numberTag(tags, TAGS.tileWidth)[0] : cols;
+  const chunkHeight = tiled ? numberTag(tags, TAGS.tileLength)[0] : (numberTag(tags, TAGS.rowsPerStrip)?.[0] ?? rows);
+  const offsets = numberTag(tags, tiled ? TAGS.tileOffsets : TAGS.stripOffsets) ?? [];
+  const byteCounts = numberTag(tags, tiled ? TAGS.tileByteCounts : TAGS.stripByteCounts) ?? [];
+  const chunksAcross = Math.ceil(cols / chunkWidth);
+  const read = sampleReader(bits, format);
+  const bytesPerSample = bits / 8;
+  const values = new Float32Array(cols * rows);
+
+  for (let chunk = 0; chunk < offsets.length; chunk++) {
+    const raw = new Uint8Array(buffer, offsets[chunk], byteCounts[chunk]);
+    const bytes = compression === COMPRESSION_NONE ? raw : await inflate(raw);
+    const chunkView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const sampleCount = Math.min(chunkWidth * chunkHeight, Math.floor(bytes.byteLength / bytesPerSample));
+    const samples = new Float64Array(sampleCount);
+    for (let index = 0; index < sampleCount; index++) samples[index] = read(chunkView, index * bytesPerSample, little);
+    if (predictor === PREDICTOR_HORIZONTAL) undoPredictor(samples, chunkWidth, bits, format === 2);
+
+    const left = (chunk % chunksAcross) * chunkWidth;
+    const top = Math.floor(chunk / chunksAcross) * chunkHeight;
+    for (let row = 0; row < chunkHeight && top + row < rows; row++) {
+      for (let col = 0; col < chunkWidth && left + col < cols; col++) {
+        const index = row * chunkWidth + col;
+        if (index < sampleCount) values[(top + row) * cols + left + col] = samples[index];
+      }
+    }
+  }
+
+  const noDataTag = tags.get(TAGS.gdalNoData);
+  const noData = typeof noDataTag === 'string' && noDataTag.trim() !== '' ? Number(noDataTag) : null;
+  return { ...grid, values, noData: Number.isFinite(noData) ? noData : null };
+};
+
+export const loadRasterFile = async (file: File): Promise<RasterGrid> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.tif') || name.endsWith('.tiff')) return parseGeoTiff(await file.arrayBuffer());
+  return parseAsciiGrid(readTextChunks(file));
+};
+
+// Value of the cell containing the point; undefined outside the raster or on no-data cells
+export const sampleRaster = (grid: RasterGrid, latitude: number, longitude: number): number | undefined => {
+  const col = Math.floor((longitude - grid.west) / grid.cellWidth);
+  const row = Math.floor((grid.north - latitude) / grid.cellHeight);
+  if (col < 0 || row < 0 || col >= grid.cols || row >= grid.rows) return undefined;
+  const value = grid.values[row * grid.cols + col];
+  return Number.isNaN(value) || value === grid.noData ? undefined : value;
+};
+
+// Blends the four nearest cell centres, so a coarse DEM still gives smooth slopes
+export const sampleRasterSmooth = (grid: RasterGrid, latitude: number, longitude: number): number | undefined => {
+  const x = (longitude - grid.west) / grid.cellWidth - 0.5;
+  const y = (grid.north - latitude) / grid.cellHeight - 0.5;
+  const col = Math.floor(x);
+  const row = Math.floor(y);
+  const corners: [number, number, number][] = [
+    [col, row, (1 - (x - col)) * (1 - (y - row))],
+    [col + 1, row, (x - col) * (1 - (y - row))],
+    [col, row + 1, (1 - (x - col)) * (y - row)],
+    [col + 1, row + 1, (x - col) * (y - row)],
+  ];
+
+  let total = 0;
+  let weights = 0;
+  corners.forEach(([c, r, weight]) => {
+    const clampedCol = Math.min(grid.cols - 1, Math.max(0, c));
+    const clampedRow = Math.min(grid.rows - 1, Math.max(0, r));
+    const value = grid.values[clampedRow * grid.cols + clampedCol];
+    if (Number.isNaN(value) || value === grid.noData || weight === 0) return;
+    total += value * weight;
+    weights += weight;
+  });
+  if (x < -0.5 || y < -0.5 || x > grid.cols - 0.5 || y > grid.rows - 0.5 || weights === 0) return undefined;
+  return total / weights;
+};
+
+// Steepest rise between neighbouring cells within radiusM of the point, percent
+export const steepestSlope = (grid: RasterGrid, latitude: number, longitude: number, radiusM: number): number => {
+  const cellWidthM = grid.cellWidth * METERS_PER_DEGREE_LNG * Math.cos((latitude * Math.PI) / 180);
+  const cellHeightM = grid.cellHeight * METERS_PER_DEGREE_LAT;
+  const centreCol = (longitude - grid.west) / grid.cellWidth;
+  const centreRow = (grid.north - latitude) / grid.cellHeight;
+  const fromCol = Math.max(0, Math.floor(centreCol - radiusM / cellWidthM));
+  const toCol = Math.min(grid.cols - 1, Math.ceil(centreCol + radiusM / cellWidthM));
+  const fromRow = Math.max(0, Math.floor(centreRow - radiusM / cellHeightM));
+  const toRow = Math.min(grid.rows - 1, Math.ceil(centreRow + radiusM / cellHeightM));
+  const valueAt = (row: number, col: number) => {
+    const value = grid.values[row * grid.cols + col];
+    return value === grid.noData ? NaN : value;
+  };
+
+  let steepest = 0;
+  for (let row = fromRow; row <= toRow; row++) {
+    for (let col = fromCol; col <= toCol; col++) {
+      const value = valueAt(row, col);
+      // NaN on either side fails the comparison, so gaps in the DEM are skipped
+      if (col < toCol) steepest = Math.max(steepest, Math.abs(valueAt(row, col + 1) - value) / cellWidthM || 0);
+      if (row < toRow) steepest = Math.max(steepest, Math.abs(valueAt(row + 1, col) - value) / cellHeightM || 0);
+    }
+  }
+  return steepest * 100;
+};
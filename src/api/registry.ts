@@ -0,0 +1,206 @@
+// src/api/registry.ts
+// The sensor registry: names, placement and hardware details for each deviceId, kept per
+// browser and joined onto telemetry so every screen shows the same names. Entries move in and
+// out of the dashboard as JSON or CSV.
+import { z } from 'zod';
+import { RegistryImportIssue, RegistryImportResult, SensorRegistry, SensorRegistryEntry } from '@/types/registry';
+import { SensorData } from '@/types/sensor';
+import { escapeCsvValue, parseCsvRecords } from '@/lib/csv';
+import { onStorageChange } from '@/lib/storageSync';
+
+const REGISTRY_STORAGE_KEY = 'sensorRegistry';
+
+type RegistryField = Exclude<keyof SensorRegistryEntry, 'updatedAt' | 'decommissionedAt'>;
+
+// Column order of CSV exports; headers are the field names so exports import back unchanged
+export const REGISTRY_FIELDS: { key: RegistryField; label: string }[] = [
+  { key: 'deviceId', label: 'Device ID' },
+  { key: 'name', label: 'Name' },
+  { key: 'range', label: 'Range' },
+  { key: 'beat', label: 'Beat' },
+  { key: 'installDate', label: 'Install date' },
+  { key: 'mountingHeightM', label: 'Mounting height (m)' },
+  { key: 'hardwareModel', label: 'Hardware model' },
+  { key: 'firmwareVersion', label: 'Firmware version' },
+  { key: 'batteryType', label: 'Battery type' },
+  { key: 'custodian', label: 'Custodian' },
+  { key: 'photoUrl', label: 'Photo URL' },
+];
+
+const blankToUndefined = (value: unknown) =>
+  value === null || (typeof value === 'string' && value.trim() === '') ? undefined : value;
+
+const optionalText = z.preprocess(blankToUndefined, z.string().trim().optional());
+
+export const registryEntrySchema = z.object({
+  deviceId: z.preprocess(value => (typeof value === 'number' ? String(value) : value), z.string().trim().min(1)),
+  name: optionalText,
+  range: optionalText,
+  beat: optionalText,
+  installDate: z.preprocess(
+    blankToUndefined,
+    z
+      .string()
+      .trim()
+      .refine(value => !isNaN(Date.parse(value)), 'Invalid date')
+      .transform(value => new Date(value).toISOString().slice(0, 10))
+      .optional()
+  ),
+  mountingHeightM: z.preprocess(
+    value => {
+      const blank = blankToUndefined(value);
+      return typeof blank === 'string' ? Number(blank) : blank;
+    },
+    z.number().min(0).max(100).optional()
+  ),
+  hardwareModel: optionalText,
+  firmwareVersion: optionalText,
+  batteryType: optionalText,
+  custodian: optionalText,
+  photoUrl: optionalText,
+});
+
+const listeners = new Set<() => void>();
+
+const readRegistry = (): SensorRegistry => {
+  try {
+    return JSON.parse(localStorage.getItem(REGISTRY_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+let registry = readRegistry();
+
+// Changes apply to what is in storage now, so edits another tab made meanwhile are kept
+const commit = (change: (current: SensorRegistry) => SensorRegistry) => {
+  registry = change(readRegistry());
+  localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+  listeners.forEach(listener => listener());
+};
+
+onStorageChange(REGISTRY_STORAGE_KEY, () => {
+  registry = readRegistry();
+  listeners.forEach(listener => listener());
+});
+
+export const getRegistry = (): SensorRegistry => registry;
+
+export const getRegistryEntry = (deviceId: string, source: SensorRegistry = registry): SensorRegistryEntry | undefined =>
+  source[deviceId];
+
+// Fields left out of the entry are cleared, so the form can remove a value; decommissioning is kept
+export const saveRegistryEntry = (entry: Omit<SensorRegistryEntry, 'updatedAt' | 'decommissionedAt'>) =>
+  commit(current => ({
+    ...current,
+    [entry.deviceId]: {
+      ...entry,
+      decommissionedAt: current[entry.deviceId]?.decommissionedAt,
+      updatedAt: new Date().toISOString(),
+    },
+  }));
+
+export const setDecommissioned = (deviceId: string, decommissioned: boolean) => {
+  const now = new Date().toISOString();
+  commit(current => ({
+    ...current,
+    [deviceId]: { ...current[deviceId], deviceId, decommissionedAt: decommissioned ? now : undefined, updatedAt: now },
+  }));
+};
+
+export const isDecommissioned = (deviceId: string, source: SensorRegistry = registry) =>
+  Boolean(source[deviceId]?.decommissionedAt);
+
+export const removeRegistryEntry = (deviceId: string) =>
+  commit(current => {
+    const next = { ...current };
+    delete next[deviceId];
+    return next;
+  });
+
+// Imported entries replace existing ones field by field; fields they leave blank are kept
+export const importRegistryEntries = (entries: SensorRegistryEntry[]) =>
+  commit(current => {
+    const next = { ...current };
+    entries.forEach(entry => {
+      const defined = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+      next[entry.deviceId] = { ...next[entry.deviceId], ...defined } as SensorRegistryEntry;
+    });
+    return next;
+  });
+
+export const subscribeRegistry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const joinRegistryEntry = (sensor: SensorData, source: SensorRegistry = registry): SensorData => {
+  const entry = source[sensor.deviceId];
+  if (!entry) return sensor;
+  return { ...sensor, name: entry.name || sensor.name, registry: entry };
+};
+
+// Decommissioned sensors are left out: they still report until someone takes them down, but
+// shouldn't alarm or count toward the fleet
+export const joinRegistry = (sensors: SensorData[], source: SensorRegistry = registry): SensorData[] =>
+  sensors.filter(sensor => !isDecommissioned(sensor.deviceId, source)).map(sensor => joinRegistryEntry(sensor, source));
+
+// "Range / Beat" or whichever of the two is known
+export const describePlacement = (entry?: Pick<SensorRegistryEntry, 'range' | 'beat'>) =>
+  [entry?.range, entry?.beat].filter(Boolean).join(' / ');
+
+const validateEntries = (rows: unknown[], rowOffset: number): RegistryImportResult => {
+  const entries: SensorRegistryEntry[] = [];
+  const issues: RegistryImportIssue[] = [];
+  const updatedAt = new Date().toISOString();
+
+  rows.forEach((raw, index) => {
+    const result = registryEntrySchema.safeParse(raw);
+    if (result.success) {
+      entries.push({ ...(result.data as Omit<SensorRegistryEntry, 'updatedAt'>), updatedAt });
+    } else {
+      const issue = result.error.issues[0];
+      issues.push({ row: index + rowOffset, message: `${issue.path.join('.') || 'record'}: ${issue.message}` });
+    }
+  });
+
+  return { entries, issues };
+};
+
+// Accepts an array of entries or { sensors: [...] }
+export const parseRegistryJson = (text: string): RegistryImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { sensors?: unknown })?.sensors;
+  if (!Array.isArray(rows)) throw new Error('Expected an array of sensors');
+  return validateEntries(rows, 1);
+};
+
+export const registryToCsv = (entries: SensorRegistryEntry[]) =>
+  [
+    REGISTRY_FIELDS.map(field => field.key).join(','),
+    ...entries.map(entry => REGISTRY_FIELDS.map(field => escapeCsvValue(entry[field.key])).join(',')),
+  ].join('\n');
+
+// The header row may use field names or the labels shown in the dashboard, in any order
+export const parseRegistryCsv = (text: string): RegistryImportResult => {
+  const normalize = (value: string) => value.trim().toLowerCase();
+  const { columns, records } = parseCsvRecords(text, header =>
+    REGISTRY_FIELDS.find(field => normalize(field.key) === normalize(header) || normalize(field.label) === normalize(header))
+      ?.key
+  );
+  if (columns.length === 0) throw new Error('File is empty');
+  if (!columns.includes('deviceId')) throw new Error('CSV has no deviceId column');
+
+  // Row 1 is the header
+  return validateEntries(records, 2);
+};
+
+export const registryToJson = (entries: SensorRegistryEntry[]) => JSON.stringify(entries, null, 2);
@@ -0,0 +1,134 @@
+// src/api/sensors.ts
+import { getFireAlerts, getFireAlertByDeviceId, AlertData } from './fireAlerts';
+import { recordReadings } from './history';
+import { isRetryableError } from './httpClient';
+import { loadFleetSnapshot, saveFleetSnapshot } from './offlineCache';
+import { markOffline, markOnline } from './connectivity';
+import { isAtLeast } from './statusRules';
+import { evaluateSensor } from './zones';
+import { getHeartbeat, isReporting } from './heartbeat';
+import { SensorData, SensorStats } from '@/types/sensor';
+
+// Root React Query key shared by every page that reads sensor telemetry
+export const SENSORS_QUERY_KEY = ['sensors'] as const;
+
+export const sensorQueryKeys = {
+  all: SENSORS_QUERY_KEY,
+  device: (deviceId: string) => [...SENSORS_QUERY_KEY, 'device', deviceId] as const,
+  quality: [...SENSORS_QUERY_KEY, 'quality'] as const,
+  history: (deviceId: string, from: string, to: string, resolution: string) =>
+    [...SENSORS_QUERY_KEY, 'history', deviceId, from, to, resolution] as const,
+  fleetHistory: (deviceIds: string, from: string, to: string) =>
+    [...SENSORS_QUERY_KEY, 'fleetHistory', deviceIds, from, to] as const,
+};
+
+// Shape of a device as it may arrive from the backend, before or after getFireAlerts mapping
+export type RawDevice = Partial<AlertData> & {
+  _id?: string;
+  isfire?: boolean;
+  lastUpdate?: string;
+  temperature?: number;
+  name?: string;
+};
+
+// Coarse status used by fleet counts; the level from evaluateSensor carries the detail.
+// Devices that have gone quiet are inactive whatever their last reading said.
+export const getSensorStatus = (
+  reading: Pick<
+    SensorData,
+    'deviceId' | 'latitude' | 'longitude' | 'zone' | 'isFire' | 'temp' | 'humidity' | 'smoke' | 'timestamp'
+  >,
+  now = Date.now()
+): NonNullable<SensorData['status']> => {
+  if (!isReporting(getHeartbeat(reading, now).state)) return 'inactive';
+  return isAtLeast(evaluateSensor(reading).level, 'warning') ? 'warning' : 'active';
+};
+
+// Normalize a single device payload into SensorData
+export const toSensorData = (device: RawDevice): SensorData => {
+  const deviceId =
+    device.deviceId ||
+    device.id ||
+    (device._id ? `DEV-${device._id.slice(-4)}` : 'DEV-unknown');
+
+  const reading = {
+    id: device._id || device.id || deviceId,
+    deviceId,
+    latitude: device.latitude || 0,
+    longitude: device.longitude || 0,
+    humidity: device.humidity || 0,
+    temp: device.temp || device.temperature || 0,
+    smoke: device.smoke || 0,
+    isFire: Boolean(device.isFire ?? device.isfire),
+    timestamp: device.timestamp || device.lastUpdate || new Date().toISOString(),
+    zone: device.zone,
+  };
+
+  return {
+    ...reading,
+    name: device.name || `Sensor ${deviceId}`,
+    status: getSensorStatus(reading),
+  };
+};
+
+export const toSensorDataList = (devices: RawDevice[] | null | undefined): SensorData[] => {
+  if (!devices || !Array.isArray(devices)) return [];
+  return devices.map(toSensorData);
+};
+
+// Serve the last fleet snapshot when the API is unreachable; other errors still surface
+const withOfflineFallback = async <T>(
+  request: () => Promise<T>,
+  fromSnapshot: (sensors: SensorData[]) => T
+): Promise<T> => {
+  try {
+    const result = await request();
+    markOnline();
+    return result;
+  } catch (error) {
+    if (!isRetryableError(error)) throw error;
+
+    const snapshot = await loadFleetSnapshot();
+    if (!snapshot) throw error;
+
+    markOffline(snapshot.savedAt);
+    return fromSnapshot(snapshot.value);
+  }
+};
+
+// ✅ Fetch the whole fleet as SensorData
+export const getSensors = (signal?: AbortSignal): Promise<SensorData[]> =>
+  withOfflineFallback(
+    async () => {
+      const alerts = await getFireAlerts(signal);
+      const sensors = toSensorDataList(alerts);
+      recordReadings(sensors);
+      saveFleetSnapshot(sensors);
+      return sensors;
+    },
+    sensors => sensors
+  );
+
+// ✅ Fetch a single sensor as SensorData
+export const getSensor = (deviceId: string, signal?: AbortSignal): Promise<SensorData | null> =>
+  withOfflineFallback(
+    async () => {
+      const alert = await getFireAlertByDeviceId(deviceId, signal);
+      const sensor = alert ? toSensorData(alert) : null;
+      if (sensor) recordReadings([sensor]);
+      return sensor;
+    },
+    sensors => sensors.find(sensor => sensor.deviceId === deviceId) || null
+  );
+
+// Statuses are worked out again against now: a device that stopped reporting since the last
+// fetch has no new data to mark it inactive
+export const computeSensorStats = (sensors: SensorData[], now = Date.now()): SensorStats => {
+  const statuses = sensors.map(sensor => getSensorStatus(sensor, now));
+  return {
+    totalSensors: sensors.length,
+    activeSensors: statuses.filter(status => status === 'active').length,
+    fireDetected: sensors.filter(s => s.isFire).length,
+    warningStatus: statuses.filter(status => status === 'warning').length,
+  };
+};
@@ -0,0 +1,26 @@
+// src/api/sessions.ts
+// Completed fire alert sessions. IndexedDB is the primary store; localStorage keeps a copy for
+// browsers without IndexedDB and holds sessions saved before the offline cache existed.
+import { CACHE_KEYS, readCache, writeCache } from './offlineCache';
+
+const SESSIONS_STORAGE_KEY = 'fireAlertSessions';
+export const MAX_SAVED_SESSIONS = 10;
+
+export const loadSessions = async <T>(): Promise<T[]> => {
+  const cached = await readCache<T[]>(CACHE_KEYS.sessions);
+  if (cached) return cached.value;
+  return JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || '[]');
+};
+
+export const saveSessions = async <T>(sessions: T[]): Promise<void> => {
+  localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  await writeCache(CACHE_KEYS.sessions, sessions);
+};
+
+// Newest first, keeping only the most recent MAX_SAVED_SESSIONS
+export const appendSession = async <T>(session: T): Promise<T[]> => {
+  const sessions = await loadSessions<T>();
+  const updated = [session, ...sessions.slice(0, MAX_SAVED_SESSIONS - 1)];
+  await saveSessions(updated);
+  return updated;
+};
@@ -0,0 +1,82 @@
+// src/api/spreadSimulation.test.ts
+import { describe, expect, it } from 'vitest';
+import { FUEL_TYPES } from './fireSpread';
+import { buildSimulationGrid, fuelFromCode, pickCellSize, simulateSpread } from './spreadSimulation';
+import { FuelType, RasterGrid } from '@/types/fireSpread';
+
+const fuelOf = (code: number | undefined, fallback: FuelType = 'pineLitter') => {
+  const index = fuelFromCode(code, fallback);
+  return index === 0 ? 'unburnable' : FUEL_TYPES[index - 1];
+};
+
+describe('fuelFromCode', () => {
+  it('maps all thirteen Anderson models', () => {
+    expect([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13].map(code => fuelOf(code))).toEqual([
+      'grass',
+      'grassUnderstory',
+      'grass',
+      'shrub',
+      'shrub',
+      'shrub',
+      'shrub',
+      'broadleafLitter',
+      'pineLitter',
+      'pineLitter',
+      'pineLitter',
+      'pineLitter',
+      'pineLitter',
+    ]);
+  });
+
+  it('maps the Scott and Burgan families', () => {
+    expect([102, 122, 145, 165, 181, 186, 188, 203].map(code => fuelOf(code))).toEqual([
+      'grass',
+      'grassUnderstory',
+      'shrub',
+      'grassUnderstory',
+      'broadleafLitter',
+      'broadleafLitter',
+      'pineLitter',
+      'pineLitter',
+    ]);
+  });
+
+  it('only stops fire on non-burnable codes', () => {
+    expect([91, 93, 98, 99].map(code => fuelOf(code))).toEqual(['unburnable', 'unburnable', 'unburnable', 'unburnable']);
+    expect([0, 14, 150, 250, undefined].map(code => fuelOf(code, 'shrub'))).toEqual([
+      'shrub',
+      'shrub',
+      'shrub',
+      'shrub',
+      'shrub',
+    ]);
+  });
+});
+
+describe('grid sizing', () => {
+  const conditions = { windSpeedMs: 6, windFromDeg: 270, relativeHumidity: 25, temperatureC: 32, durationMin: 60 };
+
+  // 1 km of DEM around the origin, rising eastwards by rise metres per 0.001 degree cell
+  const ramp = (rise: number): RasterGrid => {
+    const size = 20;
+    const values = new Float32Array(size * size).map((_, index) => (index % size) * rise);
+    return { cols: size, rows: size, west: -0.01, north: 0.01, cellWidth: 0.001, cellHeight: 0.001, values, noData: null };
+  };
+
+  it('makes room for a faster run up steep ground', () => {
+    const flat = pickCellSize(conditions, ['shrub']);
+    expect(pickCellSize(conditions, ['shrub'], { latitude: 0, longitude: 0, elevationRaster: ramp(0) })).toBe(flat);
+    expect(pickCellSize(conditions, ['shrub'], { latitude: 0, longitude: 0, elevationRaster: ramp(60) })).toBeGreaterThan(
+      flat
+    );
+  });
+
+  it('flags a fire that reaches the edge of the grid', () => {
+    const lastFrame = (cellM: number) => {
+      const grid = buildSimulationGrid({ latitude: 0, longitude: 0, fallbackFuel: 'shrub', cellM });
+      return [...simulateSpread({ grid, ...conditions, frameMin: 60 })].pop();
+    };
+    expect(lastFrame(pickCellSize(conditions, ['shrub'])).reachedEdge).toBe(false);
+    expect(lastFrame(1).reachedEdge).toBe(true);
+  });
+});
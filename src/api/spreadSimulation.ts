@@ -0,0 +1,332 @@
+// src/api/spreadSimulation.ts
+// Cellular-automaton fire spread over a fuel and terrain grid. Each cell records when fire
+// reaches it; a burning cell passes fire to its eight neighbours after the time the fire takes
+// to cross the gap at that neighbour's rate of spread. The rate comes from the same Rothermel
+// and wind ellipse as the single-point prediction, plus the slope between the two cells, so
+// fire runs up ridges, crawls down them and stops at water and bare ground. Runs in a worker;
+// see src/workers/spreadSimulation.worker.ts.
+import {
+  deadFuelMoisture,
+  FUEL_MODELS,
+  FUEL_TYPES,
+  lengthToBreadth,
+  predictFireSpread,
+  rothermelSpread,
+} from './fireSpread';
+import { sampleRaster, sampleRasterSmooth, steepestSlope } from './rasters';
+import { FT_MIN_PER_M_S, FT_PER_M, METERS_PER_DEGREE_LAT, METERS_PER_DEGREE_LNG, MPH_PER_M_S } from '@/lib/units';
+import {
+  CellState,
+  FuelType,
+  RasterGrid,
+  SimulationFrame,
+  SimulationGrid,
+  SimulationRequest,
+} from '@/types/fireSpread';
+
+export const CELL_STATES: Record<CellState, number> = { unburnable: 0, fuel: 1, burning: 2, burned: 3 };
+
+export const SIMULATION_DURATIONS = [60, 180, 360];
+export const SIMULATION_FRAME_MIN = 5;
+
+// Cells each side of the ignition point
+const HALF_CELLS = 100;
+const MIN_CELL_M = 10;
+// Leave room past the furthest head run the ellipse model expects
+const EXTENT_MARGIN = 1.3;
+const STEP_MIN = 1;
+// How long a cell shows as actively burning before it counts as burned out
+const ACTIVE_MIN = 15;
+
+// Closest modelled fuel for the codes of a LANDFIRE-style fuel raster: Anderson's 13 models
+// (FBFM13, 1-13) and Scott and Burgan's 40 (FBFM40, 101 and up), matched by what carries the fire
+const FUEL_CODE_RANGES: { from: number; to: number; fuel: FuelType }[] = [
+  { from: 1, to: 1, fuel: 'grass' },
+  { from: 2, to: 2, fuel: 'grassUnderstory' },
+  { from: 3, to: 3, fuel: 'grass' },
+  { from: 4, to: 7, fuel: 'shrub' },
+  { from: 8, to: 8, fuel: 'broadleafLitter' },
+  // Timber litter with understory and logging slash burn most like the heaviest litter
+  { from: 9, to: 13, fuel: 'pineLitter' },
+  // GR grass, GS grass-shrub, SH shrub, TU timber understory
+  { from: 101, to: 109, fuel: 'grass' },
+  { from: 121, to: 124, fuel: 'grassUnderstory' },
+  { from: 141, to: 149, fuel: 'shrub' },
+  { from: 161, to: 165, fuel: 'grassUnderstory' },
+  // TL timber litter: compact and broadleaf litter, then long-needle and very high loads
+  { from: 181, to: 187, fuel: 'broadleafLitter' },
+  { from: 188, to: 189, fuel: 'pineLitter' },
+  // SB slash and blowdown
+  { from: 201, to: 204, fuel: 'pineLitter' },
+];
+
+// Urban, snow, agriculture, water and barren in both schemes
+const NON_BURNABLE_CODES = { from: 91, to: 99 };
+
+// Cells outside the fuel raster, without data or with a code neither scheme defines use the
+// fallback fuel; only the non-burnable codes stop the fire
+export const fuelFromCode = (code: number | undefined, fallback: FuelType): number => {
+  const rounded = code === undefined ? undefined : Math.round(code);
+  if (rounded >= NON_BURNABLE_CODES.from && rounded <= NON_BURNABLE_CODES.to) return 0;
+  const match = FUEL_CODE_RANGES.find(range => rounded >= range.from && rounded <= range.to);
+  return FUEL_TYPES.indexOf(match?.fuel ?? fallback) + 1;
+};
+
+interface GridOptions {
+  latitude: number;
+  longitude: number;
+  fallbackFuel: FuelType;
+  fuelRaster?: RasterGrid | null;
+  elevationRaster?: RasterGrid | null;
+  cellM: number;
+}
+
+export const buildSimulationGrid = ({
+  latitude,
+  longitude,
+  fallbackFuel,
+  fuelRaster,
+  elevationRaster,
+  cellM,
+}: GridOptions): SimulationGrid => {
+  const size = HALF_CELLS * 2 + 1;
+  const cellHeightDeg = cellM / METERS_PER_DEGREE_LAT;
+  const cellWidthDeg = cellM / (METERS_PER_DEGREE_LNG * Math.cos((latitude * Math.PI) / 180));
+  const west = longitude - (HALF_CELLS + 0.5) * cellWidthDeg;
+  const north = latitude + (HALF_CELLS + 0.5) * cellHeightDeg;
+  const fuel = new Uint8Array(size * size);
+  const elevation = elevationRaster ? new Float32Array(size * size) : null;
+
+  for (let row = 0; row < size; row++) {
+    const cellLat = north - (row + 0.5) * cellHeightDeg;
+    for (let col = 0; col < size; col++) {
+      const cellLng = west + (col + 0.5) * cellWidthDeg;
+      const index = row * size + col;
+      fuel[index] = fuelFromCode(fuelRaster ? sampleRaster(fuelRaster, cellLat, cellLng) : undefined, fallbackFuel);
+      // Outside the DEM the ground is taken as level with the nearest edge
+      if (elevation) elevation[index] = sampleRasterSmooth(elevationRaster, cellLat, cellLng) ?? NaN;
+    }
+  }
+  if (elevation) fillMissingElevation(elevation);
+
+  const ignition = HALF_CELLS * size + HALF_CELLS;
+  // The sensor is on fire, whatever the raster says about its cell
+  if (fuel[ignition] === 0) fuel[ignition] = FUEL_TYPES.indexOf(fallbackFuel) + 1;
+
+  return { cols: size, rows: size, cellM, west, north, cellWidthDeg, cellHeightDeg, fuel, elevation, ignition };
+};
+
+const fillMissingElevation = (elevation: Float32Array) => {
+  const known = elevation.filter(value => !Number.isNaN(value));
+  const fallback = known.length ? known.reduce((sum, value) => sum + value, 0) / known.length : 0;
+  elevation.forEach((value, index) => {
+    if (Number.isNaN(value)) elevation[index] = fallback;
+  });
+};
+
+// Past this a DEM step is more likely a cliff or an artefact than a slope a fire runs up
+const MAX_SIZING_SLOPE_PERCENT = 100;
+
+const longestHeadRun = (request: Omit<SimulationRequest, 'grid' | 'frameMin'>, fuels: FuelType[], slopePercent: number) =>
+  Math.max(
+    ...fuels.map(fuel => {
+      const { perimeters } = predictFireSpread(
+        {
+          latitude: 0,
+          longitude: 0,
+          fuel,
+          windSpeedMs: request.windSpeedMs,
+          windFromDeg: request.windFromDeg,
+          relativeHumidity: request.relativeHumidity,
+          temperatureC: request.temperatureC,
+          intensity: 1,
+          slopePercent,
+        },
+        [request.durationMin]
+      );
+      return perimeters[0].headM;
+    })
+  );
+
+interface SizingTerrain {
+  latitude: number;
+  longitude: number;
+  elevationRaster: RasterGrid;
+}
+
+// Cell size that fits the longest head run the ellipse model expects over the duration. With
+// terrain the run is taken up the steepest slope the flat-ground grid would cover, as if the
+// wind and the slope lined up.
+export const pickCellSize = (
+  request: Omit<SimulationRequest, 'grid' | 'frameMin'>,
+  fuels: FuelType[],
+  terrain?: SizingTerrain | null
+) => {
+  const cellFor = (slopePercent: number) =>
+    Math.max(MIN_CELL_M, Math.ceil((longestHeadRun(request, fuels, slopePercent) * EXTENT_MARGIN) / HALF_CELLS));
+  const flatCellM = cellFor(0);
+  if (!terrain) return flatCellM;
+
+  const { elevationRaster, latitude, longitude } = terrain;
+  const slopePercent = steepestSlope(elevationRaster, latitude, longitude, flatCellM * HALF_CELLS);
+  return cellFor(Math.min(slopePercent, MAX_SIZING_SLOPE_PERCENT));
+};
+
+// Neighbour offsets with their bearing (degrees from north) and distance in cells
+const NEIGHBOURS = [-1, 0, 1].flatMap(dRow =>
+  [-1, 0, 1].flatMap(dCol =>
+    dRow === 0 && dCol === 0
+      ? []
+      : [{ dRow, dCol, bearing: (Math.atan2(dCol, -dRow) * 180) / Math.PI, distance: Math.hypot(dRow, dCol) }]
+  )
+);
+
+interface FuelSpread {
+  // Head fire rate with the wind on flat ground, m/min
+  head: number;
+  // Rate with no wind or slope, m/min
+  base: number;
+  eccentricity: number;
+  // Multiplies tan² of the upslope angle into the slope factor
+  slopeCoefficient: number;
+}
+
+const fuelSpreadRates = (request: SimulationRequest): FuelSpread[] => {
+  const moisture = deadFuelMoisture(request.relativeHumidity, request.temperatureC);
+  return FUEL_TYPES.map(type => {
+    const fuel = FUEL_MODELS[type];
+    const midflameMs = Math.max(0, request.windSpeedMs) * fuel.windReduction;
+    const head = rothermelSpread(fuel, moisture, midflameMs * FT_MIN_PER_M_S).rateOfSpread / FT_PER_M;
+    const base = rothermelSpread(fuel, moisture, 0).rateOfSpread / FT_PER_M;
+    // A 100% slope has tan = 1, so this isolates the slope factor's coefficient
+    const steep = rothermelSpread(fuel, moisture, 0, 100).rateOfSpread / FT_PER_M;
+    const ratio = lengthToBreadth(midflameMs * MPH_PER_M_S);
+    return {
+      head,
+      base,
+      eccentricity: Math.sqrt(ratio * ratio - 1) / ratio,
+      slopeCoefficient: base > 0 ? steep / base - 1 : 0,
+    };
+  });
+};
+
+// Binary min-heap of cells by arrival time. A cell is queued again when a quicker route to it
+// turns up; the stale entry is skipped once the cell has caught.
+const createArrivalQueue = () => {
+  const cells: number[] = [];
+  const times: number[] = [];
+  const swap = (a: number, b: number) => {
+    [cells[a], cells[b]] = [cells[b], cells[a]];
+    [times[a], times[b]] = [times[b], times[a]];
+  };
+
+  return {
+    get size() {
+      return cells.length;
+    },
+    nextTime: () => times[0],
+    push: (cell: number, time: number) => {
+      cells.push(cell);
+      times.push(time);
+      let index = cells.length - 1;
+      while (index > 0) {
+        const parent = (index - 1) >> 1;
+        if (times[parent] <= times[index]) break;
+        swap(parent, index);
+        index = parent;
+      }
+    },
+    pop: () => {
+      const top = cells[0];
+      swap(0, cells.length - 1);
+      cells.pop();
+      times.pop();
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < cells.length && times[left] < times[smallest]) smallest = left;
+        if (right < cells.length && times[right] < times[smallest]) smallest = right;
+        if (smallest === index) break;
+        swap(smallest, index);
+        index = smallest;
+      }
+      return top;
+    },
+  };
+};
+
+// Steps the automaton one minute at a time and yields a frame every frameMin minutes
+export function* simulateSpread(request: SimulationRequest): Generator<SimulationFrame> {
+  const { grid, durationMin, frameMin } = request;
+  const { cols, rows, cellM, fuel, elevation } = grid;
+  const rates = fuelSpreadRates(request);
+  const heading = (request.windFromDeg + 180) % 360;
+  const cellHa = (cellM * cellM) / 10000;
+
+  const state = new Uint8Array(cols * rows);
+  fuel.forEach((code, index) => {
+    state[index] = code === 0 ? CELL_STATES.unburnable : CELL_STATES.fuel;
+  });
+  const arrival = new Float64Array(cols * rows).fill(Infinity);
+  const queue = createArrivalQueue();
+  // Cells in the order they caught, so the oldest burn out first
+  const burning: number[] = [];
+  let burnedOut = 0;
+  let burnedCells = 0;
+  let reachedEdge = false;
+
+  arrival[grid.ignition] = 0;
+  queue.push(grid.ignition, 0);
+
+  for (let minute = 0; minute <= durationMin; minute += STEP_MIN) {
+    // Ignite everything fire reaches by now, passing it on as each cell catches
+    while (queue.size > 0 && queue.nextTime() <= minute) {
+      const cell = queue.pop();
+      if (state[cell] !== CELL_STATES.fuel) continue;
+      state[cell] = CELL_STATES.burning;
+      burning.push(cell);
+      burnedCells++;
+
+      const row = Math.floor(cell / cols);
+      const col = cell % cols;
+      if (row === 0 || col === 0 || row === rows - 1 || col === cols - 1) reachedEdge = true;
+      NEIGHBOURS.forEach(({ dRow, dCol, bearing, distance }) => {
+        const nRow = row + dRow;
+        const nCol = col + dCol;
+        if (nRow < 0 || nCol < 0 || nRow >= rows || nCol >= cols) return;
+        const next = nRow * cols + nCol;
+        if (state[next] !== CELL_STATES.fuel) return;
+
+        const spread = rates[fuel[next] - 1];
+        const gapM = distance * cellM;
+        // Polar form of the fire ellipse with the ignition at its rear focus
+        const angle = ((bearing - heading) * Math.PI) / 180;
+        let rate = (spread.head * (1 - spread.eccentricity)) / (1 - spread.eccentricity * Math.cos(angle));
+        if (elevation) {
+          const rise = (elevation[next] - elevation[cell]) / gapM;
+          if (rise > 0) rate += spread.base * spread.slopeCoefficient * rise * rise;
+        }
+        if (!(rate > 0)) return;
+
+        const reached = arrival[cell] + gapM / rate;
+        if (reached < arrival[next]) {
+          arrival[next] = reached;
+          queue.push(next, reached);
+        }
+      });
+    }
+
+    while (burnedOut < burning.length && minute - arrival[burning[burnedOut]] >= ACTIVE_MIN) {
+      state[burning[burnedOut]] = CELL_STATES.burned;
+      burnedOut++;
+    }
+
+    const done = minute + STEP_MIN > durationMin || (queue.size === 0 && burnedOut === burning.length);
+    if (minute % frameMin === 0 || done) {
+      yield { minute, cells: state.slice(), burnedHa: burnedCells * cellHa, reachedEdge, done };
+    }
+    if (done) return;
+  }
+}
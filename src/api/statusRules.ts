@@ -0,0 +1,262 @@
+// src/api/statusRules.ts
+// One place that decides how serious a reading is. Each level above normal is a rule made of
+// conditions on temperature, humidity and smoke (their value, rate of change, and how long they
+// have held). Rules are edited in Settings and can be replaced per zone or per sensor.
+import {
+  RuleCondition,
+  RuleLevel,
+  RuleOverride,
+  RuleOverrideScope,
+  RuleSet,
+  StatusEvaluation,
+  StatusLevel,
+  StatusRule,
+  StatusRulesConfig,
+} from '@/types/statusRules';
+import { SensorReading } from '@/types/sensor';
+import { onStorageChange } from '@/lib/storageSync';
+import { getRecentReadings } from './history';
+import { heldForMinutes, movingAverage, rateOfRise } from './trends';
+
+const RULES_STORAGE_KEY = 'statusRules';
+
+// Least to most severe
+export const STATUS_LEVELS: StatusLevel[] = ['normal', 'watch', 'warning', 'critical', 'fire'];
+export const RULE_LEVELS: RuleLevel[] = ['watch', 'warning', 'critical', 'fire'];
+
+export const STATUS_LEVEL_LABELS: Record<StatusLevel, string> = {
+  normal: 'Normal',
+  watch: 'Watch',
+  warning: 'Warning',
+  critical: 'Critical',
+  fire: 'Fire Detected',
+};
+
+export const RULE_METRICS: { value: RuleCondition['metric']; label: string; unit: string }[] = [
+  { value: 'temp', label: 'Temperature', unit: '°C' },
+  { value: 'humidity', label: 'Humidity', unit: '%' },
+  { value: 'smoke', label: 'Smoke', unit: 'ppm' },
+];
+
+export const RULE_OPERATORS: RuleCondition['operator'][] = ['>', '>=', '<', '<='];
+
+// Rate and average conditions without their own window are measured over this many minutes
+const DEFAULT_TREND_WINDOW_MINUTES = 5;
+
+// Fire has no conditions by default: only the device's own fire flag raises it
+export const DEFAULT_RULE_SET: RuleSet = {
+  watch: {
+    match: 'any',
+    conditions: [
+      { metric: 'temp', measure: 'value', operator: '>', threshold: 30, forMinutes: 0 },
+      { metric: 'smoke', measure: 'value', operator: '>', threshold: 30, forMinutes: 0 },
+      { metric: 'humidity', measure: 'value', operator: '<', threshold: 30, forMinutes: 0 },
+    ],
+  },
+  warning: {
+    match: 'any',
+    conditions: [
+      { metric: 'temp', measure: 'value', operator: '>', threshold: 35, forMinutes: 0 },
+      { metric: 'smoke', measure: 'value', operator: '>', threshold: 50, forMinutes: 0 },
+    ],
+  },
+  critical: {
+    match: 'any',
+    conditions: [
+      { metric: 'temp', measure: 'value', operator: '>', threshold: 60, forMinutes: 0 },
+      { metric: 'smoke', measure: 'value', operator: '>', threshold: 100, forMinutes: 0 },
+      { metric: 'temp', measure: 'rate', operator: '>', threshold: 2, forMinutes: 5 },
+      { metric: 'smoke', measure: 'rate', operator: '>', threshold: 15, forMinutes: 5 },
+    ],
+  },
+  fire: { match: 'all', conditions: [] },
+};
+
+const listeners = new Set<() => void>();
+
+const readConfig = (): StatusRulesConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) || '{}');
+    return {
+      rules: { ...DEFAULT_RULE_SET, ...stored.rules },
+      overrides: Array.isArray(stored.overrides) ? stored.overrides : [],
+    };
+  } catch {
+    return { rules: DEFAULT_RULE_SET, overrides: [] };
+  }
+};
+
+let config = readConfig();
+
+// Changes apply to what is in storage now, so overrides another tab saved meanwhile are kept
+const commit = (change: (current: StatusRulesConfig) => StatusRulesConfig) => {
+  config = change(readConfig());
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(config));
+  listeners.forEach(listener => listener());
+};
+
+onStorageChange(RULES_STORAGE_KEY, () => {
+  config = readConfig();
+  listeners.forEach(listener => listener());
+});
+
+export const getStatusRulesConfig = (): StatusRulesConfig => config;
+
+export const setDefaultRules = (rules: RuleSet) => commit(current => ({ ...current, rules }));
+
+export const resetStatusRules = () => commit(() => ({ rules: DEFAULT_RULE_SET, overrides: [] }));
+
+export const getRuleOverride = (scope: RuleOverrideScope, id: string, source: StatusRulesConfig = config) =>
+  source.overrides.find(override => override.scope === scope && override.id === id);
+
+export const setRuleOverride = (override: RuleOverride) =>
+  commit(current => ({
+    ...current,
+    overrides: [
+      ...current.overrides.filter(existing => !(existing.scope === override.scope && existing.id === override.id)),
+      override,
+    ],
+  }));
+
+export const removeRuleOverride = (scope: RuleOverrideScope, id: string) =>
+  commit(current => ({
+    ...current,
+    overrides: current.overrides.filter(override => !(override.scope === scope && override.id === id)),
+  }));
+
+export const subscribeStatusRules = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export interface RuleContext {
+  deviceId?: string;
+  // Names of the zones the sensor sits in, broadest first; see getRuleZones in ./zones
+  zones?: string[];
+}
+
+// Defaults, then each zone's override from the broadest zone in, then the sensor's own
+export const resolveRules = ({ deviceId, zones = [] }: RuleContext = {}, source: StatusRulesConfig = config): RuleSet => {
+  const zoneRules = zones.map(zone => getRuleOverride('zone', zone, source)?.rules);
+  const sensorRules = deviceId ? getRuleOverride('sensor', deviceId, source)?.rules : undefined;
+  return Object.assign({}, source.rules, ...zoneRules, sensorRules);
+};
+
+const compare = (value: number, operator: RuleCondition['operator'], threshold: number) => {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+  }
+};
+
+const timeOf = (reading: Pick<SensorReading, 'timestamp'>) => new Date(reading.timestamp).getTime();
+
+// readings are oldest first and end with the reading being evaluated
+const conditionHolds = (condition: RuleCondition, readings: StatusInput[]): boolean => {
+  const latest = readings[readings.length - 1];
+  const window = condition.forMinutes || DEFAULT_TREND_WINDOW_MINUTES;
+
+  if (condition.measure === 'rate' || condition.measure === 'average') {
+    const measured =
+      condition.measure === 'rate'
+        ? rateOfRise(readings, condition.metric, window)
+        : movingAverage(readings, condition.metric, window);
+    return measured !== null && compare(measured, condition.operator, condition.threshold);
+  }
+
+  const holds = (reading: StatusInput) => compare(reading[condition.metric] ?? 0, condition.operator, condition.threshold);
+  if (!condition.forMinutes) return holds(latest);
+  return heldForMinutes(readings, holds) >= condition.forMinutes;
+};
+
+const ruleMatches = (rule: StatusRule, readings: StatusInput[]) => {
+  if (!rule || rule.conditions.length === 0) return false;
+  const results = rule.conditions.map(condition => conditionHolds(condition, readings));
+  return rule.match === 'all' ? results.every(Boolean) : results.some(Boolean);
+};
+
+export type StatusInput = Pick<SensorReading, 'temp' | 'humidity' | 'smoke' | 'timestamp'> & {
+  isFire?: boolean;
+};
+
+export interface EvaluateOptions extends RuleContext {
+  // Earlier readings of the same device for rate and duration conditions; defaults to the local history
+  history?: StatusInput[];
+  // Rules to apply instead of the current ones, e.g. the snapshot a memoised caller depends on
+  config?: StatusRulesConfig;
+}
+
+// Twice the longest window, so a condition that has held since before the window opened still
+// shows the reading it started at
+const historyWindowMs = (rules: RuleSet) =>
+  2 *
+  Math.max(
+    DEFAULT_TREND_WINDOW_MINUTES,
+    ...RULE_LEVELS.flatMap(level => (rules[level]?.conditions ?? []).map(condition => condition.forMinutes))
+  ) *
+  60000;
+
+// The shared evaluator behind every status badge, marker colour and chart
+export const evaluateStatus = (reading: StatusInput, options: EvaluateOptions = {}): StatusEvaluation => {
+  const rules = resolveRules(options, options.config);
+  const history =
+    options.history ?? (options.deviceId ? getRecentReadings(options.deviceId, historyWindowMs(rules)) : []);
+  const readings = [...history.filter(entry => timeOf(entry) < timeOf(reading)), reading].sort(
+    (a, b) => timeOf(a) - timeOf(b)
+  );
+
+  const matches: StatusEvaluation['matches'] = [];
+  let level: StatusLevel = 'normal';
+  RULE_LEVELS.forEach(ruleLevel => {
+    const rule = rules[ruleLevel];
+    if (!ruleMatches(rule, readings)) return;
+    level = ruleLevel;
+    rule.conditions
+      .filter(condition => conditionHolds(condition, readings))
+      .forEach(condition => matches.push({ level: ruleLevel, condition }));
+  });
+
+  return { level: reading.isFire ? 'fire' : level, matches };
+};
+
+export const compareStatusLevels = (a: StatusLevel, b: StatusLevel) =>
+  STATUS_LEVELS.indexOf(a) - STATUS_LEVELS.indexOf(b);
+
+export const isAtLeast = (level: StatusLevel, minimum: StatusLevel) => compareStatusLevels(level, minimum) >= 0;
+
+// Most severe level any matched condition on this metric reached, e.g. to colour one gauge
+export const getMetricLevel = (evaluation: StatusEvaluation, metric: RuleCondition['metric']): StatusLevel =>
+  evaluation.matches
+    .filter(match => match.condition.metric === metric)
+    .reduce<StatusLevel>((worst, match) => (compareStatusLevels(match.level, worst) > 0 ? match.level : worst), 'normal');
+
+// Conditions that look at more than the latest reading
+export const isTrendCondition = (condition: RuleCondition) => condition.measure !== 'value' || condition.forMinutes > 0;
+
+// Serious enough to act on, and flagged by how readings are moving rather than by the device's
+// own fire flag: the early warning that a fire may be starting
+export const isPreFire = (evaluation: StatusEvaluation, reading: Pick<StatusInput, 'isFire'>) =>
+  !reading.isFire &&
+  isAtLeast(evaluation.level, 'critical') &&
+  evaluation.matches.some(match => isAtLeast(match.level, 'critical') && isTrendCondition(match.condition));
+
+export const describeCondition = (condition: RuleCondition) => {
+  const metric = RULE_METRICS.find(option => option.value === condition.metric);
+  const window = condition.forMinutes || DEFAULT_TREND_WINDOW_MINUTES;
+  if (condition.measure === 'rate') {
+    return `${metric.label} changing ${condition.operator} ${condition.threshold} ${metric.unit}/min over ${window} min`;
+  }
+  if (condition.measure === 'average') {
+    return `${window}-min average ${metric.label.toLowerCase()} ${condition.operator} ${condition.threshold} ${metric.unit}`;
+  }
+  const sustained = condition.forMinutes ? ` for ${condition.forMinutes} min` : '';
+  return `${metric.label} ${condition.operator} ${condition.threshold} ${metric.unit}${sustained}`;
+};
@@ -0,0 +1,90 @@
+// src/api/trends.ts
+// Trend detection over a device's recent readings: rate of rise, moving averages and how long a
+// condition has held. Fire onset shows up here (a fast climb in temperature and smoke) well
+// before any single reading crosses a threshold or the device raises its own fire flag.
+import { RuleMetric } from '@/types/statusRules';
+import { SensorReading } from '@/types/sensor';
+import { getRecentReadings } from './history';
+
+export type TrendReading = Pick<SensorReading, 'timestamp' | 'temp' | 'humidity' | 'smoke'>;
+
+export type TrendDirection = 'rising' | 'falling' | 'steady';
+
+export interface MetricTrend {
+  // Change per minute, null while there is too little history to tell
+  rate: number | null;
+  average: number | null;
+  direction: TrendDirection;
+}
+
+export type DeviceTrend = Record<RuleMetric, MetricTrend>;
+
+// Window behind trend arrows and the figures shown next to them
+export const TREND_WINDOW_MINUTES = 10;
+
+// Slower changes than these (per minute) are shown as steady
+const STEADY_RATES: Record<RuleMetric, number> = {
+  temp: 0.2,
+  humidity: 0.5,
+  smoke: 2,
+};
+
+const METRICS: RuleMetric[] = ['temp', 'humidity', 'smoke'];
+
+const timeOf = (reading: Pick<SensorReading, 'timestamp'>) => new Date(reading.timestamp).getTime();
+
+// readings are oldest first; the window ends at the last reading, not at the wall clock
+const inWindow = <T extends TrendReading>(readings: T[], windowMinutes: number): T[] => {
+  if (readings.length === 0) return [];
+  const end = timeOf(readings[readings.length - 1]);
+  return readings.filter(reading => timeOf(reading) >= end - windowMinutes * 60000);
+};
+
+// Least-squares slope per minute, so one noisy reading at either end doesn't decide the rate
+export const rateOfRise = (readings: TrendReading[], metric: RuleMetric, windowMinutes: number): number | null => {
+  const points = inWindow(readings, windowMinutes).map(reading => ({
+    x: timeOf(reading) / 60000,
+    y: reading[metric] ?? 0,
+  }));
+  // Under a minute of data makes the rate mostly noise
+  if (points.length < 2 || points[points.length - 1].x - points[0].x < 1) return null;
+
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const variance = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  return variance === 0 ? null : covariance / variance;
+};
+
+export const movingAverage = (readings: TrendReading[], metric: RuleMetric, windowMinutes: number): number | null => {
+  const window = inWindow(readings, windowMinutes);
+  if (window.length === 0) return null;
+  return window.reduce((sum, reading) => sum + (reading[metric] ?? 0), 0) / window.length;
+};
+
+// Minutes the predicate has held without a break up to the last reading; 0 if it doesn't hold now
+export const heldForMinutes = <T extends TrendReading>(readings: T[], predicate: (reading: T) => boolean): number => {
+  if (readings.length === 0 || !predicate(readings[readings.length - 1])) return 0;
+
+  let start = readings.length - 1;
+  while (start > 0 && predicate(readings[start - 1])) start -= 1;
+  return (timeOf(readings[readings.length - 1]) - timeOf(readings[start])) / 60000;
+};
+
+export const computeTrend = (readings: TrendReading[], windowMinutes = TREND_WINDOW_MINUTES): DeviceTrend => {
+  const sorted = [...readings].sort((a, b) => timeOf(a) - timeOf(b));
+  return METRICS.reduce((trend, metric) => {
+    const rate = rateOfRise(sorted, metric, windowMinutes);
+    const direction: TrendDirection =
+      rate === null || Math.abs(rate) < STEADY_RATES[metric] ? 'steady' : rate > 0 ? 'rising' : 'falling';
+    trend[metric] = { rate, average: movingAverage(sorted, metric, windowMinutes), direction };
+    return trend;
+  }, {} as DeviceTrend);
+};
+
+// Trend of a device from the readings this client has recorded, ending with latest
+export const getDeviceTrend = (deviceId: string, latest?: TrendReading): DeviceTrend => {
+  const history = getRecentReadings(deviceId, TREND_WINDOW_MINUTES * 60000);
+  const readings = latest ? [...history.filter(reading => timeOf(reading) < timeOf(latest)), latest] : history;
+  return computeTrend(readings);
+};
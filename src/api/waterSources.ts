@@ -0,0 +1,77 @@
+// src/api/waterSources.ts
+// Firefighting water near the sensors: hydrants, tanks, ponds and reservoirs mapped in
+// OpenStreetMap, fetched from the Overpass API for the area on screen.
+import { requestJson } from './httpClient';
+import { WaterSource } from '@/types/mapLayers';
+
+export const WATER_SOURCES_QUERY_KEY = ['waterSources'] as const;
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+const OVERPASS_TIMEOUT_MS = 25000;
+// Overpass answers slowly for large areas, so the overlay only loads from this zoom in
+export const WATER_SOURCES_MIN_ZOOM = 11;
+const MAX_RESULTS = 500;
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+const toKind = (tags: Record<string, string> = {}): WaterSource['kind'] => {
+  if (tags.emergency === 'fire_hydrant') return 'hydrant';
+  if (tags.emergency === 'water_tank' || tags.man_made === 'water_tank' || tags.emergency === 'fire_water_pond') {
+    return 'tank';
+  }
+  if (tags.landuse === 'reservoir' || tags.water === 'reservoir') return 'reservoir';
+  return 'water';
+};
+
+// Snapped outwards to a 0.05° grid so small pans reuse the same request
+export const snapBoundingBox = ({ south, west, north, east }: BoundingBox, step = 0.05): BoundingBox => ({
+  south: Math.floor(south / step) * step,
+  west: Math.floor(west / step) * step,
+  north: Math.ceil(north / step) * step,
+  east: Math.ceil(east / step) * step,
+});
+
+export const getWaterSources = async (box: BoundingBox, signal?: AbortSignal): Promise<WaterSource[]> => {
+  const bbox = [box.south, box.west, box.north, box.east].map(value => value.toFixed(4)).join(',');
+  const query = `[out:json][timeout:20];(
+    node["emergency"~"^(fire_hydrant|water_tank)$"](${bbox});
+    nwr["emergency"="fire_water_pond"](${bbox});
+    nwr["man_made"="water_tank"](${bbox});
+    nwr["landuse"="reservoir"](${bbox});
+    nwr["natural"="water"]["name"](${bbox});
+  );out center ${MAX_RESULTS};`;
+
+  const { data } = await requestJson<{ elements?: OverpassElement[] }>(
+    `${OVERPASS_URL}?data=${encodeURIComponent(query)}`,
+    { signal, timeoutMs: OVERPASS_TIMEOUT_MS }
+  );
+
+  return (data?.elements ?? [])
+    .map(element => {
+      const latitude = element.lat ?? element.center?.lat;
+      const longitude = element.lon ?? element.center?.lon;
+      if (latitude === undefined || longitude === undefined) return null;
+      return {
+        id: `${element.type}/${element.id}`,
+        latitude,
+        longitude,
+        kind: toKind(element.tags),
+        name: element.tags?.name,
+      };
+    })
+    .filter(Boolean);
+};
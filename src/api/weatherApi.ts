@@ -1,4 +1,8 @@
 // src/api/weatherApi.ts
+import { getConfig } from './config';
+import { requestJson, isAbortError } from './httpClient';
+import { CACHE_KEYS, readCache, writeCache } from './offlineCache';
+
 export interface WeatherData {
   temp: number;
   feels_like: number;
@@ -10,24 +14,40 @@ export interface WeatherData {
   visibility: number;
   description: string;
   icon: string;
+  // Set when the reading comes from the offline cache
+  asOf?: string;
 }
 
-export const getWeatherData = async (lat: number, lon: number): Promise<WeatherData> => {
-  try {
-    
-    
-    // For demo purposes, using a free API endpoint
-    const response = await fetch(
-      `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&appid=070b8d1eb7f4b59140b6788d2bb9e26f&units=metric`
-    );
+// Subset of the OpenWeatherMap current weather response that the dashboard reads
+export interface OpenWeatherResponse {
+  main: { temp: number; feels_like: number; temp_min: number; temp_max: number; pressure: number; humidity: number };
+  wind: { speed: number; deg: number; gust?: number };
+  clouds?: { all: number };
+  visibility: number;
+  weather: { description: string; icon: string }[];
+}
 
-    if (!response.ok) {
-      throw new Error(`Weather API request failed: ${response.status}`);
-    }
+const WEATHER_TIMEOUT_MS = 8000;
 
-    const data = await response.json();
+export const requestCurrentWeather = async (
+  lat: number,
+  lon: number,
+  signal?: AbortSignal
+): Promise<OpenWeatherResponse> => {
+  const { weatherApiUrl, weatherApiKey } = getConfig();
+  const { data } = await requestJson<OpenWeatherResponse>(
+    `${weatherApiUrl}?lat=${lat}&lon=${lon}&appid=${weatherApiKey}&units=metric`,
+    { signal, timeoutMs: WEATHER_TIMEOUT_MS }
+  );
+  return data;
+};
+
+// Falls back to the last cached conditions for the spot when the request fails
+export const getWeatherData = async (lat: number, lon: number, signal?: AbortSignal): Promise<WeatherData> => {
+  try {
+    const data = await requestCurrentWeather(lat, lon, signal);
     
-    return {
+    const weather: WeatherData = {
       temp: data.main.temp,
       feels_like: data.main.feels_like,
       humidity: data.main.humidity,
@@ -39,20 +59,16 @@ export const getWeatherData = async (lat: number, lon: number): Promise<WeatherD
       description: data.weather[0].description,
       icon: data.weather[0].icon
     };
+    writeCache(CACHE_KEYS.weather(lat, lon), weather);
+    return weather;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error fetching weather data:', error);
-    // Fallback mock data for demo purposes
-    return {
-      temp: 25 + (Math.random() * 10 - 5), // Random temp between 20-30
-      feels_like: 26 + (Math.random() * 10 - 5),
-      humidity: 60 + (Math.random() * 20 - 10), // Random humidity
-      pressure: 1013,
-      wind_speed: 3.5 + (Math.random() * 5), // Random wind speed
-      wind_deg: Math.random() * 360, // Random wind direction
-      wind_gust: 5.0 + (Math.random() * 5),
-      visibility: 10000,
-      description: 'clear sky',
-      icon: '01d'
-    };
+
+    const cached = await readCache<WeatherData>(CACHE_KEYS.weather(lat, lon));
+    if (cached) return { ...cached.value, asOf: cached.savedAt };
+
+    // No made-up weather: callers show the wind as unavailable instead
+    throw error;
   }
 };
\ No newline at end of file
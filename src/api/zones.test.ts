@@ -0,0 +1,73 @@
+// src/api/zones.test.ts
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ForestZone, ZonePosition } from '@/types/zone';
+import { RuleSet } from '@/types/statusRules';
+
+// Square around a point, half a side of size degrees
+const square = (id: string, name: string, kind: ForestZone['kind'], lng: number, lat: number, size: number): ForestZone => {
+  const ring: ZonePosition[] = [
+    [lng - size, lat - size],
+    [lng + size, lat - size],
+    [lng + size, lat + size],
+    [lng - size, lat + size],
+    [lng - size, lat - size],
+  ];
+  return { id, name, kind, polygons: [[ring]], createdAt: '2026-10-01T00:00:00.000Z' };
+};
+
+const ZONES = [
+  square('b', 'Kallar Beat', 'beat', 76.7, 11.4, 0.05),
+  square('d', 'Nilgiris North', 'division', 76.7, 11.4, 1),
+  square('r', 'Kallar Range', 'range', 76.7, 11.4, 0.2),
+];
+
+const tempAbove = (threshold: number): Partial<RuleSet> => ({
+  warning: {
+    match: 'any',
+    conditions: [{ metric: 'temp', measure: 'value', operator: '>', threshold, forMinutes: 0 }],
+  },
+});
+
+let zonesApi: typeof import('./zones');
+let rulesApi: typeof import('./statusRules');
+
+beforeAll(async () => {
+  const stored = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: () => undefined, removeEventListener: () => undefined });
+  zonesApi = await import('./zones');
+  rulesApi = await import('./statusRules');
+});
+
+describe('getRuleZones', () => {
+  it('lists the reported zone, then containing map zones from broadest to narrowest', () => {
+    expect(zonesApi.getRuleZones({ latitude: 11.41, longitude: 76.71, zone: 'East' }, ZONES)).toEqual([
+      'East',
+      'Nilgiris North',
+      'Kallar Range',
+      'Kallar Beat',
+    ]);
+  });
+
+  it('leaves out zones that do not contain the sensor', () => {
+    expect(zonesApi.getRuleZones({ latitude: 11.7, longitude: 76.7 }, ZONES)).toEqual(['Nilgiris North']);
+  });
+});
+
+describe('zone rule overrides', () => {
+  it('apply to sensors inside a map zone, narrowest zone winning', () => {
+    rulesApi.setRuleOverride({ scope: 'zone', id: 'Nilgiris North', rules: tempAbove(50) });
+    rulesApi.setRuleOverride({ scope: 'zone', id: 'Kallar Beat', rules: tempAbove(25) });
+    const reading = { temp: 32, humidity: 50, smoke: 0, timestamp: '2026-10-01T10:00:00.000Z' };
+
+    const inBeat = zonesApi.getRuleZones({ latitude: 11.41, longitude: 76.71 }, ZONES);
+    const inDivisionOnly = zonesApi.getRuleZones({ latitude: 11.7, longitude: 76.7 }, ZONES);
+    expect(rulesApi.evaluateStatus(reading, { zones: inBeat, history: [] }).level).toBe('warning');
+    expect(rulesApi.evaluateStatus(reading, { zones: inDivisionOnly, history: [] }).level).toBe('watch');
+  });
+});
@@ -0,0 +1,242 @@
+// src/api/zones.ts
+// Forest zones: divisions, ranges, beats and protected areas as polygons. Sensors belong to
+// every zone whose polygon contains them, so one sensor can sit in a division, a range within it
+// and a beat within that. Zones are kept per browser and move in and out as GeoJSON.
+import { ForestZone, ZoneAggregate, ZoneKind, ZonePolygon, ZonePosition } from '@/types/zone';
+import { SensorData } from '@/types/sensor';
+import { StatusLevel, StatusRulesConfig } from '@/types/statusRules';
+import { onStorageChange } from '@/lib/storageSync';
+import { evaluateStatus, compareStatusLevels, StatusInput } from './statusRules';
+
+const ZONES_STORAGE_KEY = 'forestZones';
+
+export const ZONE_KINDS: { value: ZoneKind; label: string }[] = [
+  { value: 'division', label: 'Division' },
+  { value: 'range', label: 'Range' },
+  { value: 'beat', label: 'Beat' },
+  { value: 'protected', label: 'Protected area' },
+];
+
+const listeners = new Set<() => void>();
+
+const readZones = (): ForestZone[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ZONES_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+let zones = readZones();
+
+// Changes apply to what is in storage now, so zones another tab added meanwhile are kept
+const commit = (change: (current: ForestZone[]) => ForestZone[]) => {
+  zones = change(readZones());
+  localStorage.setItem(ZONES_STORAGE_KEY, JSON.stringify(zones));
+  listeners.forEach(listener => listener());
+};
+
+onStorageChange(ZONES_STORAGE_KEY, () => {
+  zones = readZones();
+  listeners.forEach(listener => listener());
+});
+
+export const getZones = (): ForestZone[] => zones;
+
+const createZoneId = (index = 0) => `${Date.now().toString(36)}-${index}`;
+
+export const addZones = (added: Omit<ForestZone, 'id' | 'createdAt'>[]) => {
+  const createdAt = new Date().toISOString();
+  commit(current => [...current, ...added.map((zone, index) => ({ ...zone, id: createZoneId(index), createdAt }))]);
+};
+
+export const updateZone = (id: string, changes: Partial<Pick<ForestZone, 'name' | 'kind'>>) =>
+  commit(current => current.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+
+export const removeZone = (id: string) => commit(current => current.filter(zone => zone.id !== id));
+
+export const subscribeZones = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Ray casting; points exactly on an edge may fall either way, which is fine at sensor scale
+const inRing = ([x, y]: ZonePosition, ring: ZonePosition[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const inPolygon = (point: ZonePosition, [outer, ...holes]: ZonePolygon) =>
+  inRing(point, outer) && !holes.some(hole => inRing(point, hole));
+
+export const zoneContains = (zone: ForestZone, latitude: number, longitude: number) =>
+  zone.polygons.some(polygon => inPolygon([longitude, latitude], polygon));
+
+export const getSensorZones = (
+  sensor: Pick<SensorData, 'latitude' | 'longitude'>,
+  source: ForestZone[] = zones
+): ForestZone[] => source.filter(zone => zoneContains(zone, sensor.latitude, sensor.longitude));
+
+// Zone rule overrides are keyed by zone name. They apply to the zone a device reports itself in
+// and to every map zone that contains it, broadest first, so a beat's rules win over its range's.
+export const getRuleZones = (
+  sensor: Pick<SensorData, 'latitude' | 'longitude' | 'zone'>,
+  source: ForestZone[] = zones
+): string[] => {
+  const kindOrder = ZONE_KINDS.map(kind => kind.value);
+  const containing = getSensorZones(sensor, source).sort((a, b) => kindOrder.indexOf(a.kind) - kindOrder.indexOf(b.kind));
+  return Array.from(new Set([sensor.zone, ...containing.map(zone => zone.name)].filter(Boolean)));
+};
+
+// The status of a sensor's latest reading under its own, its zones' and the default rules
+export const evaluateSensor = (sensor: StatusInput & Pick<SensorData, 'deviceId' | 'latitude' | 'longitude' | 'zone'>) =>
+  evaluateStatus(sensor, { deviceId: sensor.deviceId, zones: getRuleZones(sensor) });
+
+export const filterSensorsByZone = <T extends Pick<SensorData, 'latitude' | 'longitude'>>(
+  sensors: T[],
+  zone: ForestZone
+): T[] => sensors.filter(sensor => zoneContains(zone, sensor.latitude, sensor.longitude));
+
+export const computeZoneAggregates = (
+  sensors: SensorData[],
+  source: ForestZone[] = zones,
+  config?: StatusRulesConfig
+): ZoneAggregate[] =>
+  source.map(zone => {
+    const members = filterSensorsByZone(sensors, zone);
+    return {
+      zoneId: zone.id,
+      sensorCount: members.length,
+      activeFires: members.filter(sensor => sensor.isFire).length,
+      worstLevel: members
+        .map(sensor => evaluateStatus(sensor, { deviceId: sensor.deviceId, zones: getRuleZones(sensor, source), config }).level)
+        .reduce<StatusLevel>((worst, level) => (compareStatusLevels(level, worst) > 0 ? level : worst), 'normal'),
+    };
+  });
+
+// GeoJSON
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+const isPosition = (value: unknown): value is ZonePosition =>
+  Array.isArray(value) && value.length >= 2 && value.every(coordinate => typeof coordinate === 'number');
+
+const toPolygon = (value: unknown): ZonePolygon | null => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const rings = value.map(ring =>
+    Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition)
+      ? ring.map(([lng, lat]) => [lng, lat] as ZonePosition)
+      : null
+  );
+  return rings.every(Boolean) ? rings : null;
+};
+
+const toPolygons = (geometry: GeoJsonGeometry | null): ZonePolygon[] => {
+  if (!geometry) return [];
+  if (geometry.type === 'Polygon') {
+    const polygon = toPolygon(geometry.coordinates);
+    return polygon ? [polygon] : [];
+  }
+  if (geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+    return geometry.coordinates.map(toPolygon).filter(Boolean);
+  }
+  if (geometry.type === 'GeometryCollection') {
+    return (geometry.geometries ?? []).flatMap(toPolygons);
+  }
+  return [];
+};
+
+const readText = (properties: Record<string, unknown>, keys: string[]) => {
+  const key = keys.find(candidate => typeof properties[candidate] === 'string' && String(properties[candidate]).trim());
+  return key ? String(properties[key]).trim() : undefined;
+};
+
+const toKind = (value: string | undefined, fallback: ZoneKind): ZoneKind => {
+  const normalized = value?.toLowerCase();
+  if (!normalized) return fallback;
+  if (normalized.includes('protect') || normalized.includes('sanctuary') || normalized.includes('park')) return 'protected';
+  return ZONE_KINDS.find(kind => normalized.includes(kind.value))?.value ?? fallback;
+};
+
+export interface ZoneImportResult {
+  zones: Omit<ForestZone, 'id' | 'createdAt'>[];
+  // Features without polygon geometry (points, lines) that were left out
+  skipped: number;
+}
+
+// Accepts a FeatureCollection, a single Feature or a bare geometry. Names and kinds come from
+// common property names; anything unnamed is numbered.
+export const parseZonesGeoJson = (text: string, defaultKind: ZoneKind = 'range'): ZoneImportResult => {
+  let parsed: { type?: string; features?: GeoJsonFeature[] } & GeoJsonGeometry;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const features: GeoJsonFeature[] =
+    parsed?.type === 'FeatureCollection' && Array.isArray(parsed.features)
+      ? parsed.features
+      : parsed?.type === 'Feature'
+        ? [parsed as unknown as GeoJsonFeature]
+        : parsed?.type
+          ? [{ type: 'Feature', geometry: parsed, properties: {} }]
+          : [];
+  if (features.length === 0) throw new Error('No GeoJSON features found');
+
+  const imported: ZoneImportResult['zones'] = [];
+  let skipped = 0;
+  features.forEach((feature, index) => {
+    const polygons = toPolygons(feature?.geometry ?? null);
+    if (polygons.length === 0) {
+      skipped += 1;
+      return;
+    }
+    const properties = feature.properties ?? {};
+    imported.push({
+      name: readText(properties, ['name', 'NAME', 'Name', 'title', 'label']) ?? `Zone ${index + 1}`,
+      kind: toKind(readText(properties, ['kind', 'type', 'category', 'level']), defaultKind),
+      polygons,
+    });
+  });
+
+  return { zones: imported, skipped };
+};
+
+export const zonesToGeoJson = (source: ForestZone[] = zones) =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: source.map(zone => ({
+        type: 'Feature',
+        properties: { id: zone.id, name: zone.name, kind: zone.kind },
+        geometry: { type: 'MultiPolygon', coordinates: zone.polygons },
+      })),
+    },
+    null,
+    2
+  );
+
+// A drawn outline as a closed GeoJSON ring
+export const polygonFromLatLngs = (points: { lat: number; lng: number }[]): ZonePolygon => {
+  const ring = points.map(point => [point.lng, point.lat] as ZonePosition);
+  return [[...ring, ring[0]]];
+};
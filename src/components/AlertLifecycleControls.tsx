@@ -0,0 +1,91 @@
+// src/components/AlertLifecycleControls.tsx
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ALERT_STATE_LABELS,
+  NEXT_ALERT_STATES,
+  getOperatorName,
+  setOperatorName,
+  transitionAlert,
+} from '@/api/alerts';
+import { AlertState, FireAlertRecord } from '@/types/alert';
+import AlertStateBadge from '@/components/AlertStateBadge';
+
+interface AlertLifecycleControlsProps {
+  alert: FireAlertRecord;
+}
+
+const AlertLifecycleControls: React.FC<AlertLifecycleControlsProps> = ({ alert }) => {
+  const [operator, setOperator] = useState(getOperatorName);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const nextStates = NEXT_ALERT_STATES[alert.state];
+
+  const handleTransition = (to: AlertState) => {
+    if (!operator.trim()) {
+      setError('Enter your name so the change can be attributed');
+      return;
+    }
+
+    try {
+      setOperatorName(operator);
+      transitionAlert(alert.id, to, operator, note);
+      setNote('');
+      setError(null);
+    } catch (transitionError) {
+      setError(transitionError instanceof Error ? transitionError.message : String(transitionError));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          Opened {new Date(alert.openedAt).toLocaleTimeString()}
+        </span>
+        <AlertStateBadge state={alert.state} />
+      </div>
+
+      {nextStates.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={operator}
+              onChange={e => setOperator(e.target.value)}
+              placeholder="Your name"
+              className="h-8 text-xs"
+            />
+            <Input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {nextStates.map(state => (
+              <Button
+                key={state}
+                size="sm"
+                variant={state === 'false-alarm' ? 'outline' : 'default'}
+                className={
+                  state === 'false-alarm'
+                    ? 'text-xs border-gray-400 text-gray-600'
+                    : 'text-xs bg-forest-primary text-white hover:bg-forest-primary/90'
+                }
+                onClick={() => handleTransition(state)}
+              >
+                {ALERT_STATE_LABELS[state]}
+              </Button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-forest-danger">{error}</p>}
+    </div>
+  );
+};
+
+export default AlertLifecycleControls;
@@ -0,0 +1,25 @@
+// src/components/AlertStateBadge.tsx
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ALERT_STATE_LABELS } from '@/api/alerts';
+import { AlertState } from '@/types/alert';
+
+const STATE_CLASSES: Record<AlertState, string> = {
+  new: 'bg-forest-danger text-white animate-pulse',
+  acknowledged: 'bg-forest-warning text-white',
+  dispatched: 'bg-blue-600 text-white',
+  contained: 'bg-purple-600 text-white',
+  resolved: 'bg-forest-success text-white',
+  'false-alarm': 'bg-gray-500 text-white',
+};
+
+interface AlertStateBadgeProps {
+  state: AlertState;
+  className?: string;
+}
+
+const AlertStateBadge: React.FC<AlertStateBadgeProps> = ({ state, className = '' }) => (
+  <Badge className={`${STATE_CLASSES[state]} ${className}`}>{ALERT_STATE_LABELS[state]}</Badge>
+);
+
+export default AlertStateBadge;
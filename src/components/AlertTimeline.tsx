@@ -0,0 +1,70 @@
+// src/components/AlertTimeline.tsx
+import React from 'react';
+import { BellRing } from 'lucide-react';
+import { AlertTransition, EscalationEvent, FireAlertRecord } from '@/types/alert';
+import { NOTIFIER_CHANNELS } from '@/api/notifiers';
+import AlertStateBadge from '@/components/AlertStateBadge';
+
+interface AlertTimelineProps {
+  alert: FireAlertRecord;
+}
+
+type TimelineEntry =
+  | { kind: 'transition'; at: string; transition: AlertTransition }
+  | { kind: 'escalation'; at: string; escalation: EscalationEvent };
+
+const channelLabel = (channel: EscalationEvent['channel']) =>
+  NOTIFIER_CHANNELS.find(option => option.value === channel)?.label ?? channel;
+
+const AlertTimeline: React.FC<AlertTimelineProps> = ({ alert }) => {
+  const entries: TimelineEntry[] = [
+    ...alert.transitions.map(transition => ({ kind: 'transition' as const, at: transition.at, transition })),
+    ...(alert.escalations ?? []).map(escalation => ({ kind: 'escalation' as const, at: escalation.at, escalation })),
+  ].sort((a, b) => a.at.localeCompare(b.at));
+
+  return (
+    <ol className="relative border-l border-forest-accent/50 ml-2 space-y-4">
+      {entries.map(entry =>
+        entry.kind === 'transition' ? (
+          <li key={`${entry.transition.to}-${entry.at}`} className="ml-4">
+            <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-forest-primary" />
+            <div className="flex flex-wrap items-center gap-2">
+              <AlertStateBadge state={entry.transition.to} />
+              <span className="text-xs text-muted-foreground">{new Date(entry.at).toLocaleString()}</span>
+            </div>
+            <p className="text-sm mt-1">
+              by <span className="font-medium">{entry.transition.actor}</span>
+            </p>
+            {entry.transition.note && (
+              <p className="text-sm text-muted-foreground italic">“{entry.transition.note}”</p>
+            )}
+          </li>
+        ) : (
+          <li key={`${entry.escalation.stepId}-${entry.at}`} className="ml-4">
+            <div
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                entry.escalation.ok ? 'bg-forest-warning' : 'bg-forest-danger'
+              }`}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="flex items-center gap-1 text-sm font-medium">
+                <BellRing className="w-3 h-3" />
+                Escalated to {entry.escalation.recipient}
+              </span>
+              <span className="text-xs text-muted-foreground">{new Date(entry.at).toLocaleString()}</span>
+            </div>
+            <p className="text-sm mt-1">
+              via {channelLabel(entry.escalation.channel)}
+              {entry.escalation.target && <span className="text-muted-foreground"> ({entry.escalation.target})</span>}
+            </p>
+            <p className={`text-xs ${entry.escalation.ok ? 'text-muted-foreground' : 'text-forest-danger'}`}>
+              {entry.escalation.ok ? entry.escalation.message : `Not delivered: ${entry.escalation.message}`}
+            </p>
+          </li>
+        )
+      )}
+    </ol>
+  );
+};
+
+export default AlertTimeline;
@@ -18,7 +18,10 @@ import {
   TreePine, 
   FileText, 
   Settings,
-  Shield
+  Shield,
+  ShieldAlert,
+  ClipboardList,
+  Wrench
 } from 'lucide-react';
 
 const menuItems = [
@@ -32,6 +35,16 @@ const menuItems = [
     url: '/sensors',
     icon: Radar,
   },
+  {
+    title: 'Sensor Registry',
+    url: '/registry',
+    icon: ClipboardList,
+  },
+  {
+    title: 'Manage Sensors',
+    url: '/manage-sensors',
+    icon: Wrench,
+  },
   {
     title: 'Live Monitoring',
     url: '/monitoring',
@@ -42,6 +55,11 @@ const menuItems = [
     url: '/reports',
     icon: FileText,
   },
+  {
+    title: 'Data Quality',
+    url: '/data-quality',
+    icon: ShieldAlert,
+  },
   {
     title: 'Settings',
     url: '/settings',
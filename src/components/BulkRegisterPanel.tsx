@@ -0,0 +1,185 @@
+// src/components/BulkRegisterPanel.tsx
+// Register many devices from a CSV: upload, check the preview, then register the valid rows.
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { Download, FileUp, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  BULK_REGISTRATION_HEADER,
+  BulkRegistrationRow,
+  parseBulkRegistrationCsv,
+  registerDevices,
+} from '@/api/provisioning';
+import { SENSORS_QUERY_KEY } from '@/api/sensors';
+import { useSensors } from '@/hooks/use-sensors';
+import { useSensorRegistry } from '@/hooks/use-registry';
+import { downloadText } from '@/lib/download';
+
+const MAX_CSV_BYTES = 1024 * 1024;
+
+const TEMPLATE_CSV = `${BULK_REGISTRATION_HEADER}\nDEV-1001,30.0668,79.0193,Chopta ridge tower,Kedarnath\n`;
+
+const bulkFileSchema = z.object({
+  file: z
+    .custom<FileList>(value => value instanceof FileList && value.length === 1, 'Choose a CSV file')
+    .refine(files => !files?.[0] || files[0].size <= MAX_CSV_BYTES, 'File is larger than 1 MB'),
+});
+
+interface BulkFileValues {
+  file: FileList;
+}
+
+const BulkRegisterPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: sensors = [], isPending: fleetLoading, isError: fleetError } = useSensors();
+  const registry = useSensorRegistry();
+  const [rows, setRows] = useState<BulkRegistrationRow[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const form = useForm<BulkFileValues>({ resolver: zodResolver(bulkFileSchema) });
+
+  // Devices already known are skipped: posting them again would overwrite their record
+  const existing = new Set([
+    ...sensors.map(sensor => sensor.deviceId),
+    ...Object.values(registry)
+      .filter(entry => entry.decommissionedAt)
+      .map(entry => entry.deviceId),
+  ]);
+  const preview = rows.map(row =>
+    row.device && existing.has(row.device.deviceId) ? { row: row.row, error: `${row.device.deviceId} is already registered` } : row
+  );
+  const ready = preview.filter(row => row.device).map(row => row.device);
+
+  const onSubmit = async ({ file }: BulkFileValues) => {
+    try {
+      setRows(parseBulkRegistrationCsv(await file[0].text()));
+    } catch (error) {
+      setRows([]);
+      form.setError('file', { message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const register = async () => {
+    setProgress({ done: 0, total: ready.length });
+    const result = await registerDevices(ready, (done, total) => setProgress({ done, total }));
+    setProgress(null);
+    queryClient.invalidateQueries({ queryKey: SENSORS_QUERY_KEY });
+
+    if (result.failed.length === 0) {
+      toast.success(`Registered ${result.registered.length} sensors`);
+      setRows([]);
+      form.reset();
+    } else {
+      toast.warning(`Registered ${result.registered.length}, ${result.failed.length} failed`, {
+        description: result.failed.map(failure => `${failure.deviceId}: ${failure.message}`).join('; '),
+      });
+      // Keep only the failures on screen so they can be retried
+      const failedIds = new Set(result.failed.map(failure => failure.deviceId));
+      setRows(prev => prev.filter(row => row.device && failedIds.has(row.device.deviceId)));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-wrap items-end gap-4">
+          <FormField
+            control={form.control}
+            name="file"
+            render={({ field: { onChange, onBlur, name, ref } }) => (
+              <FormItem>
+                <FormLabel>CSV file</FormLabel>
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept=".csv,text/csv"
+                    name={name}
+                    ref={ref}
+                    onBlur={onBlur}
+                    onChange={e => onChange(e.target.files)}
+                    className="border-forest-accent/50"
+                  />
+                </FormControl>
+                <FormDescription>Columns: {BULK_REGISTRATION_HEADER}. Name and zone may be blank.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" variant="outline" className="border-forest-accent text-forest-primary hover:bg-forest-accent">
+            <FileUp className="w-4 h-4 mr-2" />
+            Check File
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => downloadText(TEMPLATE_CSV, 'sensor-template.csv', 'text/csv;charset=utf-8;')}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Template
+          </Button>
+        </form>
+      </Form>
+
+      {preview.length > 0 && (
+        <div className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>Device ID</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Zone</TableHead>
+                <TableHead>Check</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.map(row => (
+                <TableRow key={row.row}>
+                  <TableCell>{row.row}</TableCell>
+                  <TableCell className="font-mono">{row.device?.deviceId ?? '—'}</TableCell>
+                  <TableCell>{row.device?.name ?? '—'}</TableCell>
+                  <TableCell>{row.device ? `${row.device.latitude}, ${row.device.longitude}` : '—'}</TableCell>
+                  <TableCell>{row.device?.zone ?? '—'}</TableCell>
+                  <TableCell>
+                    {row.error ? (
+                      <span className="text-sm text-forest-danger">{row.error}</span>
+                    ) : (
+                      <Badge className="bg-forest-success text-white">Ready</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {progress && <Progress value={(progress.done / progress.total) * 100} />}
+          {fleetError && (
+            <p className="text-sm text-muted-foreground">
+              Could not load the sensor list; rows are checked with the server when you register.
+            </p>
+          )}
+
+          <Button
+            onClick={register}
+            disabled={ready.length === 0 || progress !== null || fleetLoading}
+            className="bg-forest-primary text-white hover:bg-forest-primary/90"
+          >
+            {progress ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Register {ready.length} Sensor{ready.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkRegisterPanel;
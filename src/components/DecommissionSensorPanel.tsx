@@ -0,0 +1,131 @@
+// src/components/DecommissionSensorPanel.tsx
+// Take a sensor out of service, and bring decommissioned ones back.
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from 'sonner';
+import { PowerOff, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { decommissionDevice, decommissionSchema, recommissionDevice } from '@/api/provisioning';
+import { useSensors } from '@/hooks/use-sensors';
+import { useSensorRegistry } from '@/hooks/use-registry';
+
+interface DecommissionValues {
+  deviceId: string;
+  confirmed: boolean;
+}
+
+const EMPTY_VALUES: DecommissionValues = { deviceId: '', confirmed: false };
+
+const DecommissionSensorPanel: React.FC = () => {
+  const { data: sensors = [] } = useSensors();
+  const registry = useSensorRegistry();
+  const decommissioned = Object.values(registry)
+    .filter(entry => entry.decommissionedAt)
+    .sort((a, b) => b.decommissionedAt.localeCompare(a.decommissionedAt));
+
+  const form = useForm<DecommissionValues>({
+    resolver: zodResolver(decommissionSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  const onSubmit = ({ deviceId }: DecommissionValues) => {
+    const sensor = sensors.find(candidate => candidate.deviceId === deviceId);
+    decommissionDevice(deviceId);
+    toast.success(`Decommissioned ${sensor?.name || deviceId}`);
+    form.reset(EMPTY_VALUES);
+  };
+
+  const recommission = (deviceId: string) => {
+    recommissionDevice(deviceId);
+    toast.success(`${registry[deviceId]?.name || deviceId} is back in service`);
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            A decommissioned sensor drops off the map, counts and alerts on this dashboard. Its history and registry
+            entry are kept, and it can be brought back at any time.
+          </p>
+          <FormField
+            control={form.control}
+            name="deviceId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Sensor</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="border-forest-accent/50">
+                      <SelectValue placeholder="Choose a sensor" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {sensors.map(sensor => (
+                      <SelectItem key={sensor.deviceId} value={sensor.deviceId}>
+                        {sensor.name || sensor.deviceId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmed"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center gap-2">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">The sensor has been taken down or is out of service</FormLabel>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="bg-forest-danger text-white hover:bg-forest-danger/90">
+            <PowerOff className="w-4 h-4 mr-2" />
+            Decommission
+          </Button>
+        </form>
+      </Form>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-forest-primary">Decommissioned sensors</p>
+        {decommissioned.length === 0 ? (
+          <p className="text-sm text-muted-foreground">None.</p>
+        ) : (
+          decommissioned.map(entry => (
+            <div key={entry.deviceId} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+              <div>
+                <p className="font-medium">{entry.name || entry.deviceId}</p>
+                <p className="text-xs text-muted-foreground">
+                  Since {new Date(entry.decommissionedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                onClick={() => recommission(entry.deviceId)}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Recommission
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DecommissionSensorPanel;
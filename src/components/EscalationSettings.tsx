@@ -0,0 +1,210 @@
+// src/components/EscalationSettings.tsx
+// Settings card for the escalation chain of unacknowledged fire alerts.
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ArrowUpCircle, Plus, Save, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createEscalationStep, setEscalationPolicy } from '@/api/escalation';
+import { clearOutbox, NOTIFIER_CHANNELS, sendNotification } from '@/api/notifiers';
+import { useEscalationPolicy, useNotifierOutbox } from '@/hooks/use-escalation';
+import { EscalationPolicy, EscalationStep, NotifierChannel } from '@/types/alert';
+
+const OUTBOX_PREVIEW_COUNT = 5;
+
+const EscalationSettings: React.FC = () => {
+  const policy = useEscalationPolicy();
+  const outbox = useNotifierOutbox();
+  const [draft, setDraft] = useState<EscalationPolicy>(policy);
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const updateStep = (id: string, changes: Partial<EscalationStep>) => {
+    setDraft(prev => ({
+      ...prev,
+      steps: prev.steps.map(step => (step.id === id ? { ...step, ...changes } : step)),
+    }));
+  };
+
+  const removeStep = (id: string) => {
+    setDraft(prev => ({ ...prev, steps: prev.steps.filter(step => step.id !== id) }));
+  };
+
+  const handleSave = () => {
+    if (draft.steps.some(step => !(step.afterMinutes > 0))) {
+      toast.error('Each step needs a delay of at least one minute');
+      return;
+    }
+    setEscalationPolicy(draft);
+    toast.success('Escalation chain saved');
+  };
+
+  const sendTest = async (step: EscalationStep) => {
+    const result = await sendNotification(
+      step.channel,
+      {
+        alertId: 'test',
+        deviceId: 'TEST',
+        recipient: step.recipient,
+        minutesUnacknowledged: step.afterMinutes,
+        trigger: { deviceId: 'TEST', timestamp: new Date().toISOString(), temp: 0, humidity: 0, smoke: 0, isFire: false },
+        text: `Test escalation for ${step.recipient || 'this step'} from the fire monitoring dashboard.`,
+      },
+      step.target
+    );
+    if (result.ok) {
+      toast.success(`Test sent: ${result.message}`);
+    } else {
+      toast.error(`Test failed: ${result.message}`);
+    }
+  };
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(policy);
+
+  return (
+    <Card className="glass-card border-forest-accent/30 mt-6">
+      <CardHeader>
+        <CardTitle className="text-forest-primary flex items-center gap-2">
+          <ArrowUpCircle className="w-5 h-5" />
+          Escalation
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Who else is notified while a fire alert stays unacknowledged. Each step fires once per alert.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="escalationEnabled" className="text-forest-primary">Escalate unacknowledged alerts</Label>
+            <p className="text-xs text-muted-foreground">Runs while this dashboard is open in at least one tab.</p>
+          </div>
+          <Switch
+            id="escalationEnabled"
+            checked={draft.enabled}
+            onCheckedChange={checked => setDraft(prev => ({ ...prev, enabled: checked }))}
+          />
+        </div>
+
+        <div className="space-y-3">
+          {draft.steps.map(step => {
+            const channel = NOTIFIER_CHANNELS.find(option => option.value === step.channel);
+            return (
+              <div key={step.id} className="grid gap-2 md:grid-cols-[6rem_1fr_8rem_1fr_auto] items-end p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">After (min)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={step.afterMinutes}
+                    onChange={e => updateStep(step.id, { afterMinutes: Number(e.target.value) })}
+                    className="border-forest-accent/50"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Notify</Label>
+                  <Input
+                    value={step.recipient}
+                    onChange={e => updateStep(step.id, { recipient: e.target.value })}
+                    placeholder="Range Officer"
+                    className="border-forest-accent/50"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Via</Label>
+                  <Select
+                    value={step.channel}
+                    onValueChange={value => updateStep(step.id, { channel: value as NotifierChannel })}
+                  >
+                    <SelectTrigger className="border-forest-accent/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NOTIFIER_CHANNELS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">To</Label>
+                  <Input
+                    value={step.target}
+                    onChange={e => updateStep(step.id, { target: e.target.value })}
+                    placeholder={channel?.placeholder}
+                    className="border-forest-accent/50"
+                  />
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Send a test message"
+                    className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                    onClick={() => sendTest(step)}
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Remove step"
+                    className="border-forest-danger text-forest-danger hover:bg-forest-danger hover:text-white"
+                    onClick={() => removeStep(step.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+          {draft.steps.length === 0 && (
+            <p className="text-sm text-muted-foreground">No escalation steps. Alerts only notify this dashboard.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => setDraft(prev => ({ ...prev, steps: [...prev.steps, createEscalationStep()] }))}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Step
+          </Button>
+          <Button onClick={handleSave} disabled={!dirty} className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+
+        {outbox.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-forest-primary">Local outbox (email and SMS stubs)</Label>
+              <Button variant="ghost" size="sm" onClick={clearOutbox}>
+                Clear
+              </Button>
+            </div>
+            {outbox.slice(0, OUTBOX_PREVIEW_COUNT).map(entry => (
+              <div key={`${entry.sentAt}-${entry.target}`} className="text-xs p-2 border rounded bg-white">
+                <div className="flex justify-between text-muted-foreground">
+                  <span>{entry.channel.toUpperCase()} to {entry.target}</span>
+                  <span>{new Date(entry.sentAt).toLocaleString()}</span>
+                </div>
+                <p className="mt-1">{entry.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EscalationSettings;
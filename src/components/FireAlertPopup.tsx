@@ -8,26 +8,32 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { SensorData } from '@/types/sensor';
+import { FireAlertRecord } from '@/types/alert';
+import { describePlacement } from '@/api/registry';
+import AlertLifecycleControls from '@/components/AlertLifecycleControls';
 import { MapPin, Activity, X } from 'lucide-react';
 
 interface FireAlertPopupProps {
   alerts: SensorData[];
-  onViewInMap: (sensorId: string) => void;
+  onViewInMap: (deviceId: string) => void;
   onLiveMonitoring: (sensorId: string) => void; // Add this back
   onClose: () => void;
+  // Lifecycle record of each alert, keyed by deviceId
+  records?: Record<string, FireAlertRecord>;
 }
 
 const FireAlertPopup: React.FC<FireAlertPopupProps> = ({
   alerts,
   onViewInMap,
   onLiveMonitoring, // Add this back
-  onClose
+  onClose,
+  records = {}
 }) => {
   if (!alerts || alerts.length === 0) return null;
 
   return (
     <Dialog open={true} onOpenChange={onClose}>
-      <DialogContent className="glass-card border-forest-danger max-w-md">
+      <DialogContent className="glass-card border-forest-danger max-w-md max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex justify-between items-center">
             <DialogTitle className="text-forest-danger flex items-center">
@@ -55,6 +61,13 @@ const FireAlertPopup: React.FC<FireAlertPopupProps> = ({
               <h4 className="font-medium text-forest-primary">
                 {alert.name || `Sensor ${alert.deviceId}`}
               </h4>
+              {alert.registry && (describePlacement(alert.registry) || alert.registry.custodian) && (
+                <p className="text-xs text-muted-foreground">
+                  {[describePlacement(alert.registry), alert.registry.custodian && `Custodian: ${alert.registry.custodian}`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              )}
               <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
                 <div>
                   <span className="text-muted-foreground">Temp:</span>
@@ -72,9 +85,15 @@ const FireAlertPopup: React.FC<FireAlertPopupProps> = ({
                 </div>
               </div>
               
+              {records[alert.deviceId] && (
+                <div className="mt-3 pt-3 border-t border-forest-danger/20">
+                  <AlertLifecycleControls alert={records[alert.deviceId]} />
+                </div>
+              )}
+
               <div className="flex gap-2 mt-3">
                 <Button 
-                  onClick={() => onViewInMap(alert.id)}
+                  onClick={() => onViewInMap(alert.deviceId)}
                   variant="outline"
                   size="sm"
                   className="flex-1 border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white text-xs"
@@ -0,0 +1,178 @@
+// src/components/FireAlertWatcher.tsx
+// Mounted once in App so new fires get attention on every route: popup, desktop notification,
+// siren and a flashing tab title. The siren and title keep going while any alert is still new,
+// and alerts left unacknowledged are escalated along the configured chain. Sensors trending toward
+// a fire get an earlier, quieter pre-fire warning.
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { getOperatorName, raiseFireAlerts, transitionAlert } from '@/api/alerts';
+import { runEscalations } from '@/api/escalation';
+import { isPreFire } from '@/api/statusRules';
+import { evaluateSensor } from '@/api/zones';
+import { useOpenAlertsByDevice } from '@/hooks/use-alerts';
+import { useSensors } from '@/hooks/use-sensors';
+import { useAlertSettings } from '@/hooks/use-alert-settings';
+import { getAlertSettings } from '@/lib/alertSettings';
+import { startSiren, unlockAudio } from '@/lib/siren';
+import { SensorData } from '@/types/sensor';
+import FireAlertPopup from '@/components/FireAlertPopup';
+
+const TITLE_FLASH_MS = 1000;
+const ESCALATION_CHECK_MS = 15000;
+
+const showFireNotification = (sensor: SensorData, onClick: () => void) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(`🔥 Fire detected at ${sensor.deviceId}`, {
+    body: `Temperature ${sensor.temp}°C, smoke ${sensor.smoke} ppm`,
+    icon: '/icons/icon.svg',
+    // Same tag as the service worker's background alerts, so one device never shows twice
+    tag: `fire-${sensor.deviceId}`,
+    requireInteraction: true,
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+};
+
+const showPreFireNotification = (sensor: SensorData, onClick: () => void) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(`Pre-fire warning at ${sensor.deviceId}`, {
+    body: `Readings are rising fast: temperature ${sensor.temp}°C, smoke ${sensor.smoke} ppm`,
+    icon: '/icons/icon.svg',
+    tag: `prefire-${sensor.deviceId}`,
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+};
+
+const FireAlertWatcher: React.FC = () => {
+  const navigate = useNavigate();
+  const settings = useAlertSettings();
+  const { data: sensors } = useSensors({ refetchInterval: 30000 });
+  const onFireRef = useRef<Set<string> | null>(null);
+  const preFireRef = useRef<Set<string>>(new Set());
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const openAlerts = useOpenAlertsByDevice();
+
+  // Compare per device so a fire going out elsewhere can't mask a new one
+  useEffect(() => {
+    if (!sensors) return;
+
+    const previouslyOnFire = onFireRef.current;
+    onFireRef.current = new Set(sensors.filter(sensor => sensor.isFire).map(sensor => sensor.deviceId));
+    const { notify, pending } = raiseFireAlerts(sensors, previouslyOnFire);
+    if (pending.length === 0) return;
+
+    setPendingIds(prev => [...prev, ...pending.map(sensor => sensor.deviceId).filter(id => !prev.includes(id))]);
+    if (getAlertSettings().desktopNotifications) {
+      notify.forEach(sensor =>
+        showFireNotification(sensor, () => navigate(`/monitoring/${encodeURIComponent(sensor.deviceId)}`))
+      );
+    }
+  }, [sensors, navigate]);
+
+  // Warn once per episode: a device is warned again only after it has dropped out of pre-fire
+  useEffect(() => {
+    if (!sensors) return;
+
+    const preFire = sensors.filter(sensor => isPreFire(evaluateSensor(sensor), sensor));
+    const newlyPreFire = preFire.filter(sensor => !preFireRef.current.has(sensor.deviceId));
+    preFireRef.current = new Set(preFire.map(sensor => sensor.deviceId));
+    if (newlyPreFire.length === 0 || !getAlertSettings().preFireWarnings) return;
+
+    newlyPreFire.forEach(sensor => {
+      const open = () => navigate(`/monitoring/${encodeURIComponent(sensor.deviceId)}`);
+      toast.warning(`Pre-fire warning at ${sensor.deviceId}`, {
+        description: `Temperature ${sensor.temp}°C, smoke ${sensor.smoke} ppm and rising`,
+        action: { label: 'View', onClick: open },
+      });
+      if (getAlertSettings().desktopNotifications) showPreFireNotification(sensor, open);
+    });
+  }, [sensors, navigate]);
+
+  // Show the latest reading of each device raised since the popup was last closed
+  const alerts = useMemo(
+    () => pendingIds.map(id => sensors?.find(sensor => sensor.deviceId === id)).filter(Boolean),
+    [pendingIds, sensors]
+  );
+  const unacknowledged = alerts.filter(alert => openAlerts[alert.deviceId]?.state === 'new');
+  const alerting = unacknowledged.length > 0;
+
+  // Also catches up on steps that came due while the dashboard was closed
+  useEffect(() => {
+    const check = () => {
+      runEscalations().catch(error => console.warn('Alert escalation failed:', error));
+    };
+    check();
+    const timer = setInterval(check, ESCALATION_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('pointerdown', unlockAudio);
+    window.addEventListener('keydown', unlockAudio);
+    return () => {
+      window.removeEventListener('pointerdown', unlockAudio);
+      window.removeEventListener('keydown', unlockAudio);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!alerting || !settings.sirenEnabled) return;
+    return startSiren(settings.sirenPattern, settings.sirenVolume);
+  }, [alerting, settings.sirenEnabled, settings.sirenPattern, settings.sirenVolume]);
+
+  const titleMessage = alerting ? `🔥 FIRE: ${unacknowledged.map(alert => alert.deviceId).join(', ')}` : '';
+
+  useEffect(() => {
+    if (!titleMessage || !settings.flashTitle) return;
+
+    const originalTitle = document.title;
+    let showMessage = false;
+    const timer = setInterval(() => {
+      showMessage = !showMessage;
+      document.title = showMessage ? titleMessage : originalTitle;
+    }, TITLE_FLASH_MS);
+
+    return () => {
+      clearInterval(timer);
+      document.title = originalTitle;
+    };
+  }, [titleMessage, settings.flashTitle]);
+
+  // Dismissing the popup counts as seeing it, so it is recorded rather than lost
+  const acknowledge = () => {
+    unacknowledged.forEach(alert => {
+      transitionAlert(openAlerts[alert.deviceId].id, 'acknowledged', getOperatorName(), 'Acknowledged from the fire alert popup');
+    });
+    setPendingIds([]);
+  };
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <FireAlertPopup
+      alerts={alerts}
+      records={openAlerts}
+      onViewInMap={deviceId => {
+        acknowledge();
+        navigate(`/?sensor=${encodeURIComponent(deviceId)}`);
+      }}
+      onLiveMonitoring={deviceId => {
+        acknowledge();
+        navigate(`/monitoring/${encodeURIComponent(deviceId)}`);
+      }}
+      onClose={acknowledge}
+    />
+  );
+};
+
+export default FireAlertWatcher;
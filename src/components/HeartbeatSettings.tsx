@@ -0,0 +1,96 @@
+// src/components/HeartbeatSettings.tsx
+// Settings card for how often each sensor is expected to report.
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { HeartPulse, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { setDefaultReportInterval, setReportInterval } from '@/api/heartbeat';
+import { useHeartbeatSettings } from '@/hooks/use-heartbeat';
+import { useSensors } from '@/hooks/use-sensors';
+
+const HeartbeatSettings: React.FC = () => {
+  const settings = useHeartbeatSettings();
+  const { data: sensors = [] } = useSensors();
+  const [defaultInterval, setDefaultInterval] = useState(String(settings.defaultIntervalMinutes));
+  // Blank means the device uses the default
+  const [intervals, setIntervals] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDefaultInterval(String(settings.defaultIntervalMinutes));
+    setIntervals(
+      Object.fromEntries(Object.entries(settings.intervals).map(([deviceId, minutes]) => [deviceId, String(minutes)]))
+    );
+  }, [settings]);
+
+  const handleSave = () => {
+    const values = [defaultInterval, ...Object.values(intervals).filter(Boolean)].map(Number);
+    if (values.some(minutes => !(minutes > 0))) {
+      toast.error('Reporting intervals must be more than zero minutes');
+      return;
+    }
+
+    setDefaultReportInterval(Number(defaultInterval));
+    const deviceIds = new Set([...Object.keys(settings.intervals), ...Object.keys(intervals)]);
+    deviceIds.forEach(deviceId => setReportInterval(deviceId, intervals[deviceId] ? Number(intervals[deviceId]) : null));
+    toast.success('Reporting intervals saved');
+  };
+
+  return (
+    <Card className="glass-card border-forest-accent/30 mt-6">
+      <CardHeader>
+        <CardTitle className="text-forest-primary flex items-center gap-2">
+          <HeartPulse className="w-5 h-5" />
+          Sensor Heartbeat
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          How often sensors should report. A sensor is late after 1.5 missed intervals, stale after 3 and offline
+          after 12; stale and offline sensors stop counting as active.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="defaultReportInterval" className="text-forest-primary">Default interval (minutes)</Label>
+          <Input
+            id="defaultReportInterval"
+            type="number"
+            min={1}
+            value={defaultInterval}
+            onChange={e => setDefaultInterval(e.target.value)}
+            className="border-forest-accent/50"
+          />
+        </div>
+
+        {sensors.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-forest-primary">Per sensor</Label>
+            <div className="grid gap-2 md:grid-cols-2">
+              {sensors.map(sensor => (
+                <div key={sensor.deviceId} className="flex items-center justify-between gap-3 p-2 border rounded-lg">
+                  <span className="text-sm">{sensor.name || sensor.deviceId}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={intervals[sensor.deviceId] ?? ''}
+                    placeholder={defaultInterval}
+                    onChange={e => setIntervals(prev => ({ ...prev, [sensor.deviceId]: e.target.value }))}
+                    className="border-forest-accent/50 w-24"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleSave} className="bg-forest-primary text-white hover:bg-forest-primary/90">
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HeartbeatSettings;
@@ -0,0 +1,34 @@
+// src/components/HeatmapLegend.tsx
+// Color scale for the reading heatmap, drawn over the map while the overlay is on.
+import React from 'react';
+import { HEATMAP_RAMP, HEATMAP_SCALES } from '@/api/heatmap';
+import { HeatmapMetric } from '@/types/mapLayers';
+
+interface HeatmapLegendProps {
+  metric: HeatmapMetric;
+  className?: string;
+}
+
+const RAMP_GRADIENT = `linear-gradient(to right, ${HEATMAP_RAMP.map(([r, g, b]) => `rgb(${r},${g},${b})`).join(', ')})`;
+
+const HeatmapLegend: React.FC<HeatmapLegendProps> = ({ metric, className = '' }) => {
+  const scale = HEATMAP_SCALES[metric];
+  // The ramp always runs from low to high risk, so dry air sits at the red end
+  const [low, high] = scale.inverted ? [scale.max, scale.min] : [scale.min, scale.max];
+
+  return (
+    <div className={`glass-card p-2 w-48 ${className}`}>
+      <p className="text-xs font-semibold text-forest-primary">
+        {scale.label} ({scale.unit})
+      </p>
+      <div className="h-2 rounded mt-1" style={{ background: RAMP_GRADIENT }} />
+      <div className="flex justify-between text-[10px] text-muted-foreground mt-0.5">
+        <span>{low}</span>
+        <span>{high}</span>
+      </div>
+      <p className="text-[10px] text-muted-foreground mt-1">Latest readings; fades away from reporting sensors</p>
+    </div>
+  );
+};
+
+export default HeatmapLegend;
@@ -1,14 +1,49 @@
 // src/components/LeafletMap.tsx
-import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
+import React, { useEffect, useMemo, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { SensorData } from '@/types/sensor';
+import { HeartbeatState, SensorData } from '@/types/sensor';
+import { ALERT_STATE_LABELS } from '@/api/alerts';
+import { formatSince, getHeartbeat, HEARTBEAT_LABELS, isReporting } from '@/api/heartbeat';
+import { describePlacement } from '@/api/registry';
+import { getRuleZones, ZONE_KINDS } from '@/api/zones';
+import { DEFAULT_LAYER_CHOICES, resolveBasemap, ROADS_TILES, SENSOR_COVERAGE_RADIUS_M } from '@/api/mapLayers';
+import { BoundingBox, snapBoundingBox, WATER_SOURCES_MIN_ZOOM } from '@/api/waterSources';
+import { compareStatusLevels, evaluateStatus, STATUS_LEVEL_LABELS } from '@/api/statusRules';
+import { FleetHistory } from '@/api/playback';
+import { useOpenAlertsByDevice } from '@/hooks/use-alerts';
+import { useStatusRules } from '@/hooks/use-status-rules';
+import { useHeartbeatClock, useHeartbeatSettings } from '@/hooks/use-heartbeat';
+import { useMapProviderSettings, useWaterSources } from '@/hooks/use-map-layers';
+import MapLayerControl from '@/components/MapLayerControl';
+import HeatmapLegend from '@/components/HeatmapLegend';
+import { STATUS_LEVEL_COLORS } from '@/lib/statusStyles';
+import { groupByCell } from '@/lib/markerClusters';
+import { paintHeatmap } from '@/lib/heatmapLayer';
+import { MapView } from '@/lib/urlState';
+import { StatusLevel } from '@/types/statusRules';
+import { ForestZone, ZoneAggregate } from '@/types/zone';
+import { MapLayerChoices, OverlayId, TileSource, WaterSource } from '@/types/mapLayers';
 
 interface LeafletMapProps {
   sensors: SensorData[];
   onSensorClick?: (sensor: SensorData) => void;
   selectedSensorId?: string;
   className?: string;
+  // View to open at instead of fitting the network, e.g. from a shared link
+  initialView?: MapView;
+  onViewChange?: (view: MapView) => void;
+  layers?: MapLayerChoices;
+  // Shows the layer picker; without it the map keeps the layers it was given
+  onLayersChange?: (layers: MapLayerChoices) => void;
+  zones?: ForestZone[];
+  zoneAggregates?: ZoneAggregate[];
+  // While true, clicks add outline vertices instead of selecting sensors
+  drawingZone?: boolean;
+  onZoneDrawn?: (points: { lat: number; lng: number }[]) => void;
+  onZoneDrawCancel?: () => void;
+  // Replaying the past: sensors carry their readings at time, judged against this history
+  playback?: { time: number; history: FleetHistory };
 }
 
 // Utility function to create base64 SVG icons
@@ -22,21 +57,67 @@ const toBase64 = (str: string): string => {
   }
 };
 
+const OFFLINE_COLOR = '#6b7280';
+
+// Outline and fading for devices that stopped reporting, so old readings don't pass for live ones
+const HEARTBEAT_ICON_STYLES: Record<HeartbeatState, { stroke: string; dash: string; opacity: number }> = {
+  fresh: { stroke: 'white', dash: '', opacity: 1 },
+  late: { stroke: '#f59e0b', dash: '4 2', opacity: 1 },
+  stale: { stroke: OFFLINE_COLOR, dash: '4 2', opacity: 0.5 },
+  offline: { stroke: OFFLINE_COLOR, dash: '', opacity: 0.6 },
+};
+
+// Names and registry fields are typed in by people, and popups are plain HTML
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const EMPTY_ZONE_COLOR = '#94a3b8';
+const COVERAGE_COLOR = '#166534';
+const WATER_COLOR = '#0284c7';
+
+const WATER_KIND_LABELS: Record<WaterSource['kind'], string> = {
+  hydrant: 'Fire hydrant',
+  tank: 'Water tank',
+  reservoir: 'Reservoir',
+  water: 'Water body',
+};
+
+const createTileLayer = (source: TileSource) =>
+  L.tileLayer(source.url, {
+    attribution: source.attribution,
+    maxZoom: source.maxZoom,
+    ...(source.tileSize ? { tileSize: source.tileSize, zoomOffset: source.zoomOffset } : {}),
+  });
+
+const toBoundingBox = (bounds: L.LatLngBounds): BoundingBox => ({
+  south: bounds.getSouth(),
+  west: bounds.getWest(),
+  north: bounds.getNorth(),
+  east: bounds.getEast(),
+});
+const DRAW_COLOR = '#166534';
+// Consecutive clicks closer than this are one vertex; a double-click to finish also clicks twice
+const DRAW_VERTEX_TOLERANCE_PX = 6;
+
+const describeZone = (zone: ForestZone, aggregate?: ZoneAggregate) => {
+  const kind = ZONE_KINDS.find(option => option.value === zone.kind)?.label ?? escapeHtml(zone.kind);
+  const stats = aggregate
+    ? `${aggregate.sensorCount} sensors · ${aggregate.activeFires} active fires · ${STATUS_LEVEL_LABELS[aggregate.worstLevel]}`
+    : '';
+  return `<strong>${escapeHtml(zone.name)}</strong> (${kind})${stats ? `<br/>${stats}` : ''}`;
+};
+
 // Create sensor icon based on status
-const createSensorIcon = (sensor: SensorData, isSelected: boolean = false) => {
+const createSensorIcon = (sensor: SensorData, level: StatusLevel, heartbeat: HeartbeatState, isSelected: boolean = false) => {
   const size = isSelected ? 30 : 20;
-  let color = '#22c55e'; // green for normal
-  
-  if (sensor.isFire) {
-    color = '#ef4444'; // red for fire
-  } else if (sensor.status === 'warning' || sensor.temp > 35 || sensor.smoke > 50) {
-    color = '#f59e0b'; // orange for warning
-  }
+  const color = heartbeat === 'offline' ? OFFLINE_COLOR : STATUS_LEVEL_COLORS[level];
+  const style = HEARTBEAT_ICON_STYLES[heartbeat];
 
-  const svgString = `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-    <circle cx="12" cy="12" r="10" fill="${color}" stroke="white" stroke-width="2"/>
+  const svgString = `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" opacity="${style.opacity}">
+    <circle cx="12" cy="12" r="10" fill="${color}" stroke="${style.stroke}" stroke-width="2"${style.dash ? ` stroke-dasharray="${style.dash}"` : ''}/>
     <circle cx="12" cy="12" r="6" fill="white" fill-opacity="0.3"/>
     ${sensor.isFire ? '<path d="M12 6v6l4 2" stroke="white" stroke-width="2" stroke-linecap="round"/>' : ''}
+    ${heartbeat === 'offline' ? '<path d="M7 7l10 10" stroke="white" stroke-width="2" stroke-linecap="round"/>' : ''}
   </svg>`;
 
   const dataUrl = `data:image/svg+xml;base64,${toBase64(svgString)}`;
@@ -49,21 +130,166 @@ const createSensorIcon = (sensor: SensorData, isSelected: boolean = false) => {
   });
 };
 
+// Past this zoom every sensor is drawn on its own
+const CLUSTER_MAX_ZOOM = 14;
+const CLUSTER_CELL_PX = 60;
+const SELECTED_ZOOM = 12;
+
+interface MarkerEntry {
+  marker: L.Marker;
+  circle?: L.Circle;
+  sensor: SensorData;
+  level: StatusLevel;
+  // What the icon and popup were last built from, to skip untouched markers
+  iconKey: string;
+  popup: string;
+}
+
+// Clusters take the color of their worst sensor and carry a flame badge while any of them burns
+const createClusterIcon = (entries: MarkerEntry[]) => {
+  const worst = entries
+    .map(entry => entry.level)
+    .reduce<StatusLevel>((acc, level) => (compareStatusLevels(level, acc) > 0 ? level : acc), 'normal');
+  const fires = entries.filter(entry => entry.sensor.isFire).length;
+  const size = entries.length < 10 ? 32 : entries.length < 100 ? 38 : 44;
+  const color = STATUS_LEVEL_COLORS[worst];
+
+  return L.divIcon({
+    className: '',
+    html: `<div style="position:relative;width:${size}px;height:${size}px;border-radius:50%;background:${color};border:3px solid white;box-shadow:0 0 0 2px ${color}66${fires ? ',0 0 12px 4px #ef4444aa' : ''};color:white;font-weight:700;font-size:13px;display:flex;align-items:center;justify-content:center">
+      ${entries.length}
+      ${fires ? `<span style="position:absolute;top:-8px;right:-10px;background:#ef4444;border:2px solid white;border-radius:9999px;padding:0 4px;font-size:10px;line-height:14px">🔥${fires}</span>` : ''}
+    </div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+// Show each sensor on its own or folded into a cluster for the current zoom. Individual markers
+// already on the map are left alone, so an open popup survives a refetch.
+const renderClusters = (
+  map: L.Map,
+  layers: { markers: L.LayerGroup; clusters: L.LayerGroup },
+  entries: MarkerEntry[],
+  selectedSensorId?: string
+) => {
+  const zoom = map.getZoom();
+  const groups =
+    zoom > CLUSTER_MAX_ZOOM
+      ? entries.map(entry => [entry])
+      : groupByCell(
+          entries,
+          entry => map.project(entry.marker.getLatLng(), zoom),
+          CLUSTER_CELL_PX,
+          entry => entry.sensor.id === selectedSensorId
+        );
+
+  const visible = new Set<L.Marker>();
+  layers.clusters.clearLayers();
+
+  groups.forEach(group => {
+    if (group.length === 1) {
+      visible.add(group[0].marker);
+      if (!layers.markers.hasLayer(group[0].marker)) layers.markers.addLayer(group[0].marker);
+      return;
+    }
+
+    const bounds = L.latLngBounds(group.map(entry => entry.marker.getLatLng()));
+    const fires = group.filter(entry => entry.sensor.isFire).length;
+    L.marker(bounds.getCenter(), { icon: createClusterIcon(group) })
+      .bindTooltip(`${group.length} sensors${fires ? ` · ${fires} active fire${fires === 1 ? '' : 's'}` : ''}`)
+      .on('click', () => map.fitBounds(bounds.pad(0.2)))
+      .addTo(layers.clusters);
+  });
+
+  entries.forEach(entry => {
+    if (!visible.has(entry.marker)) layers.markers.removeLayer(entry.marker);
+  });
+};
+
 export interface LeafletMapHandle {
   zoomToSensor: (sensor: SensorData) => void;
+  fitToSensors: () => void;
 }
 
 const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({ 
   sensors, 
   onSensorClick, 
   selectedSensorId,
-  className = ""
+  className = "",
+  initialView,
+  onViewChange,
+  layers = DEFAULT_LAYER_CHOICES,
+  onLayersChange,
+  zones = [],
+  zoneAggregates = [],
+  drawingZone = false,
+  onZoneDrawn,
+  onZoneDrawCancel,
+  playback
 }, ref) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
-  const markersRef = useRef<L.Marker[]>([]);
-  const circlesRef = useRef<L.Circle[]>([]);
+  const markersRef = useRef(new Map<string, MarkerEntry>());
+  const markerLayersRef = useRef<{ markers: L.LayerGroup; clusters: L.LayerGroup } | null>(null);
+  const circleLayerRef = useRef<L.LayerGroup | null>(null);
+  // Only the view the map mounted with counts; later ones come from the map itself
+  const initialViewRef = useRef(initialView);
+  // A shared view is already where the user wants to be
+  const hasFittedRef = useRef(!!initialView);
+  // ...and so is a sensor selected along with it
+  const focusedSensorIdRef = useRef(initialView ? selectedSensorId : undefined);
+  // Markers outlive renders, so their click handlers read the latest callback and selection here
+  const onSensorClickRef = useRef(onSensorClick);
+  onSensorClickRef.current = onSensorClick;
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+  const selectedSensorIdRef = useRef(selectedSensorId);
+  selectedSensorIdRef.current = selectedSensorId;
+  const zoneLayerRef = useRef<L.LayerGroup | null>(null);
+  const baseLayerRef = useRef<L.TileLayer | null>(null);
+  const roadsLayerRef = useRef<L.TileLayer | null>(null);
+  const coverageLayerRef = useRef<L.LayerGroup | null>(null);
+  const waterLayerRef = useRef<L.LayerGroup | null>(null);
+  const heatmapLayerRef = useRef<L.ImageOverlay | null>(null);
+  // Snapped area and zoom on screen, for the water sources overlay; also repaints the heatmap
+  const [viewport, setViewport] = useState<{ box: BoundingBox; zoom: number } | null>(null);
+  // Drawing handlers stay bound for the whole session, so they read the latest callbacks here
+  const drawCallbacksRef = useRef({ onZoneDrawn, onZoneDrawCancel });
+  drawCallbacksRef.current = { onZoneDrawn, onZoneDrawCancel };
   const [mapReady, setMapReady] = useState(false);
+  const openAlerts = useOpenAlertsByDevice();
+  const statusRules = useStatusRules();
+  // Rule evaluation walks each sensor's zones and history, so it is redone when the fleet, zones,
+  // rules or playback change rather than on every selection or alert update
+  const sensorLevels = useMemo(
+    () =>
+      new Map<string, StatusLevel>(
+        sensors.map(sensor => [
+          sensor.id,
+          evaluateStatus(sensor, {
+            deviceId: sensor.deviceId,
+            zones: getRuleZones(sensor, zones),
+            history: playback?.history[sensor.deviceId],
+            config: statusRules,
+          }).level,
+        ])
+      ),
+    [sensors, zones, playback, statusRules]
+  );
+  const heartbeatSettings = useHeartbeatSettings();
+  const clock = useHeartbeatClock();
+  const now = playback?.time ?? clock;
+  // Only revisit markers when some device changes heartbeat state, not on every clock tick
+  const heartbeatStates = sensors.map(sensor => getHeartbeat(sensor, now, heartbeatSettings).state).join();
+  const providerSettings = useMapProviderSettings();
+  const showOverlay = (overlay: OverlayId) => layers.overlays.includes(overlay);
+  const showCoverage = showOverlay('coverage');
+  const showHeatmap = showOverlay('heatmap');
+  const waterInView = viewport !== null && viewport.zoom >= WATER_SOURCES_MIN_ZOOM;
+  const { data: waterSources, isFetching: isFetchingWater, isError: waterFailed } = useWaterSources(
+    showOverlay('water') && waterInView ? viewport.box : null
+  );
 
   useEffect(() => {
     if (!mapRef.current || mapInstanceRef.current) return;
@@ -76,17 +302,45 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
       scrollWheelZoom: true,
       doubleClickZoom: true,
       boxZoom: true
-    }).setView([30.0668, 79.0193], 8); // Center of Uttarakhand
-
-    // Add tile layer
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-      maxZoom: 19
-    }).addTo(mapInstance);
+    }).setView(initialViewRef.current?.center ?? [30.0668, 79.0193], initialViewRef.current?.zoom ?? 8); // Center of Uttarakhand
 
+    // The basemap tile layer follows the layer choices, see below
     // Add zoom control to bottom right
     mapInstance.zoomControl.setPosition('bottomright');
 
+    // Zones sit under the alert circles and markers
+    mapInstance.createPane('zones').style.zIndex = '350';
+    zoneLayerRef.current = L.layerGroup();
+    coverageLayerRef.current = L.layerGroup();
+    circleLayerRef.current = L.layerGroup();
+    waterLayerRef.current = L.layerGroup();
+    // Painted on demand below; the empty image keeps the layer valid until then
+    heatmapLayerRef.current = L.imageOverlay(
+      'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+      mapInstance.getBounds(),
+      { pane: 'zones', interactive: false }
+    );
+    const markerLayers = {
+      markers: L.layerGroup().addTo(mapInstance),
+      clusters: L.layerGroup().addTo(mapInstance),
+    };
+    markerLayersRef.current = markerLayers;
+    const markers = markersRef.current;
+
+    // Clusters depend on the zoom, so regroup whenever it settles
+    mapInstance.on('zoomend', () => {
+      renderClusters(mapInstance, markerLayers, [...markers.values()], selectedSensorIdRef.current);
+    });
+    const reportView = () => {
+      setViewport({ box: snapBoundingBox(toBoundingBox(mapInstance.getBounds())), zoom: mapInstance.getZoom() });
+    };
+    mapInstance.on('moveend', () => {
+      const center = mapInstance.getCenter();
+      onViewChangeRef.current?.({ center: [center.lat, center.lng], zoom: mapInstance.getZoom() });
+      reportView();
+    });
+    reportView();
+
     mapInstanceRef.current = mapInstance;
     setMapReady(true);
 
@@ -99,44 +353,209 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
       if (mapInstanceRef.current) {
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
+        markers.clear();
+        hasFittedRef.current = false;
       }
     };
   }, []);
 
+  // Basemap, swapped when the choice or its provider settings change
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !mapReady) return;
+
+    const baseLayer = createTileLayer(resolveBasemap(layers.basemap, providerSettings)).addTo(map);
+    baseLayer.bringToBack();
+    baseLayerRef.current?.remove();
+    baseLayerRef.current = baseLayer;
+  }, [layers.basemap, providerSettings, mapReady]);
+
+  // Overlays are kept built and only added to or taken off the map
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !mapReady) return;
+
+    if (!roadsLayerRef.current) roadsLayerRef.current = createTileLayer(ROADS_TILES);
+    const overlayLayers: Record<OverlayId, L.Layer | null> = {
+      fireZones: circleLayerRef.current,
+      coverage: coverageLayerRef.current,
+      boundaries: zoneLayerRef.current,
+      roads: roadsLayerRef.current,
+      water: waterLayerRef.current,
+      heatmap: heatmapLayerRef.current,
+    };
+    (Object.keys(overlayLayers) as OverlayId[]).forEach(overlay => {
+      const layer = overlayLayers[overlay];
+      if (!layer) return;
+      const visible = layers.overlays.includes(overlay);
+      if (visible && !map.hasLayer(layer)) layer.addTo(map);
+      if (!visible && map.hasLayer(layer)) layer.remove();
+    });
+  }, [layers.overlays, mapReady]);
+
+  // Coverage radii, only built while the overlay is on
+  useEffect(() => {
+    const layer = coverageLayerRef.current;
+    if (!layer || !mapReady) return;
+
+    layer.clearLayers();
+    if (!showCoverage) return;
+    sensors
+      .filter(sensor => Number.isFinite(sensor.latitude) && Number.isFinite(sensor.longitude) && sensor.latitude !== 0)
+      .forEach(sensor => {
+        L.circle([sensor.latitude, sensor.longitude], {
+          radius: SENSOR_COVERAGE_RADIUS_M,
+          color: COVERAGE_COLOR,
+          weight: 1,
+          dashArray: '3 4',
+          fillOpacity: 0.05,
+          interactive: false,
+        }).addTo(layer);
+      });
+  }, [sensors, showCoverage, mapReady]);
+
+  // Readings surface, repainted for the area on screen. Devices that stopped reporting would
+  // smear old readings over the map, so only live ones count.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const layer = heatmapLayerRef.current;
+    if (!map || !layer || !mapReady || !showHeatmap) return;
+
+    const metric = layers.heatmapMetric;
+    const points = sensors
+      .filter(sensor => Number.isFinite(sensor.latitude) && Number.isFinite(sensor.longitude) && sensor.latitude !== 0)
+      .filter(sensor => isReporting(getHeartbeat(sensor, playback?.time ?? Date.now(), heartbeatSettings).state))
+      .filter(sensor => Number.isFinite(sensor[metric]))
+      .map(sensor => ({ latitude: sensor.latitude, longitude: sensor.longitude, value: sensor[metric] }));
+    const image = paintHeatmap(map, points, metric);
+    layer.setUrl(image.url);
+    layer.setBounds(image.bounds);
+  }, [sensors, playback, heartbeatStates, heartbeatSettings, layers.heatmapMetric, showHeatmap, viewport, mapReady]);
+
+  useEffect(() => {
+    heatmapLayerRef.current?.setOpacity(layers.heatmapOpacity);
+  }, [layers.heatmapOpacity, mapReady]);
+
+  useEffect(() => {
+    const layer = waterLayerRef.current;
+    if (!layer || !mapReady) return;
+
+    layer.clearLayers();
+    (waterSources ?? []).forEach(source => {
+      L.circleMarker([source.latitude, source.longitude], {
+        radius: source.kind === 'water' || source.kind === 'reservoir' ? 6 : 4,
+        color: 'white',
+        weight: 1,
+        fillColor: WATER_COLOR,
+        fillOpacity: 0.9,
+      })
+        .bindTooltip(`${source.name ? `${escapeHtml(source.name)} · ` : ''}${WATER_KIND_LABELS[source.kind]}`)
+        .addTo(layer);
+    });
+  }, [waterSources, mapReady]);
+
+  // Choropleth: each zone takes the color of the worst sensor inside it
+  useEffect(() => {
+    const layer = zoneLayerRef.current;
+    if (!layer || !mapReady) return;
+
+    layer.clearLayers();
+    const renderer = L.canvas({ pane: 'zones' });
+    zones.forEach(zone => {
+      const aggregate = zoneAggregates.find(candidate => candidate.zoneId === zone.id);
+      const color = aggregate?.sensorCount ? STATUS_LEVEL_COLORS[aggregate.worstLevel] : EMPTY_ZONE_COLOR;
+      // GeoJSON positions are [lng, lat]
+      const latLngs = zone.polygons.map(polygon => polygon.map(ring => ring.map(([lng, lat]) => L.latLng(lat, lng))));
+      L.polygon(latLngs, {
+        pane: 'zones',
+        renderer,
+        color,
+        weight: zone.kind === 'protected' ? 2 : 1.5,
+        dashArray: zone.kind === 'protected' ? '6 4' : undefined,
+        fillColor: color,
+        fillOpacity: 0.2,
+      })
+        .bindTooltip(describeZone(zone, aggregate), { sticky: true })
+        .addTo(layer);
+    });
+  }, [zones, zoneAggregates, mapReady]);
+
+  // Outline a new zone: click to add corners, double-click to finish, Escape to cancel
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !mapReady || !drawingZone) return;
+
+    const points: L.LatLng[] = [];
+    const outline = L.polyline([], { color: DRAW_COLOR, weight: 2, dashArray: '4 4' }).addTo(map);
+    const container = map.getContainer();
+    container.style.cursor = 'crosshair';
+    map.doubleClickZoom.disable();
+
+    const addPoint = (latlng: L.LatLng) => {
+      const last = points[points.length - 1];
+      if (last && map.latLngToContainerPoint(last).distanceTo(map.latLngToContainerPoint(latlng)) < DRAW_VERTEX_TOLERANCE_PX) {
+        return;
+      }
+      points.push(latlng);
+      outline.setLatLngs(points);
+    };
+
+    const onClick = (event: L.LeafletMouseEvent) => addPoint(event.latlng);
+    const onDoubleClick = (event: L.LeafletMouseEvent) => {
+      addPoint(event.latlng);
+      if (points.length >= 3) drawCallbacksRef.current.onZoneDrawn?.(points.map(({ lat, lng }) => ({ lat, lng })));
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') drawCallbacksRef.current.onZoneDrawCancel?.();
+    };
+
+    map.on('click', onClick);
+    map.on('dblclick', onDoubleClick);
+    document.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      map.off('click', onClick);
+      map.off('dblclick', onDoubleClick);
+      document.removeEventListener('keydown', onKeyDown);
+      outline.remove();
+      container.style.cursor = '';
+      map.doubleClickZoom.enable();
+    };
+  }, [drawingZone, mapReady]);
+
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
     zoomToSensor: (sensor: SensorData) => {
-      if (mapInstanceRef.current) {
-        // 🔥 Increased zoom from 15 → 18
-        mapInstanceRef.current.setView([sensor.latitude, sensor.longitude], 18, { animate: true });
-        
-        // Find and open the marker's popup
-        const marker = markersRef.current.find(m => {
-          const latLng = m.getLatLng();
-          return latLng.lat === sensor.latitude && latLng.lng === sensor.longitude;
-        });
-        
-        if (marker) {
-          setTimeout(() => marker.openPopup(), 300);
-        }
+      const map = mapInstanceRef.current;
+      if (!map) return;
+
+      // Deep enough that the sensor is out of any cluster by the time the popup opens
+      map.setView([sensor.latitude, sensor.longitude], 18, { animate: true });
+      const entry = markersRef.current.get(sensor.id);
+      if (entry) {
+        setTimeout(() => entry.marker.openPopup(), 300);
       }
-    }
+    },
+    fitToSensors: () => fitToSensors()
   }));
 
-  useEffect(() => {
+  const fitToSensors = () => {
     const map = mapInstanceRef.current;
-    if (!map || !mapReady) return;
+    const entries = [...markersRef.current.values()];
+    if (!map || entries.length === 0) return;
+    map.fitBounds(L.latLngBounds(entries.map(entry => entry.marker.getLatLng())).pad(0.1));
+  };
 
-    // Remove existing markers and circles
-    markersRef.current.forEach(marker => {
-      if (map.hasLayer(marker)) map.removeLayer(marker);
-    });
-    markersRef.current = [];
+  // Markers are diffed by sensor id: a refetch only touches sensors whose reading, status or
+  // selection changed, and the view stays where the user left it
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const markerLayers = markerLayersRef.current;
+    const circleLayer = circleLayerRef.current;
+    if (!map || !mapReady || !markerLayers || !circleLayer) return;
 
-    circlesRef.current.forEach(circle => {
-      if (map.hasLayer(circle)) map.removeLayer(circle);
-    });
-    circlesRef.current = [];
+    const entries = markersRef.current;
+    const seen = new Set<string>();
 
     // Filter sensors to only include those with valid coordinates from API
     const validSensors = sensors.filter(sensor => 
@@ -150,22 +569,25 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
 
     // Only use valid API sensors
     validSensors.forEach((sensor) => {
+      seen.add(sensor.id);
       const isSelected = selectedSensorId === sensor.id;
-      const icon = createSensorIcon(sensor, isSelected);
-
-      const marker = L.marker([sensor.latitude, sensor.longitude], { icon }).addTo(map);
-      
+      const level = sensorLevels.get(sensor.id);
+      const heartbeat = getHeartbeat(sensor, playback?.time ?? Date.now(), heartbeatSettings);
       const lastUpdate = new Date(sensor.timestamp).toLocaleString();
-      
-      marker.bindPopup(`
+
+      const popup = `
         <div style="padding:8px; min-width:200px">
-          <h3 style="margin:0 0 8px 0;font-weight:700;color:#166534">${sensor.name || sensor.deviceId}</h3>
-          <div><strong>Device ID:</strong> ${sensor.deviceId}</div>
+          <h3 style="margin:0 0 8px 0;font-weight:700;color:#166534">${escapeHtml(sensor.name || sensor.deviceId)}</h3>
+          <div><strong>Device ID:</strong> ${escapeHtml(sensor.deviceId)}</div>
+          ${describePlacement(sensor.registry) ? `<div><strong>Range / Beat:</strong> ${escapeHtml(describePlacement(sensor.registry))}</div>` : ''}
+          ${sensor.registry?.custodian ? `<div><strong>Custodian:</strong> ${escapeHtml(sensor.registry.custodian)}</div>` : ''}
           <div><strong>Temperature:</strong> ${sensor.temp}°C</div>
           <div><strong>Humidity:</strong> ${sensor.humidity}%</div>
           <div><strong>Smoke:</strong> ${sensor.smoke} ppm</div>
-          <div><strong>Status:</strong> ${sensor.isFire ? '🔥 Fire Detected' : sensor.status}</div>
+          <div><strong>Status:</strong> ${level === 'fire' ? '🔥 ' : ''}${STATUS_LEVEL_LABELS[level]}</div>
+          ${!playback && openAlerts[sensor.deviceId] ? `<div><strong>Alert:</strong> ${ALERT_STATE_LABELS[openAlerts[sensor.deviceId].state]}</div>` : ''}
           <div><strong>Last Update:</strong> ${lastUpdate}</div>
+          <div><strong>Heartbeat:</strong> ${HEARTBEAT_LABELS[heartbeat.state]} (${formatSince(heartbeat.sinceMs)})</div>
           <div style="margin-top: 8px;">
             <a href="https://www.google.com/maps/dir/?api=1&destination=${sensor.latitude},${sensor.longitude}" 
                target="_blank" 
@@ -174,46 +596,81 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
             </a>
           </div>
         </div>
-      `);
-
-      // Add click event
-      marker.on('click', () => {
-        onSensorClick?.(sensor);
-      });
-
-      markersRef.current.push(marker);
+      `;
+      const iconKey = [level, heartbeat.state, isSelected, sensor.isFire].join();
+
+      const existing = entries.get(sensor.id);
+      if (existing) {
+        existing.sensor = sensor;
+        existing.level = level;
+        const latLng = existing.marker.getLatLng();
+        if (latLng.lat !== sensor.latitude || latLng.lng !== sensor.longitude) {
+          existing.marker.setLatLng([sensor.latitude, sensor.longitude]);
+          existing.circle?.setLatLng([sensor.latitude, sensor.longitude]);
+        }
+        if (existing.iconKey !== iconKey) {
+          existing.marker.setIcon(createSensorIcon(sensor, level, heartbeat.state, isSelected));
+          existing.iconKey = iconKey;
+        }
+        if (existing.popup !== popup) {
+          existing.marker.setPopupContent(popup);
+          existing.popup = popup;
+        }
+      } else {
+        const marker = L.marker([sensor.latitude, sensor.longitude], {
+          icon: createSensorIcon(sensor, level, heartbeat.state, isSelected)
+        }).bindPopup(popup);
+        // Add click event
+        marker.on('click', () => {
+          const entry = markersRef.current.get(sensor.id);
+          if (entry) onSensorClickRef.current?.(entry.sensor);
+        });
+        entries.set(sensor.id, { marker, sensor, level, iconKey, popup });
+      }
 
       // Add red zone circle for sensors with fire alerts
-      if (sensor.isFire) {
-        const circle = L.circle([sensor.latitude, sensor.longitude], {
+      const entry = entries.get(sensor.id);
+      if (sensor.isFire && !entry.circle) {
+        entry.circle = L.circle([sensor.latitude, sensor.longitude], {
           color: 'red',
           fillColor: '#f03',
           fillOpacity: 0.2,
           radius: 500 // 500 meter radius around the sensor
-        }).addTo(map);
-        
-        circlesRef.current.push(circle);
+        }).addTo(circleLayer);
+      } else if (!sensor.isFire && entry.circle) {
+        circleLayer.removeLayer(entry.circle);
+        entry.circle = undefined;
       }
+    });
 
-      if (isSelected) {
-        // Focus on selected sensor
-        map.setView([sensor.latitude, sensor.longitude], 12, { animate: true });
-        setTimeout(() => marker.openPopup(), 300);
-      }
+    // Sensors that left the fleet (decommissioned, filtered out)
+    entries.forEach((entry, id) => {
+      if (seen.has(id)) return;
+      markerLayers.markers.removeLayer(entry.marker);
+      if (entry.circle) circleLayer.removeLayer(entry.circle);
+      entries.delete(id);
     });
 
-    // If we have valid sensors, adjust the map view to show them
-    if (validSensors.length > 0) {
-      const group = L.featureGroup([...markersRef.current, ...circlesRef.current]);
-      map.fitBounds(group.getBounds().pad(0.1));
+    renderClusters(map, markerLayers, [...entries.values()], selectedSensorId);
+
+    // Frame the network once; after that the view only moves when asked to
+    if (!hasFittedRef.current && entries.size > 0) {
+      hasFittedRef.current = true;
+      fitToSensors();
     }
+  }, [sensors, sensorLevels, selectedSensorId, mapReady, openAlerts, heartbeatSettings, heartbeatStates, playback]);
 
-    // Ensure map is properly rendered
-    setTimeout(() => {
-      map.invalidateSize();
-    }, 50);
+  // Bring a newly selected sensor into view without zooming out of a closer look. A linked
+  // sensor's marker may only exist after the first fetch, hence the sensors dependency.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const entry = selectedSensorId ? markersRef.current.get(selectedSensorId) : undefined;
+    if (!map || !entry || focusedSensorIdRef.current === selectedSensorId) return;
 
-  }, [sensors, selectedSensorId, mapReady, onSensorClick]);
+    focusedSensorIdRef.current = selectedSensorId;
+    map.setView(entry.marker.getLatLng(), Math.max(map.getZoom(), SELECTED_ZOOM), { animate: true });
+    setTimeout(() => entry.marker.openPopup(), 300);
+  }, [selectedSensorId, mapReady, sensors]);
 
   return (
     <div className={`${className} relative`}>
@@ -234,7 +691,42 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
           <div className="w-3 h-3 rounded-full bg-red-500 mr-1"></div>
           <span className="text-xs">Fire Alert Zone</span>
         </div>
+        <div className="flex items-center mt-1">
+          <div className="w-3 h-3 rounded-full border-2 border-dashed border-gray-500 bg-gray-300 mr-1"></div>
+          <span className="text-xs">Stale / offline sensor</span>
+        </div>
+        <div className="flex items-center mt-1">
+          <div className="w-3 h-3 rounded-full bg-forest-primary border border-white shadow-[0_0_4px_2px_rgba(239,68,68,0.6)] mr-1"></div>
+          <span className="text-xs">Cluster (glows with a fire inside)</span>
+        </div>
+        <button
+          type="button"
+          onClick={fitToSensors}
+          className="mt-2 text-xs font-medium text-forest-primary underline-offset-2 hover:underline"
+        >
+          Fit all sensors
+        </button>
       </div>
+      {showHeatmap && <HeatmapLegend metric={layers.heatmapMetric} className="absolute bottom-4 left-4 z-[1000]" />}
+      {onLayersChange && (
+        <div className="absolute top-4 right-4 z-[1000]">
+          <MapLayerControl
+            layers={layers}
+            onChange={onLayersChange}
+            overlayHints={{
+              water: !waterInView
+                ? 'Zoom in to load water sources'
+                : isFetchingWater
+                  ? 'Loading water sources...'
+                  : waterFailed
+                    ? 'Could not load water sources'
+                    : waterSources?.length === 0
+                      ? 'None mapped in this area'
+                      : undefined,
+            }}
+          />
+        </div>
+      )}
     </div>
   );
 });
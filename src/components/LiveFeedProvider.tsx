@@ -0,0 +1,37 @@
+// src/components/LiveFeedProvider.tsx
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { connectLiveFeed, mergeSensorsIntoCache, LiveFeedStatus } from '@/api/liveFeed';
+import { LiveFeedContext } from '@/hooks/use-live-feed';
+import { useRuntimeConfig } from '@/hooks/use-runtime-config';
+
+interface LiveFeedProviderProps {
+  url?: string;
+  children: React.ReactNode;
+}
+
+const LiveFeedProvider: React.FC<LiveFeedProviderProps> = ({ url: urlProp, children }) => {
+  const queryClient = useQueryClient();
+  const { liveFeedUrl } = useRuntimeConfig();
+  const url = urlProp ?? liveFeedUrl;
+  const [status, setStatus] = useState<LiveFeedStatus>('disabled');
+
+  useEffect(() => {
+    if (!url) {
+      setStatus('disabled');
+      return;
+    }
+
+    const connection = connectLiveFeed({
+      url,
+      onSensors: (sensors, isSnapshot) => mergeSensorsIntoCache(queryClient, sensors, isSnapshot),
+      onStatus: setStatus,
+    });
+
+    return () => connection.close();
+  }, [url, queryClient]);
+
+  return <LiveFeedContext.Provider value={status}>{children}</LiveFeedContext.Provider>;
+};
+
+export default LiveFeedProvider;
@@ -0,0 +1,96 @@
+// src/components/LocationPicker.tsx
+// Small Leaflet map for choosing a site: click to drop the pin, drag it to adjust.
+import React, { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+interface LocationPickerProps {
+  latitude?: number;
+  longitude?: number;
+  onChange: (latitude: number, longitude: number) => void;
+  className?: string;
+}
+
+// Center of Uttarakhand, as on the dashboard map
+const DEFAULT_CENTER: L.LatLngTuple = [30.0668, 79.0193];
+const DEFAULT_ZOOM = 8;
+const PICKED_ZOOM = 13;
+// Enough for a sensor site; more digits only repeat GPS noise
+const COORDINATE_DECIMALS = 6;
+
+const pinIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:18px;height:18px;border-radius:50%;background:#166534;border:3px solid white;box-shadow:0 0 0 1px #166534"></div>',
+  iconSize: [18, 18],
+  iconAnchor: [9, 9],
+});
+
+const isCoordinate = (value?: number) => typeof value === 'number' && Number.isFinite(value);
+
+const round = (value: number) => Number(value.toFixed(COORDINATE_DECIMALS));
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ latitude, longitude, onChange, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+  // The map's handlers are bound once, so they read the latest callback through a ref
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+
+    const map = L.map(containerRef.current).setView(DEFAULT_CENTER, DEFAULT_ZOOM);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 19,
+    }).addTo(map);
+
+    map.on('click', (event: L.LeafletMouseEvent) => {
+      onChangeRef.current(round(event.latlng.lat), round(event.latlng.lng));
+    });
+
+    mapRef.current = map;
+    // The picker often mounts inside a tab or dialog that is still sizing itself
+    setTimeout(() => map.invalidateSize(), 100);
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+    };
+  }, []);
+
+  // Follow coordinates typed into the form as well as picked ones
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!isCoordinate(latitude) || !isCoordinate(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+
+    if (markerRef.current) {
+      markerRef.current.setLatLng([latitude, longitude]);
+      if (!map.getBounds().contains([latitude, longitude])) map.panTo([latitude, longitude]);
+    } else {
+      const marker = L.marker([latitude, longitude], { icon: pinIcon, draggable: true }).addTo(map);
+      marker.on('dragend', () => {
+        const position = marker.getLatLng();
+        onChangeRef.current(round(position.lat), round(position.lng));
+      });
+      markerRef.current = marker;
+      map.setView([latitude, longitude], Math.max(map.getZoom(), PICKED_ZOOM));
+    }
+  }, [latitude, longitude]);
+
+  return (
+    <div className={`${className} relative`}>
+      <div ref={containerRef} className="absolute inset-0 rounded-lg" />
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,100 @@
+// src/components/MapLayerControl.tsx
+// Basemap and overlay picker shown over the sensor map.
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Slider } from '@/components/ui/slider';
+import { BASEMAPS, OVERLAYS } from '@/api/mapLayers';
+import { HEATMAP_METRICS, HEATMAP_SCALES } from '@/api/heatmap';
+import { BasemapId, HeatmapMetric, MapLayerChoices, OverlayId } from '@/types/mapLayers';
+
+interface MapLayerControlProps {
+  layers: MapLayerChoices;
+  onChange: (layers: MapLayerChoices) => void;
+  // Overlays that currently have nothing to show, with the reason
+  overlayHints?: Partial<Record<OverlayId, string>>;
+}
+
+const MapLayerControl: React.FC<MapLayerControlProps> = ({ layers, onChange, overlayHints = {} }) => {
+  const toggleOverlay = (overlay: OverlayId, visible: boolean) =>
+    onChange({
+      ...layers,
+      overlays: visible ? [...layers.overlays, overlay] : layers.overlays.filter(active => active !== overlay),
+    });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="outline" className="glass-card border-forest-accent text-forest-primary">
+          <Layers className="w-4 h-4 mr-2" />
+          Layers
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-forest-primary">Basemap</p>
+          <RadioGroup value={layers.basemap} onValueChange={value => onChange({ ...layers, basemap: value as BasemapId })}>
+            {BASEMAPS.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem id={`basemap-${option.value}`} value={option.value} />
+                <Label htmlFor={`basemap-${option.value}`} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-forest-primary">Overlays</p>
+          {OVERLAYS.map(option => (
+            <div key={option.value} className="flex items-start gap-2">
+              <Checkbox
+                id={`overlay-${option.value}`}
+                checked={layers.overlays.includes(option.value)}
+                onCheckedChange={checked => toggleOverlay(option.value, checked === true)}
+              />
+              <div className="leading-none">
+                <Label htmlFor={`overlay-${option.value}`} className="font-normal">{option.label}</Label>
+                {layers.overlays.includes(option.value) && overlayHints[option.value] && (
+                  <p className="text-xs text-muted-foreground mt-1">{overlayHints[option.value]}</p>
+                )}
+                {option.value === 'heatmap' && layers.overlays.includes('heatmap') && (
+                  <div className="space-y-3 mt-2">
+                    <RadioGroup
+                      value={layers.heatmapMetric}
+                      onValueChange={value => onChange({ ...layers, heatmapMetric: value as HeatmapMetric })}
+                      className="flex flex-wrap gap-x-3 gap-y-2"
+                    >
+                      {HEATMAP_METRICS.map(metric => (
+                        <div key={metric} className="flex items-center gap-1">
+                          <RadioGroupItem id={`heatmap-${metric}`} value={metric} />
+                          <Label htmlFor={`heatmap-${metric}`} className="font-normal text-xs">
+                            {HEATMAP_SCALES[metric].label}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">Opacity {Math.round(layers.heatmapOpacity * 100)}%</p>
+                      <Slider
+                        min={10}
+                        max={100}
+                        step={5}
+                        value={[Math.round(layers.heatmapOpacity * 100)]}
+                        onValueChange={([value]) => onChange({ ...layers, heatmapOpacity: value / 100 })}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MapLayerControl;
@@ -0,0 +1,125 @@
+// src/components/MapLayerSettings.tsx
+// Settings card for where the satellite and terrain basemaps come from, and the Mapbox token.
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Map as MapIcon, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { isMapboxPublicToken, SATELLITE_PROVIDERS, setMapProviderSettings, TERRAIN_PROVIDERS } from '@/api/mapLayers';
+import { useMapProviderSettings } from '@/hooks/use-map-layers';
+import { MapProviderSettings, SatelliteProvider, TerrainProvider } from '@/types/mapLayers';
+
+const MapLayerSettings: React.FC = () => {
+  const settings = useMapProviderSettings();
+  const [form, setForm] = useState<MapProviderSettings>(settings);
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  const usesMapbox = form.satellite === 'mapbox' || form.terrain === 'mapbox';
+
+  const handleSave = () => {
+    const token = form.mapboxToken.trim();
+    if (token && !isMapboxPublicToken(token)) {
+      toast.error('Use a Mapbox public token (pk.…); secret tokens must not be used in the browser');
+      return;
+    }
+    if (usesMapbox && !token) {
+      toast.error('Mapbox basemaps need an access token');
+      return;
+    }
+    setMapProviderSettings({ ...form, mapboxToken: token });
+    toast.success('Map providers saved');
+  };
+
+  return (
+    <Card className="glass-card border-forest-accent/30 mt-6">
+      <CardHeader>
+        <CardTitle className="text-forest-primary flex items-center gap-2">
+          <MapIcon className="w-5 h-5" />
+          Map Layers
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Providers for the satellite and terrain basemaps in the map's layer picker. Streets always use OpenStreetMap.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label className="text-forest-primary">Satellite</Label>
+            <Select
+              value={form.satellite}
+              onValueChange={value => setForm(prev => ({ ...prev, satellite: value as SatelliteProvider }))}
+            >
+              <SelectTrigger className="border-forest-accent/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SATELLITE_PROVIDERS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-forest-primary">Terrain</Label>
+            <Select
+              value={form.terrain}
+              onValueChange={value => setForm(prev => ({ ...prev, terrain: value as TerrainProvider }))}
+            >
+              <SelectTrigger className="border-forest-accent/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TERRAIN_PROVIDERS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mapboxToken" className="text-forest-primary">Mapbox public token</Label>
+          <Input
+            id="mapboxToken"
+            type="password"
+            autoComplete="off"
+            placeholder="pk.ey..."
+            value={form.mapboxToken}
+            onChange={e => setForm(prev => ({ ...prev, mapboxToken: e.target.value }))}
+            className="border-forest-accent/50"
+          />
+          <p className="text-xs text-muted-foreground">
+            {usesMapbox ? 'Required for the Mapbox providers selected above. ' : 'Only needed for the Mapbox providers. '}
+            Create one on the{' '}
+            <a
+              href="https://account.mapbox.com/access-tokens/"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-forest-primary hover:underline"
+            >
+              Mapbox dashboard
+            </a>
+            .
+          </p>
+        </div>
+
+        <Button onClick={handleSave} className="bg-forest-primary text-white hover:bg-forest-primary/90">
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MapLayerSettings;
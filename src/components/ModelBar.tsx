@@ -12,6 +12,31 @@ import {
   Activity,
   BarChart3,
 } from "lucide-react";
+import { getConfig } from "@/api/config";
+import { requestCurrentWeather } from "@/api/weatherApi";
+import {
+  describeRequestError,
+  isAbortError,
+  requestJson,
+  RequestError,
+} from "@/api/httpClient";
+
+interface PredictionResponse {
+  prediction: number;
+  message?: string;
+  probability?: number;
+  probabilities?: Record<string, number>;
+}
+
+const REFRESH_MS = 15000;
+// The model host sleeps when idle, so the first prediction can take a while
+const PREDICTION_TIMEOUT_MS = 30000;
+
+const ERROR_TITLES: Record<RequestError["kind"], string> = {
+  network: "Connection Error",
+  http: "Service Error",
+  parse: "Unexpected Response",
+};
 
 interface ModelBarProps {
   sensorId: string;
@@ -32,19 +57,16 @@ const ModelBar: React.FC<ModelBarProps> = ({
 }) => {
   const [data, setData] = useState<any>(null);
   const [fetching, setFetching] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
 
-  const fetchData = async () => {
+  const fetchData = async (signal: AbortSignal) => {
     if (!sensorId) return;
 
     try {
       setFetching(true);
 
       
-      const weatherRes = await fetch(
-        `https://api.openweathermap.org/data/2.5/weather?lat=${latitude}&lon=${longitude}&appid=070b8d1eb7f4b59140b6788d2bb9e26f&units=metric`
-      );
-      const weatherData = await weatherRes.json();
+      const weatherData = await requestCurrentWeather(latitude, longitude, signal);
 
       
       const weather = {
@@ -72,13 +94,13 @@ const ModelBar: React.FC<ModelBarProps> = ({
       console.log("Sending payload:", payload);
 
       
-      const aiRes = await fetch("https://forest-fire-api2.onrender.com/predict", {
+      const { data: aiData } = await requestJson<PredictionResponse>(getConfig().predictionUrl, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        body: payload,
+        signal,
+        timeoutMs: PREDICTION_TIMEOUT_MS,
+        retries: 1,
       });
-
-      const aiData = await aiRes.json();
       console.log("AI Response:", aiData);
       
       const fireRisk = aiData.prediction === 1;
@@ -99,17 +121,32 @@ const ModelBar: React.FC<ModelBarProps> = ({
       setData(formattedData);
       setError(null);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError("Failed to fetch AI model data");
+      setError({
+        title: err instanceof RequestError ? ERROR_TITLES[err.kind] : "Connection Error",
+        message: `Failed to fetch AI model data: ${describeRequestError(err)}`,
+      });
     } finally {
-      setFetching(false);
+      if (!signal.aborted) setFetching(false);
     }
   };
 
   useEffect(() => {
-    fetchData();
-    const interval = setInterval(fetchData, 15000); // refresh every 15s
-    return () => clearInterval(interval);
+    // Schedule the next refresh only after the previous one settles so requests never overlap
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout>;
+
+    const run = async () => {
+      await fetchData(controller.signal);
+      if (!controller.signal.aborted) timer = setTimeout(run, REFRESH_MS);
+    };
+    run();
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
   }, [sensorId, temperature, humidity, smoke]);
 
   if (!sensorId) return null;
@@ -143,8 +180,8 @@ const ModelBar: React.FC<ModelBarProps> = ({
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center space-x-3 shadow-sm">
           <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
           <div>
-            <p className="text-red-800 font-medium">Connection Error</p>
-            <p className="text-red-600 text-sm">{error}</p>
+            <p className="text-red-800 font-medium">{error.title}</p>
+            <p className="text-red-600 text-sm">{error.message}</p>
           </div>
         </div>
       )}
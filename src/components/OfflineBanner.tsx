@@ -0,0 +1,24 @@
+// src/components/OfflineBanner.tsx
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { useOfflineStatus } from '@/hooks/use-offline-status';
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const OfflineBanner: React.FC = () => {
+  const { offline, dataAsOf } = useOfflineStatus();
+  if (!offline) return null;
+
+  return (
+    <div className="flex items-center gap-2 px-6 py-2 bg-forest-warning text-white text-sm" role="status">
+      <WifiOff className="w-4 h-4 flex-shrink-0" />
+      <span className="font-medium">
+        {dataAsOf ? `Offline, data as of ${formatTime(dataAsOf)}` : 'Offline, no cached data yet'}
+      </span>
+      <span className="opacity-80">Reconnecting automatically.</span>
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,46 @@
+// src/components/OfflineSync.tsx
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { SENSORS_QUERY_KEY } from '@/api/sensors';
+import { loadFleetSnapshot } from '@/api/offlineCache';
+import { markOffline } from '@/api/connectivity';
+
+// Seeds the sensor cache from IndexedDB on startup and refetches when the browser reconnects
+const OfflineSync = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Without this the map stays empty while the first request is pending, or forever when it is paused offline
+    loadFleetSnapshot().then(snapshot => {
+      if (cancelled || !snapshot) return;
+      if (queryClient.getQueryData(SENSORS_QUERY_KEY) === undefined) {
+        queryClient.setQueryData(SENSORS_QUERY_KEY, snapshot.value, {
+          updatedAt: new Date(snapshot.savedAt).getTime(),
+        });
+      }
+      if (!navigator.onLine) markOffline(snapshot.savedAt);
+    });
+
+    const handleOffline = () => {
+      loadFleetSnapshot().then(snapshot => markOffline(snapshot?.savedAt ?? null));
+    };
+    // A successful refetch clears the offline state
+    const handleOnline = () => {
+      queryClient.invalidateQueries({ queryKey: SENSORS_QUERY_KEY });
+    };
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [queryClient]);
+
+  return null;
+};
+
+export default OfflineSync;
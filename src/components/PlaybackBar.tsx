@@ -0,0 +1,125 @@
+// src/components/PlaybackBar.tsx
+// Timeline under the Dashboard map for replaying fleet state over a past window.
+import React, { useState } from 'react';
+import { History, Pause, Play, Radio } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PLAYBACK_SPEEDS, PLAYBACK_WINDOWS } from '@/api/playback';
+import { describeRequestError } from '@/api/httpClient';
+import { Playback } from '@/hooks/use-playback';
+
+interface PlaybackBarProps {
+  playback: Playback;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const PlaybackBar: React.FC<PlaybackBarProps> = ({ playback }) => {
+  const [windowMs, setWindowMs] = useState(PLAYBACK_WINDOWS[0].value);
+  const { range } = playback;
+
+  const windowSelect = (
+    <Select
+      value={String(windowMs)}
+      onValueChange={value => {
+        setWindowMs(Number(value));
+        if (playback.active) playback.start(Number(value));
+      }}
+    >
+      <SelectTrigger className="w-40 border-forest-accent/50">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PLAYBACK_WINDOWS.map(option => (
+          <SelectItem key={option.value} value={String(option.value)}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (!playback.active) {
+    return (
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-muted-foreground">Replay sensor readings from</span>
+        {windowSelect}
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+          onClick={() => playback.start(windowMs)}
+        >
+          <History className="w-4 h-4 mr-2" />
+          Start Replay
+        </Button>
+      </div>
+    );
+  }
+
+  const fires = playback.sensors.filter(sensor => sensor.isFire).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          size="sm"
+          className="bg-forest-primary text-white hover:bg-forest-primary/90"
+          onClick={playback.togglePlaying}
+          disabled={!playback.history}
+        >
+          {playback.playing ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+          {playback.playing ? 'Pause' : 'Play'}
+        </Button>
+        <Select value={String(playback.speed)} onValueChange={value => playback.setSpeed(Number(value))}>
+          <SelectTrigger className="w-20 border-forest-accent/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map(speed => (
+              <SelectItem key={speed} value={String(speed)}>
+                {speed}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {windowSelect}
+        <span className="text-sm font-medium text-forest-primary">{formatTime(playback.time)}</span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto border-forest-accent text-forest-primary hover:bg-forest-accent"
+          onClick={playback.stop}
+        >
+          <Radio className="w-4 h-4 mr-2" />
+          Back to Live
+        </Button>
+      </div>
+
+      <Slider
+        min={range.from.getTime()}
+        max={range.to.getTime()}
+        step={playback.stepMs}
+        value={[playback.time]}
+        onValueChange={([value]) => playback.setTime(value)}
+        disabled={!playback.history}
+      />
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatTime(range.from.getTime())}</span>
+        <span>
+          {playback.isLoading
+            ? 'Loading readings...'
+            : playback.error
+              ? `${describeRequestError(playback.error)}. Replay is unavailable.`
+              : `${playback.sensors.length} sensors with readings · ${fires} active fire${fires === 1 ? '' : 's'}`}
+        </span>
+        <span>{formatTime(range.to.getTime())}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackBar;
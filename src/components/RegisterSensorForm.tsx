@@ -0,0 +1,175 @@
+// src/components/RegisterSensorForm.tsx
+// Register a new device at a site picked on the map or typed in as coordinates.
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { DeviceRegistration, deviceRegistrationSchema, isDeviceRegistered, registerDevice } from '@/api/provisioning';
+import { describeRequestError } from '@/api/httpClient';
+import { SENSORS_QUERY_KEY } from '@/api/sensors';
+import { useSensors } from '@/hooks/use-sensors';
+import { useSensorRegistry } from '@/hooks/use-registry';
+import LocationPicker from '@/components/LocationPicker';
+
+// Inputs hold text; the schema turns it into a DeviceRegistration on submit
+interface RegisterSensorValues {
+  deviceId: string;
+  name: string;
+  zone: string;
+  latitude: string;
+  longitude: string;
+}
+
+const EMPTY_VALUES: RegisterSensorValues = { deviceId: '', name: '', zone: '', latitude: '', longitude: '' };
+
+const RegisterSensorForm: React.FC = () => {
+  const queryClient = useQueryClient();
+  // The fleet list catches duplicates as the form is filled in; if it fails to load, the check
+  // against the backend on submit still runs
+  const { data: sensors = [], isPending: fleetLoading, isError: fleetError } = useSensors();
+  const registry = useSensorRegistry();
+  const form = useForm<RegisterSensorValues>({
+    resolver: zodResolver(deviceRegistrationSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  const latitude = form.watch('latitude');
+  const longitude = form.watch('longitude');
+
+  // The resolver has already validated; parsing again gives the typed, converted values
+  const onSubmit = async (values: RegisterSensorValues) => {
+    const device: DeviceRegistration = deviceRegistrationSchema.parse(values);
+    // Posting an existing deviceId would overwrite that device's record rather than add one
+    if (sensors.some(sensor => sensor.deviceId === device.deviceId) || registry[device.deviceId]?.decommissionedAt) {
+      form.setError('deviceId', { message: `${device.deviceId} is already registered` });
+      return;
+    }
+
+    try {
+      if (await isDeviceRegistered(device.deviceId)) {
+        form.setError('deviceId', { message: `${device.deviceId} is already registered` });
+        return;
+      }
+      await registerDevice(device);
+      toast.success(`Registered ${device.name || device.deviceId}`);
+      form.reset(EMPTY_VALUES);
+      queryClient.invalidateQueries({ queryKey: SENSORS_QUERY_KEY });
+    } catch (error) {
+      toast.error(`Registration failed: ${describeRequestError(error)}`);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-4">
+          <FormField
+            control={form.control}
+            name="deviceId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Device ID</FormLabel>
+                <FormControl>
+                  <Input placeholder="DEV-1042" className="border-forest-accent/50" {...field} />
+                </FormControl>
+                <FormDescription>As printed on the device and sent in its telemetry.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name (optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Chopta ridge tower" className="border-forest-accent/50" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="zone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Zone (optional)</FormLabel>
+                <FormControl>
+                  <Input className="border-forest-accent/50" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="latitude"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Latitude</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" placeholder="30.0668" className="border-forest-accent/50" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="longitude"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Longitude</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" placeholder="79.0193" className="border-forest-accent/50" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={form.formState.isSubmitting || fleetLoading}
+            className="bg-forest-primary text-white hover:bg-forest-primary/90"
+          >
+            {form.formState.isSubmitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            Register Sensor
+          </Button>
+          {fleetError && (
+            <p className="text-sm text-muted-foreground">
+              Could not load the sensor list; the device ID is checked with the server when you register.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Click the map to place the sensor, or drag the pin.</p>
+          <LocationPicker
+            latitude={latitude === '' ? undefined : Number(latitude)}
+            longitude={longitude === '' ? undefined : Number(longitude)}
+            onChange={(lat, lng) => {
+              form.setValue('latitude', String(lat), { shouldValidate: true });
+              form.setValue('longitude', String(lng), { shouldValidate: true });
+            }}
+            className="h-80 w-full"
+          />
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default RegisterSensorForm;
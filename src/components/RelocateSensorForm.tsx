@@ -0,0 +1,151 @@
+// src/components/RelocateSensorForm.tsx
+// Move a deployed sensor to new coordinates after it has been relocated in the field.
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Loader2, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { relocateDevice, relocationSchema } from '@/api/provisioning';
+import { describeRequestError } from '@/api/httpClient';
+import { SENSORS_QUERY_KEY } from '@/api/sensors';
+import { useSensors } from '@/hooks/use-sensors';
+import LocationPicker from '@/components/LocationPicker';
+
+interface RelocateSensorValues {
+  deviceId: string;
+  latitude: string;
+  longitude: string;
+}
+
+const EMPTY_VALUES: RelocateSensorValues = { deviceId: '', latitude: '', longitude: '' };
+
+const RelocateSensorForm: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: sensors = [] } = useSensors();
+  const form = useForm<RelocateSensorValues>({
+    resolver: zodResolver(relocationSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  const latitude = form.watch('latitude');
+  const longitude = form.watch('longitude');
+
+  // Start from where the sensor is now
+  const selectSensor = (deviceId: string) => {
+    const sensor = sensors.find(candidate => candidate.deviceId === deviceId);
+    form.setValue('deviceId', deviceId, { shouldValidate: true });
+    form.setValue('latitude', sensor ? String(sensor.latitude) : '');
+    form.setValue('longitude', sensor ? String(sensor.longitude) : '');
+  };
+
+  const onSubmit = async (values: RelocateSensorValues) => {
+    const location = relocationSchema.parse(values);
+    const sensor = sensors.find(candidate => candidate.deviceId === location.deviceId);
+    if (!sensor) {
+      form.setError('deviceId', { message: 'This sensor is no longer in the fleet' });
+      return;
+    }
+
+    try {
+      await relocateDevice(sensor, location);
+      toast.success(`Moved ${sensor.name || sensor.deviceId} to ${location.latitude}, ${location.longitude}`);
+      form.reset(EMPTY_VALUES);
+      queryClient.invalidateQueries({ queryKey: SENSORS_QUERY_KEY });
+    } catch (error) {
+      toast.error(`Relocation failed: ${describeRequestError(error)}`);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-4">
+          <FormField
+            control={form.control}
+            name="deviceId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Sensor</FormLabel>
+                <Select value={field.value} onValueChange={selectSensor}>
+                  <FormControl>
+                    <SelectTrigger className="border-forest-accent/50">
+                      <SelectValue placeholder="Choose a sensor" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {sensors.map(sensor => (
+                      <SelectItem key={sensor.deviceId} value={sensor.deviceId}>
+                        {sensor.name || sensor.deviceId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="latitude"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New latitude</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" className="border-forest-accent/50" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="longitude"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New longitude</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" className="border-forest-accent/50" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={form.formState.isSubmitting}
+            className="bg-forest-primary text-white hover:bg-forest-primary/90"
+          >
+            {form.formState.isSubmitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <MapPin className="w-4 h-4 mr-2" />
+            )}
+            Save Location
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Click the map or drag the pin to the new site.</p>
+          <LocationPicker
+            latitude={latitude === '' ? undefined : Number(latitude)}
+            longitude={longitude === '' ? undefined : Number(longitude)}
+            onChange={(lat, lng) => {
+              form.setValue('latitude', String(lat), { shouldValidate: true });
+              form.setValue('longitude', String(lng), { shouldValidate: true });
+            }}
+            className="h-80 w-full"
+          />
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default RelocateSensorForm;
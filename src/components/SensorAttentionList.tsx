@@ -0,0 +1,59 @@
+// src/components/SensorAttentionList.tsx
+// Sensors that have missed their expected reports, longest silent first.
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatSince, getSensorsNeedingAttention, HEARTBEAT_LABELS } from '@/api/heartbeat';
+import { useHeartbeatClock, useHeartbeatSettings } from '@/hooks/use-heartbeat';
+import { HEARTBEAT_BADGE_CLASSES } from '@/lib/statusStyles';
+import { SensorData } from '@/types/sensor';
+import { WifiOff } from 'lucide-react';
+
+interface SensorAttentionListProps {
+  sensors: SensorData[];
+  onSensorClick: (sensor: SensorData) => void;
+}
+
+const SensorAttentionList: React.FC<SensorAttentionListProps> = ({ sensors, onSensorClick }) => {
+  const settings = useHeartbeatSettings();
+  const now = useHeartbeatClock();
+  const attention = getSensorsNeedingAttention(sensors, now, settings);
+
+  return (
+    <Card className="glass-card border-forest-accent/30">
+      <CardHeader>
+        <CardTitle className="text-forest-primary flex items-center gap-2">
+          <WifiOff className="w-5 h-5" />
+          Sensors Needing Attention
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {attention.length === 0 ? (
+          <p className="text-muted-foreground text-sm">Every sensor is reporting on schedule.</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {attention.map(({ sensor, heartbeat }) => (
+              <div
+                key={sensor.id}
+                onClick={() => onSensorClick(sensor)}
+                className="p-3 rounded-lg border border-forest-accent/30 hover:border-forest-accent cursor-pointer flex items-center justify-between gap-4"
+              >
+                <div>
+                  <p className="font-medium text-forest-primary">{sensor.name || `Sensor ${sensor.deviceId}`}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Last reported {formatSince(heartbeat.sinceMs)} · expected every {heartbeat.expectedMs / 60000} min
+                  </p>
+                </div>
+                <Badge className={HEARTBEAT_BADGE_CLASSES[heartbeat.state]}>
+                  {HEARTBEAT_LABELS[heartbeat.state].toUpperCase()}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensorAttentionList;
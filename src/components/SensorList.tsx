@@ -2,6 +2,17 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { SensorData } from '@/types/sensor';
+import { isPreFire, STATUS_LEVEL_LABELS } from '@/api/statusRules';
+import { evaluateSensor } from '@/api/zones';
+import { getDeviceTrend } from '@/api/trends';
+import { formatSince, getHeartbeat, HEARTBEAT_LABELS } from '@/api/heartbeat';
+import { describePlacement } from '@/api/registry';
+import { useOpenAlertsByDevice } from '@/hooks/use-alerts';
+import { useStatusRules } from '@/hooks/use-status-rules';
+import { useHeartbeatClock, useHeartbeatSettings } from '@/hooks/use-heartbeat';
+import { HEARTBEAT_BADGE_CLASSES, STATUS_LEVEL_BADGE_CLASSES } from '@/lib/statusStyles';
+import AlertStateBadge from '@/components/AlertStateBadge';
+import TrendArrow from '@/components/TrendArrow';
 import { MapPin, Thermometer, Droplets, Flame } from 'lucide-react';
 
 interface SensorListProps {
@@ -10,19 +21,12 @@ interface SensorListProps {
 }
 
 const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
-  const getStatusColor = (sensor: SensorData) => {
-    if (sensor.isFire) return 'bg-forest-danger text-white';
-    if ((sensor.temp ?? 0) > 35 || (sensor.smoke ?? 0) > 50) {
-      return 'bg-forest-warning text-white';
-    }
-    return 'bg-forest-success text-white';
-  };
+  const openAlerts = useOpenAlertsByDevice();
 
-  const getStatusText = (sensor: SensorData) => {
-    if (sensor.isFire) return 'FIRE DETECTED';
-    if ((sensor.temp ?? 0) > 35 || (sensor.smoke ?? 0) > 50) return 'WARNING';
-    return 'NORMAL';
-  };
+  const heartbeatSettings = useHeartbeatSettings();
+  const now = useHeartbeatClock();
+
+  useStatusRules();
 
   return (
     <Card className="glass-card border-forest-accent/30">
@@ -34,55 +38,84 @@ const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
           {sensors.length === 0 ? (
             <p className="text-muted-foreground text-sm">No sensors available</p>
           ) : (
-            sensors.map((sensor) => (
-              <div
-                key={sensor.id}
-                onClick={() => onSensorClick(sensor)}
-                className="p-3 rounded-lg border border-forest-accent/30 
-                           hover:border-forest-accent cursor-pointer 
-                           transition-all duration-200 hover:shadow-md"
-              >
-                {/* Header: Name + Status */}
-                <div className="flex items-center justify-between mb-2">
-                  <h4 className="font-medium text-forest-primary">
-                    {sensor.name || `Sensor ${sensor.deviceId}`}
-                  </h4>
-                  <Badge className={getStatusColor(sensor)}>
-                    {getStatusText(sensor)}
-                  </Badge>
-                </div>
-
-                {/* Sensor Data Grid */}
-                <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
-                  <div className="flex items-center gap-1">
-                    <Thermometer className="w-3 h-3" />
-                    <span>{sensor.temp ?? '--'}°C</span>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <Droplets className="w-3 h-3" />
-                    <span>{sensor.humidity ?? '--'}%</span>
+            sensors.map((sensor) => {
+              const evaluation = evaluateSensor(sensor);
+              const { level } = evaluation;
+              const trend = getDeviceTrend(sensor.deviceId, sensor);
+              const heartbeat = getHeartbeat(sensor, now, heartbeatSettings);
+              return (
+                <div
+                  key={sensor.id}
+                  onClick={() => onSensorClick(sensor)}
+                  className="p-3 rounded-lg border border-forest-accent/30 
+                             hover:border-forest-accent cursor-pointer 
+                             transition-all duration-200 hover:shadow-md"
+                >
+                  {/* Header: Name + Status */}
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <h4 className="font-medium text-forest-primary">
+                        {sensor.name || `Sensor ${sensor.deviceId}`}
+                      </h4>
+                      {sensor.registry && (
+                        <p className="text-xs text-muted-foreground">
+                          {[describePlacement(sensor.registry), sensor.registry.hardwareModel, sensor.registry.custodian]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      {heartbeat.state !== 'fresh' && (
+                        <Badge className={HEARTBEAT_BADGE_CLASSES[heartbeat.state]}>
+                          {HEARTBEAT_LABELS[heartbeat.state].toUpperCase()}
+                        </Badge>
+                      )}
+                      {openAlerts[sensor.deviceId] && <AlertStateBadge state={openAlerts[sensor.deviceId].state} />}
+                      {isPreFire(evaluation, sensor) && (
+                        <Badge className="bg-orange-100 text-orange-700 border border-orange-300">PRE-FIRE</Badge>
+                      )}
+                      <Badge className={STATUS_LEVEL_BADGE_CLASSES[level]}>
+                        {STATUS_LEVEL_LABELS[level].toUpperCase()}
+                      </Badge>
+                    </div>
                   </div>
-                  <div className="flex items-center gap-1">
-                    <Flame className="w-3 h-3" />
-                    <span>Smoke: {sensor.smoke ?? '--'}</span>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <MapPin className="w-3 h-3" />
-                    <span>
-                      {(sensor.latitude ?? 0).toFixed(3)}, {(sensor.longitude ?? 0).toFixed(3)}
-                    </span>
+
+                  {/* Sensor Data Grid */}
+                  <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Thermometer className="w-3 h-3" />
+                      <span>{sensor.temp ?? '--'}°C</span>
+                      <TrendArrow metric="temp" trend={trend.temp} />
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Droplets className="w-3 h-3" />
+                      <span>{sensor.humidity ?? '--'}%</span>
+                      <TrendArrow metric="humidity" trend={trend.humidity} />
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Flame className="w-3 h-3" />
+                      <span>Smoke: {sensor.smoke ?? '--'}</span>
+                      <TrendArrow metric="smoke" trend={trend.smoke} />
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      <span>
+                        {(sensor.latitude ?? 0).toFixed(3)}, {(sensor.longitude ?? 0).toFixed(3)}
+                      </span>
+                    </div>
                   </div>
-                </div>
 
-                {/* Last update */}
-                <div className="mt-2 text-xs text-muted-foreground">
-                  Last update:{' '}
-                  {sensor.timestamp
-                    ? new Date(sensor.timestamp).toLocaleString()
-                    : 'N/A'}
+                  {/* Last update */}
+                  <div className="mt-2 text-xs text-muted-foreground">
+                    Last update:{' '}
+                    {sensor.timestamp
+                      ? `${new Date(sensor.timestamp).toLocaleString()} (${formatSince(heartbeat.sinceMs)})`
+                      : 'N/A'}
+                  </div>
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
       </CardContent>
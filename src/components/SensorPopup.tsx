@@ -7,14 +7,15 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { SensorData } from '@/types/sensor';
+import { describePlacement } from '@/api/registry';
 import { MapPin, Activity } from 'lucide-react';
 
 interface SensorPopupProps {
   sensor: SensorData | null;
   isOpen: boolean;
   onClose: () => void;
-  onViewInMap: (sensorId: string) => void;
-  onLiveTracking: (sensorId: string) => void;
+  onViewInMap: (deviceId: string) => void;
+  onLiveTracking: (deviceId: string) => void;
 }
 
 const SensorPopup: React.FC<SensorPopupProps> = ({
@@ -66,6 +67,35 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
             </p>
           </div>
           
+          {sensor.registry && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Registry</p>
+              <div className="flex gap-3">
+                {sensor.registry.photoUrl && (
+                  <img src={sensor.registry.photoUrl} alt="Sensor installation" className="w-20 h-20 rounded-lg object-cover border" />
+                )}
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm flex-1">
+                  {[
+                    ['Range / Beat', describePlacement(sensor.registry)],
+                    ['Custodian', sensor.registry.custodian],
+                    ['Installed', sensor.registry.installDate && new Date(sensor.registry.installDate).toLocaleDateString()],
+                    ['Height', sensor.registry.mountingHeightM !== undefined && `${sensor.registry.mountingHeightM} m`],
+                    ['Hardware', sensor.registry.hardwareModel],
+                    ['Firmware', sensor.registry.firmwareVersion],
+                    ['Battery', sensor.registry.batteryType],
+                  ]
+                    .filter(([, value]) => value)
+                    .map(([label, value]) => (
+                      <React.Fragment key={label as string}>
+                        <dt className="text-muted-foreground">{label}</dt>
+                        <dd className="text-forest-primary">{value}</dd>
+                      </React.Fragment>
+                    ))}
+                </dl>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2">
             <p className="text-sm font-medium text-muted-foreground">Last Update</p>
             <p className="text-sm text-forest-primary">
@@ -75,7 +105,7 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
           
           <div className="flex gap-3 pt-4">
             <Button 
-              onClick={() => onViewInMap(sensor.id)}
+              onClick={() => onViewInMap(sensor.deviceId)}
               variant="outline"
               className="flex-1 border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white"
             >
@@ -83,7 +113,7 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
               View in Map
             </Button>
             <Button 
-              onClick={() => onLiveTracking(sensor.id)}
+              onClick={() => onLiveTracking(sensor.deviceId)}
               className="flex-1 bg-forest-primary text-white hover:bg-forest-primary/90"
             >
               <Activity className="w-4 h-4 mr-2" />
@@ -0,0 +1,135 @@
+// src/components/SensorRegistryDialog.tsx
+// Add or edit one sensor's registry entry.
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { REGISTRY_FIELDS, registryEntrySchema, saveRegistryEntry } from '@/api/registry';
+import { SensorRegistryEntry } from '@/types/registry';
+
+// Photos are stored inline in the browser, so keep them small
+const MAX_PHOTO_BYTES = 300 * 1024;
+
+type RegistryForm = Record<(typeof REGISTRY_FIELDS)[number]['key'], string>;
+
+const toForm = (entry?: Partial<SensorRegistryEntry>): RegistryForm =>
+  Object.fromEntries(
+    REGISTRY_FIELDS.map(field => [field.key, entry?.[field.key] === undefined ? '' : String(entry[field.key])])
+  ) as RegistryForm;
+
+const INPUT_TYPES: Partial<Record<keyof RegistryForm, string>> = {
+  installDate: 'date',
+  mountingHeightM: 'number',
+};
+
+interface SensorRegistryDialogProps {
+  // Entry to edit, or a partial one (e.g. just the deviceId) to start a new entry from
+  entry: Partial<SensorRegistryEntry> | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SensorRegistryDialog: React.FC<SensorRegistryDialogProps> = ({ entry, isOpen, onClose }) => {
+  const [form, setForm] = useState<RegistryForm>(() => toForm(entry));
+  const isNew = !entry?.updatedAt;
+
+  useEffect(() => {
+    if (isOpen) setForm(toForm(entry));
+  }, [entry, isOpen]);
+
+  const update = (key: keyof RegistryForm, value: string) => setForm(prev => ({ ...prev, [key]: value }));
+
+  const handlePhotoFile = (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast.error('Photo is too large; use one under 300 KB or link to it instead');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => update('photoUrl', String(reader.result));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    const result = registryEntrySchema.safeParse(form);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const field = REGISTRY_FIELDS.find(option => option.key === issue.path[0]);
+      toast.error(`${field?.label ?? 'Entry'}: ${issue.message}`);
+      return;
+    }
+    saveRegistryEntry(result.data as Omit<SensorRegistryEntry, 'updatedAt'>);
+    toast.success(`Saved ${result.data.name || result.data.deviceId}`);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-card border-forest-accent max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-forest-primary">
+            {isNew ? 'Register Sensor' : `Edit ${entry?.name || entry?.deviceId}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {REGISTRY_FIELDS.filter(field => field.key !== 'photoUrl').map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`registry-${field.key}`} className="text-forest-primary">{field.label}</Label>
+              <Input
+                id={`registry-${field.key}`}
+                type={INPUT_TYPES[field.key] ?? 'text'}
+                value={form[field.key]}
+                // The deviceId is the join key; changing it would orphan the entry
+                disabled={field.key === 'deviceId' && !isNew}
+                onChange={e => update(field.key, e.target.value)}
+                className="border-forest-accent/50"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="registry-photoUrl" className="text-forest-primary">Photo</Label>
+          <div className="flex gap-2">
+            <Input
+              id="registry-photoUrl"
+              value={form.photoUrl.startsWith('data:') ? 'Uploaded photo' : form.photoUrl}
+              disabled={form.photoUrl.startsWith('data:')}
+              onChange={e => update('photoUrl', e.target.value)}
+              placeholder="https://..."
+              className="border-forest-accent/50"
+            />
+            <Input
+              type="file"
+              accept="image/*"
+              onChange={e => handlePhotoFile(e.target.files?.[0])}
+              className="border-forest-accent/50 max-w-[14rem]"
+            />
+            {form.photoUrl && (
+              <Button variant="ghost" onClick={() => update('photoUrl', '')}>
+                Clear
+              </Button>
+            )}
+          </div>
+          {form.photoUrl && (
+            <img src={form.photoUrl} alt="Sensor installation" className="h-32 rounded-lg border object-cover" />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SensorRegistryDialog;
@@ -0,0 +1,256 @@
+// src/components/SpreadSimulationPanel.tsx
+// Grid-based spread simulation for the Affected Areas map: load fuel and elevation rasters, run
+// the cellular automaton and step through how the burned area grows.
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Mountain, Pause, Play, Square, Upload, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SIMULATION_DURATIONS, SIMULATION_FRAME_MIN } from '@/api/spreadSimulation';
+import { useSpreadSimulation } from '@/hooks/use-spread-simulation';
+import { paintSimulationFrame, simulationBounds } from '@/lib/spreadOverlay';
+import { FuelType, WindConditions } from '@/types/fireSpread';
+
+interface SpreadSimulationPanelProps {
+  map: L.Map | null;
+  origin: { latitude: number; longitude: number; humidity: number; temp: number };
+  // Same wind the page's prediction uses, live, cached or typed in
+  wind: WindConditions | null;
+  // Used wherever the fuel raster has no cover
+  fuel: FuelType;
+}
+
+// Real time between frames when replaying
+const REPLAY_FRAME_MS = 400;
+
+const RasterPicker: React.FC<{
+  label: string;
+  hint: string;
+  raster: File | null;
+  onChange: (raster: File | null) => void;
+}> = ({ label, hint, raster, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // The file is only read when a simulation runs, in the worker
+  const handleFile = (file: File | undefined) => {
+    if (file) onChange(file);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-600">{label}</span>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".tif,.tiff,.asc,.txt"
+          className="hidden"
+          onChange={e => handleFile(e.target.files?.[0])}
+        />
+        {raster ? (
+          <span className="flex items-center gap-1 text-sm font-semibold truncate">
+            {raster.name}
+            <button type="button" onClick={() => onChange(null)} className="text-gray-400 hover:text-gray-700">
+              <X className="w-4 h-4" />
+            </button>
+          </span>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Load
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        {raster ? `${(raster.size / 1_000_000).toFixed(1)} MB, read when the simulation runs` : hint}
+      </p>
+    </div>
+  );
+};
+
+const SpreadSimulationPanel: React.FC<SpreadSimulationPanelProps> = ({ map, origin, wind, fuel }) => {
+  const [fuelRaster, setFuelRaster] = useState<File | null>(null);
+  const [elevationRaster, setElevationRaster] = useState<File | null>(null);
+  const [durationMin, setDurationMin] = useState(SIMULATION_DURATIONS[1]);
+  // Where the wind for the shown run came from
+  const [runWindSource, setRunWindSource] = useState<WindConditions['source'] | null>(null);
+  // null follows the newest frame while the simulation runs
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const overlayRef = useRef<L.ImageOverlay | null>(null);
+  const { grid, frames, running, error, run, stop, clear: clearSimulation } = useSpreadSimulation();
+
+  const shownIndex = frameIndex ?? frames.length - 1;
+  const frame = frames[shownIndex];
+
+  const runSimulation = () => {
+    if (!wind) return;
+    setRunWindSource(wind.source);
+    setFrameIndex(null);
+    setReplaying(false);
+    run({
+      latitude: origin.latitude,
+      longitude: origin.longitude,
+      fallbackFuel: fuel,
+      fuelFile: fuelRaster,
+      elevationFile: elevationRaster,
+      windSpeedMs: wind.speedMs,
+      windFromDeg: wind.fromDeg,
+      relativeHumidity: origin.humidity,
+      temperatureC: origin.temp,
+      durationMin,
+      frameMin: SIMULATION_FRAME_MIN,
+    });
+  };
+
+  useEffect(() => {
+    if (!replaying) return;
+    const timer = setInterval(() => {
+      setFrameIndex(current => {
+        const next = (current ?? 0) + 1;
+        if (next >= frames.length - 1) setReplaying(false);
+        return Math.min(next, frames.length - 1);
+      });
+    }, REPLAY_FRAME_MS);
+    return () => clearInterval(timer);
+  }, [replaying, frames.length]);
+
+  useEffect(() => {
+    if (!map || !grid || !frame) return;
+    const url = paintSimulationFrame(grid, frame.cells, !!fuelRaster);
+    if (overlayRef.current) {
+      overlayRef.current.setUrl(url).setBounds(simulationBounds(grid));
+    } else {
+      overlayRef.current = L.imageOverlay(url, simulationBounds(grid), {
+        interactive: false,
+        className: '[image-rendering:pixelated]',
+      }).addTo(map);
+    }
+  }, [map, grid, frame, fuelRaster]);
+
+  useEffect(
+    () => () => {
+      overlayRef.current?.remove();
+      overlayRef.current = null;
+    },
+    [map]
+  );
+
+  const clear = () => {
+    clearSimulation();
+    setReplaying(false);
+    overlayRef.current?.remove();
+    overlayRef.current = null;
+  };
+
+  const toggleReplay = () => {
+    if (!replaying && shownIndex >= frames.length - 1) setFrameIndex(0);
+    setReplaying(!replaying);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mountain className="w-5 h-5 text-green-700" />
+          Terrain Simulation
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Spreads the fire cell by cell over fuel and terrain, so ridges, rivers and bare ground shape it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RasterPicker
+          label="Fuel raster"
+          hint="FBFM13 or FBFM40 fuel model codes; 91-99 (urban, water, barren, ...) do not burn"
+          raster={fuelRaster}
+          onChange={setFuelRaster}
+        />
+        <RasterPicker
+          label="Elevation raster"
+          hint="Heights in metres; without one the ground is flat"
+          raster={elevationRaster}
+          onChange={setElevationRaster}
+        />
+        <p className="text-xs text-gray-500">GeoTIFF or ASCII grid in WGS84 (EPSG:4326).</p>
+
+        <div className="flex items-center gap-2">
+          <Select value={String(durationMin)} onValueChange={value => setDurationMin(Number(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SIMULATION_DURATIONS.map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes / 60} h
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {running ? (
+            <Button variant="outline" onClick={stop}>
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button onClick={runSimulation} disabled={!wind} className="bg-red-600 text-white hover:bg-red-700">
+              <Play className="w-4 h-4 mr-2" />
+              Simulate
+            </Button>
+          )}
+          {grid && !running && (
+            <Button variant="ghost" size="sm" onClick={clear}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {running && !grid && <p className="text-sm text-gray-600">Reading rasters...</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {frame && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={toggleReplay} disabled={running || frames.length < 2}>
+                {replaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Slider
+                min={0}
+                max={Math.max(0, frames.length - 1)}
+                step={1}
+                value={[shownIndex]}
+                onValueChange={([value]) => {
+                  setReplaying(false);
+                  setFrameIndex(value);
+                }}
+                disabled={frames.length < 2}
+              />
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">
+                {frame.minute} min{running ? ' (running...)' : frame.done && frame.minute < durationMin ? ' (fire went out)' : ''}
+              </span>
+              <span className="font-semibold">{frame.burnedHa.toFixed(1)} ha burned</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              {grid ? `${grid.cellM} m cells. ` : ''}Orange cells are burning, dark cells have burned out.
+            </p>
+            {frame.reachedEdge && (
+              <p className="text-xs text-amber-700">
+                The fire reached the edge of the simulated area; it would keep spreading past it.
+              </p>
+            )}
+            {runWindSource === 'manual' && (
+              <p className="text-xs text-amber-700">Simulated with manually entered wind, not live weather.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpreadSimulationPanel;
@@ -0,0 +1,363 @@
+// src/components/StatusRulesSettings.tsx
+// Settings card for the status rule engine: the default rule of each level, plus overrides
+// that replace individual levels for one sensor or one zone. Zones are the ones devices report
+// and the ones drawn or imported on the map.
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Gauge, Plus, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_RULE_SET,
+  describeCondition,
+  getRuleOverride,
+  removeRuleOverride,
+  resolveRules,
+  RULE_LEVELS,
+  RULE_METRICS,
+  RULE_OPERATORS,
+  setDefaultRules,
+  setRuleOverride,
+  STATUS_LEVEL_LABELS,
+} from '@/api/statusRules';
+import { getRuleZones, ZONE_KINDS } from '@/api/zones';
+import { useSensors } from '@/hooks/use-sensors';
+import { useStatusRules } from '@/hooks/use-status-rules';
+import { useZones } from '@/hooks/use-zones';
+import { STATUS_LEVEL_BADGE_CLASSES } from '@/lib/statusStyles';
+import { RuleCondition, RuleLevel, RuleOverrideScope, RuleSet, StatusRule } from '@/types/statusRules';
+
+const DEFAULT_SCOPE = 'default';
+
+const NEW_CONDITION: RuleCondition = { metric: 'temp', measure: 'value', operator: '>', threshold: 40, forMinutes: 0 };
+
+const parseScope = (key: string): { scope: RuleOverrideScope; id: string } | null => {
+  if (key === DEFAULT_SCOPE) return null;
+  const [scope, ...rest] = key.split(':');
+  return { scope: scope as RuleOverrideScope, id: rest.join(':') };
+};
+
+interface RuleEditorProps {
+  rule: StatusRule;
+  onChange: (rule: StatusRule) => void;
+}
+
+const RuleEditor: React.FC<RuleEditorProps> = ({ rule, onChange }) => {
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) =>
+    onChange({
+      ...rule,
+      conditions: rule.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)),
+    });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Match</span>
+        <Select value={rule.match} onValueChange={value => onChange({ ...rule, match: value as StatusRule['match'] })}>
+          <SelectTrigger className="h-8 w-24 border-forest-accent/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">any</SelectItem>
+            <SelectItem value="all">all</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">of these conditions</span>
+      </div>
+
+      {rule.conditions.map((condition, index) => (
+        <div key={index} className="grid gap-2 grid-cols-2 md:grid-cols-[8rem_7rem_4.5rem_6rem_6rem_auto] items-center">
+          <Select
+            value={condition.metric}
+            onValueChange={value => updateCondition(index, { metric: value as RuleCondition['metric'] })}
+          >
+            <SelectTrigger className="h-8 border-forest-accent/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_METRICS.map(metric => (
+                <SelectItem key={metric.value} value={metric.value}>{metric.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={condition.measure}
+            onValueChange={value => updateCondition(index, { measure: value as RuleCondition['measure'] })}
+          >
+            <SelectTrigger className="h-8 border-forest-accent/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="value">value</SelectItem>
+              <SelectItem value="rate">rate / min</SelectItem>
+              <SelectItem value="average">average</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={condition.operator}
+            onValueChange={value => updateCondition(index, { operator: value as RuleCondition['operator'] })}
+          >
+            <SelectTrigger className="h-8 border-forest-accent/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_OPERATORS.map(operator => (
+                <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            value={condition.threshold}
+            onChange={e => updateCondition(index, { threshold: Number(e.target.value) })}
+            className="h-8 border-forest-accent/50"
+            title="Threshold"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={condition.forMinutes}
+            onChange={e => updateCondition(index, { forMinutes: Math.max(0, Number(e.target.value)) })}
+            className="h-8 border-forest-accent/50"
+            title={condition.measure === 'value' ? 'Must hold for this many minutes' : 'Measured over this many minutes'}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Remove condition"
+            onClick={() => onChange({ ...rule, conditions: rule.conditions.filter((_, i) => i !== index) })}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {rule.conditions.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Last column: minutes a value must have held, or the window a rate or average is measured over.
+        </p>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+        onClick={() => onChange({ ...rule, conditions: [...rule.conditions, NEW_CONDITION] })}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Condition
+      </Button>
+    </div>
+  );
+};
+
+const StatusRulesSettings: React.FC = () => {
+  const config = useStatusRules();
+  const { data: sensors = [] } = useSensors();
+  const mapZones = useZones();
+  const [scopeKey, setScopeKey] = useState(DEFAULT_SCOPE);
+  const [zoneName, setZoneName] = useState('');
+  const [draft, setDraft] = useState<Partial<RuleSet>>(config.rules);
+
+  const target = parseScope(scopeKey);
+  const existingOverride = target ? getRuleOverride(target.scope, target.id, config) : undefined;
+  // What a level falls back to when this scope doesn't override it
+  const inherited = useMemo(() => {
+    const scope = parseScope(scopeKey);
+    if (!scope) return DEFAULT_RULE_SET;
+    const sensor = scope.scope === 'sensor' ? sensors.find(candidate => candidate.deviceId === scope.id) : undefined;
+    const ruleZones = scope.scope === 'zone' ? [scope.id] : sensor ? getRuleZones(sensor, mapZones) : [];
+    return resolveRules({ zones: ruleZones }, config);
+  }, [scopeKey, sensors, mapZones, config]);
+
+  // Reload when switching scope or after a save
+  useEffect(() => {
+    const scope = parseScope(scopeKey);
+    setDraft(scope ? getRuleOverride(scope.scope, scope.id, config)?.rules ?? {} : config.rules);
+  }, [scopeKey, config]);
+
+  const zones = useMemo(() => {
+    const names = new Set<string>();
+    sensors.forEach(sensor => sensor.zone && names.add(sensor.zone));
+    mapZones.forEach(zone => names.add(zone.name));
+    config.overrides.filter(override => override.scope === 'zone').forEach(override => names.add(override.id));
+    return Array.from(names).sort();
+  }, [sensors, mapZones, config]);
+
+  // Kind of the map zone with that name, to tell a range from a beat in the picker
+  const zoneKindLabel = (name: string) => {
+    const kind = mapZones.find(zone => zone.name === name)?.kind;
+    return ZONE_KINDS.find(option => option.value === kind)?.label;
+  };
+
+  const hasOverride = (scope: RuleOverrideScope, id: string) =>
+    config.overrides.some(override => override.scope === scope && override.id === id);
+
+  const handleSave = () => {
+    if (target) {
+      setRuleOverride({ ...target, rules: draft });
+    } else {
+      setDefaultRules(draft as RuleSet);
+    }
+    toast.success('Status rules saved');
+  };
+
+  const handleRemoveOverride = () => {
+    if (!target) return;
+    removeRuleOverride(target.scope, target.id);
+    toast.success('Override removed');
+  };
+
+  const addZone = () => {
+    const name = zoneName.trim();
+    if (!name) return;
+    setScopeKey(`zone:${name}`);
+    setZoneName('');
+  };
+
+  return (
+    <Card className="glass-card border-forest-accent/30 mt-6">
+      <CardHeader>
+        <CardTitle className="text-forest-primary flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          Status Rules
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          When a reading counts as watch, warning, critical or fire. The most severe matching level wins, and a
+          device reporting fire is always shown as fire. Badges, map markers and report charts all use these rules.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label className="text-forest-primary">Editing</Label>
+            <Select value={scopeKey} onValueChange={setScopeKey}>
+              <SelectTrigger className="border-forest-accent/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_SCOPE}>Default rules</SelectItem>
+                {zones.map(zone => (
+                  <SelectItem key={`zone:${zone}`} value={`zone:${zone}`}>
+                    Zone: {zone}
+                    {zoneKindLabel(zone) ? ` (${zoneKindLabel(zone)})` : ''}
+                    {hasOverride('zone', zone) ? ' •' : ''}
+                  </SelectItem>
+                ))}
+                {target?.scope === 'zone' && !zones.includes(target.id) && (
+                  <SelectItem value={scopeKey}>Zone: {target.id}</SelectItem>
+                )}
+                {sensors.map(sensor => (
+                  <SelectItem key={`sensor:${sensor.deviceId}`} value={`sensor:${sensor.deviceId}`}>
+                    Sensor: {sensor.name || sensor.deviceId}{hasOverride('sensor', sensor.deviceId) ? ' •' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              • has an override. Sensor overrides win over zone overrides, and a beat's over its range's or division's.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ruleZone" className="text-forest-primary">Override a zone</Label>
+            <div className="flex gap-2">
+              <Input
+                id="ruleZone"
+                value={zoneName}
+                onChange={e => setZoneName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addZone()}
+                placeholder="Zone name"
+                className="border-forest-accent/50"
+              />
+              <Button
+                variant="outline"
+                className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                onClick={addZone}
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {RULE_LEVELS.map((level: RuleLevel) => {
+          const overridden = !target || draft[level] !== undefined;
+          return (
+            <div key={level} className="p-3 border rounded-lg space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <Badge className={STATUS_LEVEL_BADGE_CLASSES[level]}>{STATUS_LEVEL_LABELS[level]}</Badge>
+                {target && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`override-${level}`} className="text-xs text-muted-foreground">
+                      Override
+                    </Label>
+                    <Switch
+                      id={`override-${level}`}
+                      checked={overridden}
+                      onCheckedChange={checked =>
+                        setDraft(prev => {
+                          const next = { ...prev };
+                          if (checked) next[level] = inherited[level];
+                          else delete next[level];
+                          return next;
+                        })
+                      }
+                    />
+                  </div>
+                )}
+              </div>
+              {overridden ? (
+                <RuleEditor rule={draft[level]} onChange={rule => setDraft(prev => ({ ...prev, [level]: rule }))} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {inherited[level].conditions.length === 0
+                    ? 'Inherited: no conditions'
+                    : `Inherited: ${inherited[level].match} of ${inherited[level].conditions.map(describeCondition).join('; ')}`}
+                </p>
+              )}
+              {level === 'fire' && overridden && draft[level]?.conditions.length === 0 && (
+                <p className="text-xs text-muted-foreground">No conditions: only the device's own fire flag raises this level.</p>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleSave} className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+          {target ? (
+            existingOverride && (
+              <Button
+                variant="outline"
+                className="border-forest-danger text-forest-danger hover:bg-forest-danger hover:text-white"
+                onClick={handleRemoveOverride}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove Override
+              </Button>
+            )
+          ) : (
+            <Button
+              variant="outline"
+              className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+              onClick={() => setDraft(DEFAULT_RULE_SET)}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Restore Defaults
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StatusRulesSettings;
@@ -0,0 +1,45 @@
+// src/components/TrendArrow.tsx
+import React from 'react';
+import { ArrowDownRight, ArrowRight, ArrowUpRight } from 'lucide-react';
+import { MetricTrend } from '@/api/trends';
+import { RULE_METRICS } from '@/api/statusRules';
+import { RuleMetric } from '@/types/statusRules';
+
+interface TrendArrowProps {
+  metric: RuleMetric;
+  trend: MetricTrend;
+  // Print the rate next to the arrow instead of only in the tooltip
+  showRate?: boolean;
+  className?: string;
+}
+
+const ICONS = {
+  rising: ArrowUpRight,
+  falling: ArrowDownRight,
+  steady: ArrowRight,
+};
+
+// Rising heat and smoke and falling humidity are the directions that raise fire risk
+const isWorsening = (metric: RuleMetric, direction: MetricTrend['direction']) =>
+  metric === 'humidity' ? direction === 'falling' : direction === 'rising';
+
+const TrendArrow: React.FC<TrendArrowProps> = ({ metric, trend, showRate = false, className = '' }) => {
+  const Icon = ICONS[trend.direction];
+  const unit = RULE_METRICS.find(option => option.value === metric)?.unit ?? '';
+  const rate = trend.rate === null ? 'not enough data' : `${trend.rate > 0 ? '+' : ''}${trend.rate.toFixed(1)} ${unit}/min`;
+  const color =
+    trend.direction === 'steady'
+      ? 'text-muted-foreground'
+      : isWorsening(metric, trend.direction)
+        ? 'text-red-600'
+        : 'text-green-600';
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 ${color} ${className}`} title={`Trend: ${rate}`}>
+      <Icon className="w-3 h-3" />
+      {showRate && trend.rate !== null && <span className="text-xs">{rate}</span>}
+    </span>
+  );
+};
+
+export default TrendArrow;
@@ -0,0 +1,210 @@
+// src/components/ZonePanel.tsx
+// Zone list beside the dashboard map: per-zone aggregates, GeoJSON import/export, and the
+// controls for drawing a new zone on the map.
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, PenLine, Trash2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { addZones, parseZonesGeoJson, polygonFromLatLngs, removeZone, ZONE_KINDS, zonesToGeoJson } from '@/api/zones';
+import { STATUS_LEVEL_LABELS } from '@/api/statusRules';
+import { STATUS_LEVEL_BADGE_CLASSES } from '@/lib/statusStyles';
+import { downloadText } from '@/lib/download';
+import { ForestZone, ZoneAggregate, ZoneKind } from '@/types/zone';
+
+interface ZonePanelProps {
+  zones: ForestZone[];
+  aggregates: ZoneAggregate[];
+  isDrawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+  // Outline finished on the map, waiting for a name
+  drawnOutline: { lat: number; lng: number }[] | null;
+  onDrawnOutlineHandled: () => void;
+}
+
+const kindLabel = (kind: ZoneKind) => ZONE_KINDS.find(option => option.value === kind)?.label ?? kind;
+
+const ZonePanel: React.FC<ZonePanelProps> = ({
+  zones,
+  aggregates,
+  isDrawing,
+  onDrawingChange,
+  drawnOutline,
+  onDrawnOutlineHandled,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<ZoneKind>('beat');
+
+  useEffect(() => {
+    if (drawnOutline) setName('');
+  }, [drawnOutline]);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = parseZonesGeoJson(await file.text());
+      addZones(result.zones);
+      if (result.skipped === 0) {
+        toast.success(`Imported ${result.zones.length} zones`);
+      } else {
+        toast.warning(`Imported ${result.zones.length} zones, skipped ${result.skipped} without polygon geometry`);
+      }
+    } catch (error) {
+      toast.error(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSaveDrawn = () => {
+    if (!drawnOutline || !name.trim()) return;
+    addZones([{ name: name.trim(), kind, polygons: [polygonFromLatLngs(drawnOutline)] }]);
+    toast.success(`Saved zone ${name.trim()}`);
+    onDrawnOutlineHandled();
+  };
+
+  const handleRemove = (zone: ForestZone) => {
+    if (!window.confirm(`Remove zone ${zone.name}?`)) return;
+    removeZone(zone.id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-forest-primary">Forest Zones</h3>
+          <p className="text-sm text-muted-foreground">
+            {isDrawing
+              ? 'Click the map to outline the zone, double-click to finish, Escape to cancel.'
+              : 'Divisions, ranges, beats and protected areas, colored by their worst sensor.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            className="hidden"
+            onChange={e => handleImport(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import GeoJSON
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={zones.length === 0}
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => downloadText(zonesToGeoJson(zones), 'forest-zones.geojson', 'application/geo+json')}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          {isDrawing ? (
+            <Button variant="outline" size="sm" onClick={() => onDrawingChange(false)}>
+              <X className="w-4 h-4 mr-2" />
+              Cancel Drawing
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              className="bg-forest-primary text-white hover:bg-forest-primary/90"
+              onClick={() => onDrawingChange(true)}
+            >
+              <PenLine className="w-4 h-4 mr-2" />
+              Draw Zone
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {zones.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No zones yet. Import a GeoJSON file or draw one on the map.</p>
+      ) : (
+        <div className="grid gap-2 md:grid-cols-2 xl:grid-cols-3">
+          {zones.map(zone => {
+            const aggregate = aggregates.find(candidate => candidate.zoneId === zone.id);
+            return (
+              <div key={zone.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{zone.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {kindLabel(zone.kind)} · {aggregate?.sensorCount ?? 0} sensors · {aggregate?.activeFires ?? 0} active
+                    fires
+                  </p>
+                  {aggregate?.sensorCount ? (
+                    <Badge className={`${STATUS_LEVEL_BADGE_CLASSES[aggregate.worstLevel]} mt-1`}>
+                      {STATUS_LEVEL_LABELS[aggregate.worstLevel]}
+                    </Badge>
+                  ) : null}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(zone)} aria-label={`Remove ${zone.name}`}>
+                  <Trash2 className="w-4 h-4 text-forest-danger" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={drawnOutline !== null} onOpenChange={open => !open && onDrawnOutlineHandled()}>
+        <DialogContent className="glass-card border-forest-accent">
+          <DialogHeader>
+            <DialogTitle className="text-forest-primary">Save Zone</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="zone-name" className="text-forest-primary">Name</Label>
+              <Input
+                id="zone-name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                className="border-forest-accent/50"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-forest-primary">Kind</Label>
+              <Select value={kind} onValueChange={value => setKind(value as ZoneKind)}>
+                <SelectTrigger className="border-forest-accent/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ZONE_KINDS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={onDrawnOutlineHandled}>
+              Discard
+            </Button>
+            <Button
+              onClick={handleSaveDrawn}
+              disabled={!name.trim()}
+              className="bg-forest-primary text-white hover:bg-forest-primary/90"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ZonePanel;
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getAlertSettings, subscribeAlertSettings, AlertSettings } from '@/lib/alertSettings';
+
+export function useAlertSettings(): AlertSettings {
+  return useSyncExternalStore(subscribeAlertSettings, getAlertSettings);
+}
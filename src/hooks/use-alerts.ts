@@ -0,0 +1,27 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getAlerts, getAlertsForDevice, isAlertOpen, subscribeAlerts } from '@/api/alerts';
+import { FireAlertRecord } from '@/types/alert';
+
+export function useAlerts(): FireAlertRecord[] {
+  return useSyncExternalStore(subscribeAlerts, getAlerts);
+}
+
+// The open alert of each device that has one, keyed by deviceId
+export function useOpenAlertsByDevice(): Record<string, FireAlertRecord> {
+  const alerts = useAlerts();
+  return useMemo(
+    () => Object.fromEntries(alerts.filter(isAlertOpen).map(alert => [alert.deviceId, alert])),
+    [alerts]
+  );
+}
+
+// Alerts of one device that were open at any point between from and to
+export function useAlertsForDevice(deviceId: string | undefined, from: Date, to: Date): FireAlertRecord[] {
+  const alerts = useAlerts();
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  return useMemo(
+    () => (deviceId ? getAlertsForDevice(deviceId, new Date(fromMs), new Date(toMs), alerts) : []),
+    [alerts, deviceId, fromMs, toMs]
+  );
+}
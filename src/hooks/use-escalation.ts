@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getEscalationPolicy, subscribeEscalationPolicy } from '@/api/escalation';
+import { getOutbox, subscribeOutbox, OutboxEntry } from '@/api/notifiers';
+import { EscalationPolicy } from '@/types/alert';
+
+export function useEscalationPolicy(): EscalationPolicy {
+  return useSyncExternalStore(subscribeEscalationPolicy, getEscalationPolicy);
+}
+
+export function useNotifierOutbox(): OutboxEntry[] {
+  return useSyncExternalStore(subscribeOutbox, getOutbox);
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { getHeartbeatSettings, subscribeHeartbeatSettings } from '@/api/heartbeat';
+import { HeartbeatSettings } from '@/types/sensor';
+
+const HEARTBEAT_TICK_MS = 30000;
+
+export function useHeartbeatSettings(): HeartbeatSettings {
+  return useSyncExternalStore(subscribeHeartbeatSettings, getHeartbeatSettings);
+}
+
+// Current time, refreshed on a timer: a silent device gets no new data to re-render it, so
+// its heartbeat only moves on if the clock does
+export function useHeartbeatClock(intervalMs = HEARTBEAT_TICK_MS): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import type { LiveFeedStatus } from '@/api/liveFeed';
+
+export const LiveFeedContext = createContext<LiveFeedStatus>('disabled');
+
+export function useLiveFeedStatus() {
+  return useContext(LiveFeedContext);
+}
+
+// Poll only while the push feed is not delivering updates
+export function useFallbackInterval(refetchInterval?: number) {
+  const status = useLiveFeedStatus();
+  return status === 'open' ? false : refetchInterval;
+}
@@ -0,0 +1,28 @@
+import { useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  getMapLayerChoices,
+  getMapProviderSettings,
+  subscribeMapLayerChoices,
+  subscribeMapProviderSettings,
+} from '@/api/mapLayers';
+import { BoundingBox, getWaterSources, WATER_SOURCES_QUERY_KEY } from '@/api/waterSources';
+import { MapLayerChoices, MapProviderSettings } from '@/types/mapLayers';
+
+export function useMapProviderSettings(): MapProviderSettings {
+  return useSyncExternalStore(subscribeMapProviderSettings, getMapProviderSettings);
+}
+
+export function useMapLayerChoices(): MapLayerChoices {
+  return useSyncExternalStore(subscribeMapLayerChoices, getMapLayerChoices);
+}
+
+// Mapped water barely changes, so an area is fetched once per session
+export function useWaterSources(box: BoundingBox | null) {
+  return useQuery({
+    queryKey: [...WATER_SOURCES_QUERY_KEY, box],
+    queryFn: ({ signal }) => getWaterSources(box, signal),
+    enabled: box !== null,
+    staleTime: Infinity,
+  });
+}
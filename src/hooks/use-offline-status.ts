@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getOfflineStatus, subscribeOfflineStatus, OfflineStatus } from '@/api/connectivity';
+
+export function useOfflineStatus(): OfflineStatus {
+  return useSyncExternalStore(subscribeOfflineStatus, getOfflineStatus);
+}
@@ -0,0 +1,94 @@
+// src/hooks/use-playback.ts
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { sensorQueryKeys } from '@/api/sensors';
+import { getFleetHistory, getPlaybackStepMs, PLAYBACK_FRAME_MS, sensorsAt } from '@/api/playback';
+import { SensorData } from '@/types/sensor';
+
+interface PlaybackRange {
+  from: Date;
+  to: Date;
+  // Devices whose history is replayed, as the fleet stood when playback started
+  deviceIds: string[];
+}
+
+// Scrubber state for replaying the fleet. The window and the devices are pinned when playback
+// starts, so the fetched history stays put while live data and fleet changes keep arriving
+// underneath.
+export function usePlayback(sensors: SensorData[]) {
+  const [range, setRange] = useState<PlaybackRange | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const { data: history, isLoading, error } = useQuery({
+    queryKey: sensorQueryKeys.fleetHistory(
+      range?.deviceIds.join() ?? '',
+      range?.from.toISOString() ?? '',
+      range?.to.toISOString() ?? ''
+    ),
+    queryFn: ({ signal }) => getFleetHistory(range.deviceIds, range.from, range.to, signal),
+    enabled: !!range && range.deviceIds.length > 0,
+    staleTime: Infinity,
+  });
+
+  const stepMs = range ? getPlaybackStepMs(range.from, range.to) : 0;
+  const end = range?.to.getTime() ?? 0;
+
+  useEffect(() => {
+    if (!playing || !history) return;
+    const timer = setInterval(() => {
+      setTime(current => Math.min(end, current + stepMs));
+    }, PLAYBACK_FRAME_MS / speed);
+    return () => clearInterval(timer);
+  }, [playing, history, speed, stepMs, end]);
+
+  // Stop at the end rather than loop, so the last frame stays up for a look
+  useEffect(() => {
+    if (playing && time >= end) setPlaying(false);
+  }, [playing, time, end]);
+
+  const playbackSensors = useMemo(
+    () => (history ? sensorsAt(sensors, history, time) : []),
+    [sensors, history, time]
+  );
+
+  const start = (windowMs: number) => {
+    const to = new Date();
+    const from = new Date(to.getTime() - windowMs);
+    setRange({ from, to, deviceIds: sensors.map(sensor => sensor.deviceId).sort() });
+    setTime(from.getTime());
+    setPlaying(false);
+  };
+
+  const stop = () => {
+    setRange(null);
+    setPlaying(false);
+  };
+
+  // Playing from the last frame starts over
+  const togglePlaying = () => {
+    if (!playing && range && time >= end) setTime(range.from.getTime());
+    setPlaying(!playing);
+  };
+
+  return {
+    active: !!range,
+    range,
+    time,
+    setTime,
+    stepMs,
+    playing,
+    togglePlaying,
+    speed,
+    setSpeed,
+    start,
+    stop,
+    history,
+    sensors: playbackSensors,
+    isLoading,
+    error,
+  };
+}
+
+export type Playback = ReturnType<typeof usePlayback>;
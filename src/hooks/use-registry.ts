@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getRegistry, subscribeRegistry } from '@/api/registry';
+import { SensorRegistry } from '@/types/registry';
+
+export function useSensorRegistry(): SensorRegistry {
+  return useSyncExternalStore(subscribeRegistry, getRegistry);
+}
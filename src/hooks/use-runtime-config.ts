@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getConfig, subscribeConfig, RuntimeConfig } from '@/api/config';
+
+// Re-renders when the Settings page saves or resets endpoint overrides
+export function useRuntimeConfig(): RuntimeConfig {
+  return useSyncExternalStore(subscribeConfig, getConfig);
+}
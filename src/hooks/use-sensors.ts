@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getSensor, getSensors, sensorQueryKeys } from '@/api/sensors';
+import { getDeviceHistoryRange, HistoryResolution } from '@/api/history';
+import { joinRegistry, joinRegistryEntry } from '@/api/registry';
+import { useFallbackInterval } from '@/hooks/use-live-feed';
+import { useSensorRegistry } from '@/hooks/use-registry';
+import { SensorData } from '@/types/sensor';
+
+interface UseSensorsOptions {
+  refetchInterval?: number;
+}
+
+// The registry is joined on read rather than into the cache, so edits show without a refetch
+export function useSensors({ refetchInterval }: UseSensorsOptions = {}) {
+  const registry = useSensorRegistry();
+  const select = useCallback((sensors: SensorData[]) => joinRegistry(sensors, registry), [registry]);
+
+  return useQuery({
+    queryKey: sensorQueryKeys.all,
+    queryFn: ({ signal }) => getSensors(signal),
+    refetchInterval: useFallbackInterval(refetchInterval),
+    select,
+  });
+}
+
+export function useSensor(deviceId: string, { refetchInterval }: UseSensorsOptions = {}) {
+  const registry = useSensorRegistry();
+  const select = useCallback(
+    (sensor: SensorData | null) => (sensor ? joinRegistryEntry(sensor, registry) : sensor),
+    [registry]
+  );
+
+  return useQuery({
+    queryKey: sensorQueryKeys.device(deviceId),
+    queryFn: ({ signal }) => getSensor(deviceId, signal),
+    refetchInterval: useFallbackInterval(refetchInterval),
+    enabled: !!deviceId,
+    select,
+  });
+}
+
+export function useDeviceHistory(deviceId: string, from: Date, to: Date, resolution: HistoryResolution = 'raw') {
+  return useQuery({
+    queryKey: sensorQueryKeys.history(deviceId, from.toISOString(), to.toISOString(), resolution),
+    queryFn: ({ signal }) => getDeviceHistoryRange(deviceId, from, to, resolution, signal),
+    enabled: !!deviceId,
+    staleTime: 60000,
+  });
+}
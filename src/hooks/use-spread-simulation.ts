@@ -0,0 +1,59 @@
+// src/hooks/use-spread-simulation.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SimulationFrame, SimulationGrid, SimulationJob, SimulationMessage } from '@/types/fireSpread';
+
+// Runs the spread simulation in a worker, which also reads the rasters and builds the grid, and
+// collects its frames as they arrive. Starting a new run or leaving the page stops the old one.
+export function useSpreadSimulation() {
+  const workerRef = useRef<Worker | null>(null);
+  const [grid, setGrid] = useState<SimulationGrid | null>(null);
+  const [frames, setFrames] = useState<SimulationFrame[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  }, []);
+
+  const clear = useCallback(() => {
+    stop();
+    setGrid(null);
+    setFrames([]);
+  }, [stop]);
+
+  const run = useCallback(
+    (job: SimulationJob) => {
+      stop();
+      const worker = new Worker(new URL('../workers/spreadSimulation.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<SimulationMessage>) => {
+        const message = event.data;
+        if (message.type === 'grid') {
+          setGrid(message.grid);
+        } else if (message.type === 'frame') {
+          setFrames(previous => [...previous, message.frame]);
+          if (message.frame.done) stop();
+        } else {
+          setError(message.message);
+          stop();
+        }
+      };
+      worker.onerror = event => {
+        setError(event.message || 'Simulation failed');
+        stop();
+      };
+      workerRef.current = worker;
+      setGrid(null);
+      setFrames([]);
+      setError(null);
+      setRunning(true);
+      worker.postMessage(job);
+    },
+    [stop]
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return { grid, frames, running, error, run, stop, clear };
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getStatusRulesConfig, subscribeStatusRules } from '@/api/statusRules';
+import { StatusRulesConfig } from '@/types/statusRules';
+
+// Components that evaluate statuses call this so they re-render when the rules change
+export function useStatusRules(): StatusRulesConfig {
+  return useSyncExternalStore(subscribeStatusRules, getStatusRulesConfig);
+}
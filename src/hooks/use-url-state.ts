@@ -0,0 +1,13 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { applyParamChanges, ParamChanges } from '@/lib/urlState';
+
+// View changes replace the history entry, so Back leaves the page instead of replaying every pan
+export function useUrlState() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const updateParams = useCallback(
+    (changes: ParamChanges) => setSearchParams(prev => applyParamChanges(prev, changes), { replace: true }),
+    [setSearchParams]
+  );
+  return [searchParams, updateParams] as const;
+}
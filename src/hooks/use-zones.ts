@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getZones, subscribeZones } from '@/api/zones';
+import { ForestZone } from '@/types/zone';
+
+export function useZones(): ForestZone[] {
+  return useSyncExternalStore(subscribeZones, getZones);
+}
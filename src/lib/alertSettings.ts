@@ -0,0 +1,65 @@
+// src/lib/alertSettings.ts
+// How the global fire alert watcher gets the operator's attention. Stored per browser.
+import { onStorageChange } from '@/lib/storageSync';
+
+export type SirenPattern = 'wail' | 'yelp' | 'beep';
+
+export interface AlertSettings {
+  sirenEnabled: boolean;
+  sirenPattern: SirenPattern;
+  // 0..1
+  sirenVolume: number;
+  desktopNotifications: boolean;
+  flashTitle: boolean;
+  // Toast and notify when readings trend toward fire before the device flags one
+  preFireWarnings: boolean;
+}
+
+export const SIREN_PATTERNS: { value: SirenPattern; label: string }[] = [
+  { value: 'wail', label: 'Wail (slow rise and fall)' },
+  { value: 'yelp', label: 'Yelp (fast sweep)' },
+  { value: 'beep', label: 'Beep' },
+];
+
+const ALERT_SETTINGS_KEY = 'alertSettings';
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  sirenEnabled: true,
+  sirenPattern: 'wail',
+  sirenVolume: 0.6,
+  desktopNotifications: true,
+  flashTitle: true,
+  preFireWarnings: true,
+};
+
+const listeners = new Set<() => void>();
+
+const readSettings = (): AlertSettings => {
+  try {
+    return { ...DEFAULT_ALERT_SETTINGS, ...JSON.parse(localStorage.getItem(ALERT_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_ALERT_SETTINGS;
+  }
+};
+
+let currentSettings = readSettings();
+
+onStorageChange(ALERT_SETTINGS_KEY, () => {
+  currentSettings = readSettings();
+  listeners.forEach(listener => listener());
+});
+
+export const getAlertSettings = (): AlertSettings => currentSettings;
+
+export const setAlertSettings = (changes: Partial<AlertSettings>) => {
+  currentSettings = { ...currentSettings, ...changes };
+  localStorage.setItem(ALERT_SETTINGS_KEY, JSON.stringify(currentSettings));
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeAlertSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,65 @@
+// src/lib/csv.ts
+// Minimal CSV reading and writing for imports and exports.
+export const escapeCsvValue = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. Blank lines are dropped.
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Spreadsheet exports often start with a byte order mark
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Rows as objects keyed by the column each header cell resolves to; unknown columns are dropped
+export const parseCsvRecords = <K extends string>(
+  text: string,
+  resolveColumn: (header: string) => K | undefined
+): { columns: (K | undefined)[]; records: Partial<Record<K, string>>[] } => {
+  const [header = [], ...rows] = parseCsvRows(text);
+  const columns = header.map(resolveColumn);
+  const records = rows.map(
+    cells =>
+      Object.fromEntries(
+        columns.flatMap((column, index) => (column ? [[column, cells[index] ?? '']] : []))
+      ) as Partial<Record<K, string>>
+  );
+  return { columns, records };
+};
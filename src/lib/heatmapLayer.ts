@@ -0,0 +1,40 @@
+// src/lib/heatmapLayer.ts
+// Paints the interpolated reading surface into an image for a Leaflet image overlay. The grid is
+// coarse and the browser smooths it when stretching the image over the map, which is far cheaper
+// than interpolating every screen pixel.
+import L from 'leaflet';
+import { HeatmapPoint, renderHeatmapPixels } from '@/api/heatmap';
+import { HeatmapMetric } from '@/types/mapLayers';
+
+// Screen pixels per grid cell
+const CELL_PX = 8;
+// Paint a margin around the view so a short pan doesn't reveal an unpainted edge
+const VIEW_PADDING = 0.25;
+
+export interface HeatmapImage {
+  url: string;
+  bounds: L.LatLngBounds;
+}
+
+// Cells are spaced evenly in degrees; at forest-division scale the Mercator stretch is negligible
+export const paintHeatmap = (map: L.Map, points: HeatmapPoint[], metric: HeatmapMetric): HeatmapImage => {
+  const bounds = map.getBounds().pad(VIEW_PADDING);
+  const size = map.getSize().multiplyBy(1 + 2 * VIEW_PADDING);
+  const cols = Math.max(1, Math.ceil(size.x / CELL_PX));
+  const rows = Math.max(1, Math.ceil(size.y / CELL_PX));
+
+  const pixels = renderHeatmapPixels(points, metric, {
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast(),
+    cols,
+    rows,
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cols;
+  canvas.height = rows;
+  canvas.getContext('2d')?.putImageData(new ImageData(pixels, cols, rows), 0, 0);
+  return { url: canvas.toDataURL(), bounds };
+};
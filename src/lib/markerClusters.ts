@@ -0,0 +1,33 @@
+// src/lib/markerClusters.ts
+// Grid clustering for map markers: items whose projected points share a cell are drawn as one
+// cluster. Cheap enough to redo on every zoom for a few thousand sensors.
+
+interface ProjectedPoint {
+  x: number;
+  y: number;
+}
+
+// Pinned items (e.g. the selected sensor) always stay on their own
+export const groupByCell = <T>(
+  items: T[],
+  pointOf: (item: T) => ProjectedPoint,
+  cellSize: number,
+  isPinned: (item: T) => boolean = () => false
+): T[][] => {
+  const cells = new Map<string, T[]>();
+  const groups: T[][] = [];
+
+  items.forEach(item => {
+    if (isPinned(item)) {
+      groups.push([item]);
+      return;
+    }
+    const { x, y } = pointOf(item);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(item);
+    else cells.set(key, [item]);
+  });
+
+  return [...groups, ...cells.values()];
+};
@@ -0,0 +1,68 @@
+// src/lib/serviceWorker.ts
+import { getConfig, subscribeConfig } from '@/api/config';
+import { CACHE_KEYS, writeCache } from '@/api/offlineCache';
+
+// Must match PERIODIC_SYNC_TAG in public/sw.js
+const PERIODIC_SYNC_TAG = 'fire-alerts';
+// Browsers treat this as a lower bound and space syncs out further based on site engagement
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+export type BackgroundAlertsStatus = 'unsupported' | 'denied' | 'disabled' | 'enabled';
+
+// Periodic Background Sync is not in the TypeScript DOM lib yet
+interface PeriodicSyncManager {
+  register: (tag: string, options?: { minInterval: number }) => Promise<void>;
+  getTags: () => Promise<string[]>;
+}
+
+const getPeriodicSync = (registration: ServiceWorkerRegistration): PeriodicSyncManager | undefined =>
+  (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+
+const publishConfig = () =>
+  writeCache(CACHE_KEYS.serviceWorkerConfig, { alertsUrl: `${getConfig().fireAlertsBaseUrl}/getAlert` });
+
+export const registerServiceWorker = () => {
+  // The precache manifest only exists in production builds
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+
+  publishConfig();
+  subscribeConfig(publishConfig);
+};
+
+export const getBackgroundAlertsStatus = async (): Promise<BackgroundAlertsStatus> => {
+  if (!('serviceWorker' in navigator) || !('Notification' in window)) return 'unsupported';
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const periodicSync = registration && getPeriodicSync(registration);
+  if (!periodicSync) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+
+  const tags = await periodicSync.getTags();
+  return Notification.permission === 'granted' && tags.includes(PERIODIC_SYNC_TAG) ? 'enabled' : 'disabled';
+};
+
+// Needs notification permission and, in Chromium, an installed app for the sync permission
+export const enableBackgroundAlerts = async (): Promise<BackgroundAlertsStatus> => {
+  if (!('serviceWorker' in navigator) || !('Notification' in window)) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return permission === 'denied' ? 'denied' : 'disabled';
+
+  const registration = await navigator.serviceWorker.ready;
+  const periodicSync = getPeriodicSync(registration);
+  if (!periodicSync) return 'unsupported';
+
+  try {
+    await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS });
+    return 'enabled';
+  } catch (error) {
+    console.warn('Periodic background sync was not granted:', error);
+    return 'disabled';
+  }
+};
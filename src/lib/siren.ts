@@ -0,0 +1,74 @@
+// src/lib/siren.ts
+// Synthesized siren so no audio asset has to be cached or downloaded.
+import type { SirenPattern } from './alertSettings';
+
+interface PatternShape {
+  cycleMs: number;
+  low: number;
+  high: number;
+  wave: OscillatorType;
+}
+
+const PATTERNS: Record<SirenPattern, PatternShape> = {
+  wail: { cycleMs: 3000, low: 600, high: 1300, wave: 'sawtooth' },
+  yelp: { cycleMs: 400, low: 700, high: 1500, wave: 'square' },
+  beep: { cycleMs: 800, low: 880, high: 880, wave: 'square' },
+};
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = () => {
+  if (!audioContext) audioContext = new AudioContext();
+  return audioContext;
+};
+
+// Browsers keep audio suspended until the page has seen a user gesture
+export const unlockAudio = () => {
+  if (typeof AudioContext === 'undefined') return;
+  const context = getAudioContext();
+  if (context.state === 'suspended') context.resume().catch(() => undefined);
+};
+
+// Plays until the returned function is called
+export const startSiren = (pattern: SirenPattern, volume: number): (() => void) => {
+  if (typeof AudioContext === 'undefined') return () => undefined;
+
+  const context = getAudioContext();
+  context.resume().catch(() => undefined);
+
+  const shape = PATTERNS[pattern];
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.type = shape.wave;
+  // Square and sawtooth waves are loud; keep the top of the slider reasonable
+  const level = Math.min(1, Math.max(0, volume)) * 0.3;
+  gain.gain.value = level;
+  oscillator.connect(gain).connect(context.destination);
+
+  const scheduleCycle = () => {
+    const start = context.currentTime;
+    const cycle = shape.cycleMs / 1000;
+
+    if (pattern === 'beep') {
+      oscillator.frequency.setValueAtTime(shape.low, start);
+      gain.gain.setValueAtTime(level, start);
+      gain.gain.setValueAtTime(0, start + cycle / 2);
+      return;
+    }
+
+    oscillator.frequency.setValueAtTime(shape.low, start);
+    oscillator.frequency.linearRampToValueAtTime(shape.high, start + cycle / 2);
+    oscillator.frequency.linearRampToValueAtTime(shape.low, start + cycle);
+  };
+
+  scheduleCycle();
+  oscillator.start();
+  const timer = setInterval(scheduleCycle, shape.cycleMs);
+
+  return () => {
+    clearInterval(timer);
+    oscillator.stop();
+    oscillator.disconnect();
+    gain.disconnect();
+  };
+};
@@ -0,0 +1,33 @@
+// src/lib/spreadOverlay.ts
+// Paints a simulation frame, one pixel per grid cell, for a Leaflet image overlay.
+import L from 'leaflet';
+import { CELL_STATES } from '@/api/spreadSimulation';
+import { SimulationGrid } from '@/types/fireSpread';
+
+const CELL_COLORS: Record<number, [number, number, number, number]> = {
+  [CELL_STATES.unburnable]: [56, 189, 248, 90],
+  [CELL_STATES.fuel]: [0, 0, 0, 0],
+  [CELL_STATES.burning]: [249, 115, 22, 230],
+  [CELL_STATES.burned]: [68, 64, 60, 170],
+};
+
+export const simulationBounds = (grid: SimulationGrid) =>
+  L.latLngBounds(
+    [grid.north - grid.rows * grid.cellHeightDeg, grid.west],
+    [grid.north, grid.west + grid.cols * grid.cellWidthDeg]
+  );
+
+// Cells that cannot burn are only tinted when a fuel raster put them there
+export const paintSimulationFrame = (grid: SimulationGrid, cells: Uint8Array, showBarriers: boolean) => {
+  const pixels = new Uint8ClampedArray(cells.length * 4);
+  cells.forEach((state, index) => {
+    if (state === CELL_STATES.unburnable && !showBarriers) return;
+    pixels.set(CELL_COLORS[state], index * 4);
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.cols;
+  canvas.height = grid.rows;
+  canvas.getContext('2d')?.putImageData(new ImageData(pixels, grid.cols, grid.rows), 0, 0);
+  return canvas.toDataURL();
+};
@@ -0,0 +1,45 @@
+// src/lib/statusStyles.ts
+// How each status level looks, so badges, map markers and charts agree on colour.
+import { StatusLevel } from '@/types/statusRules';
+import { HeartbeatState } from '@/types/sensor';
+
+// Hex values for Leaflet icons and recharts, which can't use Tailwind classes
+export const STATUS_LEVEL_COLORS: Record<StatusLevel, string> = {
+  normal: '#22c55e',
+  watch: '#3b82f6',
+  warning: '#f59e0b',
+  critical: '#ea580c',
+  fire: '#ef4444',
+};
+
+export const STATUS_LEVEL_BADGE_CLASSES: Record<StatusLevel, string> = {
+  normal: 'bg-forest-success text-white',
+  watch: 'bg-blue-500 text-white',
+  warning: 'bg-forest-warning text-white',
+  critical: 'bg-orange-600 text-white',
+  fire: 'bg-forest-danger text-white',
+};
+
+// Text with a light background, for inline status pills
+export const STATUS_LEVEL_PILL_CLASSES: Record<StatusLevel, string> = {
+  normal: 'text-green-600 bg-green-100',
+  watch: 'text-blue-600 bg-blue-100',
+  warning: 'text-yellow-600 bg-yellow-100',
+  critical: 'text-orange-700 bg-orange-100',
+  fire: 'text-red-600 bg-red-100',
+};
+
+export const STATUS_LEVEL_TEXT_CLASSES: Record<StatusLevel, string> = {
+  normal: 'text-green-600',
+  watch: 'text-blue-600',
+  warning: 'text-yellow-600',
+  critical: 'text-orange-600',
+  fire: 'text-red-600',
+};
+
+export const HEARTBEAT_BADGE_CLASSES: Record<HeartbeatState, string> = {
+  fresh: 'bg-green-100 text-green-700 border border-green-300',
+  late: 'bg-yellow-100 text-yellow-700 border border-yellow-300',
+  stale: 'bg-gray-200 text-gray-700 border border-gray-400',
+  offline: 'bg-gray-700 text-white border border-gray-700',
+};
@@ -0,0 +1,12 @@
+// src/lib/storageSync.ts
+// Stores kept in localStorage are shared by every open tab, but each tab holds its own copy in
+// memory. A write from another tab only arrives here as a `storage` event.
+
+// Calls onChange when another tab writes key, or clears storage altogether
+export const onStorageChange = (key: string, onChange: () => void) => {
+  const handle = (event: StorageEvent) => {
+    if (event.key === key || event.key === null) onChange();
+  };
+  window.addEventListener('storage', handle);
+  return () => window.removeEventListener('storage', handle);
+};
@@ -0,0 +1,11 @@
+// src/lib/units.ts
+// Unit conversions shared by the spread models and the map. Rothermel's equations work in feet,
+// minutes and BTU, so the spread code converts at its edges.
+export const FT_PER_M = 3.28084;
+export const FT_MIN_PER_M_S = 196.85;
+export const MPH_PER_M_S = 2.23694;
+export const KW_M2_PER_BTU_FT2_MIN = 0.1891;
+
+// Good enough over the few kilometres a division's sensors and fires span
+export const METERS_PER_DEGREE_LAT = 110540;
+export const METERS_PER_DEGREE_LNG = 111320;
@@ -0,0 +1,57 @@
+// src/lib/urlState.ts
+// Query parameters shared by the map pages, so a copied link reopens the same view:
+// ?lat=..&lng=..&z=.. for the map, ?sensor= for the selection, ?zone= for the zone filter and
+// ?basemap= and ?layers= for what is drawn.
+
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+export const URL_PARAMS = {
+  latitude: 'lat',
+  longitude: 'lng',
+  zoom: 'z',
+  sensor: 'sensor',
+  zone: 'zone',
+  basemap: 'basemap',
+  // Comma separated overlay ids; present but empty means every overlay is off
+  layers: 'layers',
+  // Metric the reading heatmap shows
+  heat: 'heat',
+  // Fuel type the spread prediction assumes
+  fuel: 'fuel',
+} as const;
+
+// Five decimals is about a metre, plenty for a shared view and short enough to paste
+const CENTER_DECIMALS = 5;
+const ZOOM_DECIMALS = 2;
+
+export type ParamChanges = Record<string, string | null | undefined>;
+
+export const readMapView = (params: URLSearchParams): MapView | undefined => {
+  const lat = Number(params.get(URL_PARAMS.latitude));
+  const lng = Number(params.get(URL_PARAMS.longitude));
+  const zoom = Number(params.get(URL_PARAMS.zoom));
+  if (!params.has(URL_PARAMS.latitude) || !params.has(URL_PARAMS.longitude) || !params.has(URL_PARAMS.zoom)) {
+    return undefined;
+  }
+  if (![lat, lng, zoom].every(Number.isFinite) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  return { center: [lat, lng], zoom };
+};
+
+export const mapViewParams = ({ center, zoom }: MapView): ParamChanges => ({
+  [URL_PARAMS.latitude]: center[0].toFixed(CENTER_DECIMALS),
+  [URL_PARAMS.longitude]: center[1].toFixed(CENTER_DECIMALS),
+  [URL_PARAMS.zoom]: String(Number(zoom.toFixed(ZOOM_DECIMALS))),
+});
+
+// null drops the parameter; an empty string is kept, e.g. ?layers= for "every overlay off"
+export const applyParamChanges = (params: URLSearchParams, changes: ParamChanges) => {
+  const next = new URLSearchParams(params);
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === null || value === undefined) next.delete(key);
+    else next.set(key, value);
+  });
+  return next;
+};
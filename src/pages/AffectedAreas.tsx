@@ -1,9 +1,19 @@
 // src/components/PossibleAffectedAreasMap.tsx
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ArrowLeft, Wind, MapPin, Thermometer, AlertTriangle, Navigation } from 'lucide-react';
+import { useSensor } from '@/hooks/use-sensors';
+import { useUrlState } from '@/hooks/use-url-state';
+import { mapViewParams, readMapView, URL_PARAMS } from '@/lib/urlState';
+import { getWeatherData, WeatherData } from '@/api/weatherApi';
+import { isAbortError } from '@/api/httpClient';
+import { DEFAULT_FUEL, FUEL_MODELS, FUEL_TYPES, predictFireSpread, sensorFireIntensity } from '@/api/fireSpread';
+import { FuelType, WindConditions } from '@/types/fireSpread';
+import SpreadSimulationPanel from '@/components/SpreadSimulationPanel';
 
 // Import Leaflet CSS
 import 'leaflet/dist/leaflet.css';
@@ -31,68 +41,6 @@ interface SensorData {
   status: string;
 }
 
-interface WeatherData {
-  temp: number;
-  feels_like: number;
-  humidity: number;
-  pressure: number;
-  wind_speed: number;
-  wind_deg: number;
-  wind_gust?: number;
-  visibility: number;
-  description: string;
-  icon: string;
-}
-
-// Mock wind data - in real app, you'd fetch this from a weather API
-const getWindData = (latitude: number, longitude: number) => {
-  return {
-    speed: Math.random() * 20 + 5, // km/h
-    direction: Math.random() * 360, // degrees
-    gust: Math.random() * 10 + 5,
-  };
-};
-
-// Calculate affected areas based on wind
-const calculateAffectedAreas = (
-  centerLat: number,
-  centerLng: number,
-  windSpeed: number,
-  windDirection: number,
-  fireIntensity: number
-) => {
-  const areas = [];
-  const baseDistance = (windSpeed / 10) * (fireIntensity / 100) * 2; // km
-  
-  // Convert wind direction to radians
-  const windRad = (windDirection * Math.PI) / 180;
-  
-  // Main affected area in wind direction
-  areas.push({
-    lat: centerLat + (baseDistance * Math.sin(windRad) / 111),
-    lng: centerLng + (baseDistance * Math.cos(windRad) / (111 * Math.cos(centerLat * Math.PI / 180))),
-    intensity: 0.8,
-    radius: baseDistance * 1000, // meters
-  });
-  
-  // Secondary affected areas
-  for (let i = 0; i < 3; i++) {
-    const angleVariation = (Math.random() - 0.5) * 0.5; // ± 30 degrees
-    const variedDirection = windDirection + angleVariation * 180;
-    const variedRad = (variedDirection * Math.PI) / 180;
-    const distance = baseDistance * (0.3 + Math.random() * 0.4);
-    
-    areas.push({
-      lat: centerLat + (distance * Math.sin(variedRad) / 111),
-      lng: centerLng + (distance * Math.cos(variedRad) / (111 * Math.cos(centerLat * Math.PI / 180))),
-      intensity: 0.4 + Math.random() * 0.3,
-      radius: distance * 800,
-    });
-  }
-  
-  return areas;
-};
-
 // Create custom fire icon
 const createFireIcon = () => {
   return L.divIcon({
@@ -118,12 +66,12 @@ const createFireIcon = () => {
   });
 };
 
-// Create wind direction icon
-const createWindIcon = (direction: number) => {
+// Arrow pointing along a compass bearing; the glyph itself points east
+const createWindIcon = (bearing: number) => {
   return L.divIcon({
     html: `
       <div style="
-        transform: rotate(${direction}deg);
+        transform: rotate(${bearing - 90}deg);
         color: #4285F4;
         font-size: 24px;
         filter: drop-shadow(1px 1px 2px rgba(0,0,0,0.3));
@@ -135,51 +83,95 @@ const createWindIcon = (direction: number) => {
   });
 };
 
+const WIND_DIRECTIONS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
 // Helper function to convert degrees to cardinal direction
 const getWindDirection = (degrees: number): string => {
-  const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
   const index = Math.round(degrees / 22.5) % 16;
-  return directions[index];
+  return WIND_DIRECTIONS[index];
 };
 
+// 30, 60 and 120 minutes out: the soonest perimeters are the most urgent
+const PERIMETER_COLORS = ['red', 'orange', 'yellow'];
+const PERIMETER_LEGEND_CLASSES = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500'];
+
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
 const AffectedAreas: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [sensorData, setSensorData] = useState<SensorData | null>(null);
-  const [windData, setWindData] = useState<any>(null);
-  const [affectedAreas, setAffectedAreas] = useState<any[]>([]);
+  const [weather, setWeather] = useState<WeatherData | null>(null);
+  const [weatherUnavailable, setWeatherUnavailable] = useState(false);
+  // Wind typed in by hand when there is no weather to go on
+  const [manualSpeedKmh, setManualSpeedKmh] = useState('');
+  const [manualFromDeg, setManualFromDeg] = useState(0);
   const [map, setMap] = useState<L.Map | null>(null);
   const mapRef = useRef<HTMLDivElement>(null);
+  const predictionLayerRef = useRef<L.LayerGroup | null>(null);
   const [isMapInitialized, setIsMapInitialized] = useState(false);
+  // ?sensor=ID makes the page linkable; the view follows along as ?lat=&lng=&z=
+  const [searchParams, updateParams] = useUrlState();
+  const [initialView] = useState(() => readMapView(searchParams));
+  const updateParamsRef = useRef(updateParams);
+  updateParamsRef.current = updateParams;
+  const { data: linkedSensor } = useSensor(searchParams.get(URL_PARAMS.sensor) ?? '');
+  const linkedFuel = searchParams.get(URL_PARAMS.fuel) as FuelType;
+  const fuel = FUEL_TYPES.includes(linkedFuel) ? linkedFuel : DEFAULT_FUEL;
 
   useEffect(() => {
-    // Get sensor data from location state or localStorage
-    const data = location.state?.sensorData || 
+    // Get sensor data from location state, the linked sensor or localStorage
+    const data = location.state?.sensorData || linkedSensor ||
                  JSON.parse(localStorage.getItem('lastSensorData') || 'null');
     
-    if (data) {
-      setSensorData(data);
-      const wind = getWindData(data.latitude, data.longitude);
-      setWindData(wind);
-      
-      // Calculate fire intensity based on sensor readings
-      const fireIntensity = Math.min(
-        ((data.temp - 20) / 40) * 100 + // Temperature contribution
-        (data.smoke / 2) + // Smoke contribution
-        ((100 - data.humidity) / 2), // Low humidity contribution
-        100
-      );
-      
-      const areas = calculateAffectedAreas(
-        data.latitude,
-        data.longitude,
-        wind.speed,
-        wind.direction,
-        fireIntensity
-      );
-      setAffectedAreas(areas);
+    if (data) setSensorData(data);
+  }, [location, linkedSensor]);
+
+  // Wind at the fire drives the spread prediction
+  const latitude = sensorData?.latitude;
+  const longitude = sensorData?.longitude;
+  useEffect(() => {
+    if (latitude === undefined || longitude === undefined) return;
+    const controller = new AbortController();
+    setWeather(null);
+    setWeatherUnavailable(false);
+    getWeatherData(latitude, longitude, controller.signal)
+      .then(setWeather)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Failed to fetch weather data:', error);
+        setWeatherUnavailable(true);
+      });
+    return () => controller.abort();
+  }, [latitude, longitude]);
+
+  const wind = useMemo((): WindConditions | null => {
+    if (weather) {
+      return { speedMs: weather.wind_speed, fromDeg: weather.wind_deg, source: weather.asOf ? 'cached' : 'weather' };
     }
-  }, [location]);
+    const speedKmh = Number(manualSpeedKmh);
+    if (!weatherUnavailable || manualSpeedKmh.trim() === '' || !(speedKmh >= 0)) return null;
+    return { speedMs: speedKmh / 3.6, fromDeg: manualFromDeg, source: 'manual' };
+  }, [weather, weatherUnavailable, manualSpeedKmh, manualFromDeg]);
+
+  // Humidity and temperature come from the sensor, which reads the air at the fire itself
+  const prediction = useMemo(
+    () =>
+      sensorData && wind
+        ? predictFireSpread({
+            latitude: sensorData.latitude,
+            longitude: sensorData.longitude,
+            fuel,
+            windSpeedMs: wind.speedMs,
+            windFromDeg: wind.fromDeg,
+            relativeHumidity: sensorData.humidity,
+            temperatureC: sensorData.temp,
+            intensity: sensorFireIntensity(sensorData),
+          })
+        : null,
+    [sensorData, wind, fuel]
+  );
 
   // Initialize map - Fixed version
   useEffect(() => {
@@ -188,9 +180,13 @@ const AffectedAreas: React.FC = () => {
     // Ensure the map container is properly mounted
     if (mapRef.current && !mapRef.current._leaflet_id) {
       const leafletMap = L.map(mapRef.current).setView(
-        [sensorData.latitude, sensorData.longitude], 
-        12
+        initialView?.center ?? [sensorData.latitude, sensorData.longitude], 
+        initialView?.zoom ?? 12
       );
+      leafletMap.on('moveend', () => {
+        const center = leafletMap.getCenter();
+        updateParamsRef.current(mapViewParams({ center: [center.lat, center.lng], zoom: leafletMap.getZoom() }));
+      });
 
       // Add OpenStreetMap tiles
       L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
@@ -215,19 +211,18 @@ const AffectedAreas: React.FC = () => {
 
   // Add markers and overlays to map - Fixed version
   useEffect(() => {
-    if (map && sensorData && affectedAreas.length > 0) {
-      // Clear existing layers (except base tile layer)
-      map.eachLayer((layer) => {
-        if (!(layer instanceof L.TileLayer)) {
-          map.removeLayer(layer);
-        }
-      });
+    if (map && sensorData && prediction) {
+      // Redraw the prediction; the terrain simulation keeps its own overlay
+      const existing = predictionLayerRef.current;
+      const layer = existing && map.hasLayer(existing) ? existing : L.layerGroup().addTo(map);
+      predictionLayerRef.current = layer;
+      layer.clearLayers();
 
       // Add fire origin marker
       const fireMarker = L.marker([sensorData.latitude, sensorData.longitude], {
         icon: createFireIcon()
       })
-      .addTo(map)
+      .addTo(layer)
       .bindPopup(`
         <div class="text-center p-2">
           <strong class="text-red-600">🔥 Fire Origin</strong><br/>
@@ -243,96 +238,65 @@ const AffectedAreas: React.FC = () => {
         fireMarker.openPopup();
       }, 500);
 
-      // Add affected areas as circles
-      affectedAreas.forEach((area, index) => {
-        const color = area.intensity > 0.6 ? 'red' : area.intensity > 0.4 ? 'orange' : 'yellow';
-        
-        const circle = L.circle([area.lat, area.lng], {
-          color: color,
+      // Largest perimeter first so the nearer, more urgent ones stay clickable on top
+      const perimeters = [...prediction.perimeters].sort((a, b) => b.minutes - a.minutes);
+      perimeters.forEach(perimeter => {
+        const color = PERIMETER_COLORS[prediction.perimeters.indexOf(perimeter)] ?? 'yellow';
+        L.polygon(perimeter.outline, {
+          color,
           fillColor: color,
-          fillOpacity: 0.3,
-          radius: area.radius,
+          fillOpacity: 0.25,
           weight: 2
         })
-        .addTo(map)
+        .addTo(layer)
         .bindPopup(`
           <div class="p-2">
-            <strong class="${area.intensity > 0.6 ? 'text-red-600' : area.intensity > 0.4 ? 'text-orange-600' : 'text-yellow-600'}">
-              Risk Zone ${index + 1}
-            </strong><br/>
-            <strong>Risk Level:</strong> ${(area.intensity * 100).toFixed(0)}%<br/>
-            <strong>Radius:</strong> ${(area.radius / 1000).toFixed(1)} km
+            <strong>Spread after ${perimeter.minutes} min</strong><br/>
+            <strong>Head run:</strong> ${formatDistance(perimeter.headM)}<br/>
+            <strong>Flanks:</strong> ${formatDistance(perimeter.flankM)} either side<br/>
+            <strong>Area:</strong> ${perimeter.areaHa.toFixed(1)} ha
           </div>
         `);
       });
 
-      // Add wind direction
-      if (windData) {
-        const windEndLat = sensorData.latitude + (0.1 * Math.sin(windData.direction * Math.PI / 180));
-        const windEndLng = sensorData.longitude + (0.1 * Math.cos(windData.direction * Math.PI / 180));
-        
-        // Wind direction line
-        L.polyline([
-          [sensorData.latitude, sensorData.longitude],
-          [windEndLat, windEndLng]
-        ], {
-          color: '#4285F4',
-          weight: 4,
-          opacity: 0.8,
-          dashArray: '10, 10'
-        }).addTo(map).bindPopup(`
-          <div class="text-center">
-            <strong>Wind Direction</strong><br/>
-            ${getWindDirection(windData.direction)}<br/>
-            ${windData.speed.toFixed(1)} km/h
-          </div>
-        `);
-
-        // Wind direction arrow
-        L.marker([windEndLat, windEndLng], {
-          icon: createWindIcon(windData.direction),
-          zIndexOffset: 1000
-        }).addTo(map);
-      }
-
-      // Add heatmap effect using circle markers
-      affectedAreas.forEach(area => {
-        const pointsCount = 30;
-        for (let i = 0; i < pointsCount; i++) {
-          const angle = Math.random() * 2 * Math.PI;
-          const distance = Math.random() * area.radius;
-          const pointLat = area.lat + (distance * Math.sin(angle) / 111000);
-          const pointLng = area.lng + (distance * Math.cos(angle) / (111000 * Math.cos(area.lat * Math.PI / 180)));
-          const intensity = area.intensity * Math.random();
-          
-          const heatColor = intensity > 0.6 ? '#ff0000' : 
-                           intensity > 0.4 ? '#ffa500' : 
-                           '#ffff00';
-          
-          L.circleMarker([pointLat, pointLng], {
-            radius: 6 + (intensity * 4),
-            fillColor: heatColor,
-            color: heatColor,
-            weight: 1,
-            opacity: 0.8,
-            fillOpacity: 0.3 + (intensity * 0.3)
-          }).addTo(map);
-        }
-      });
+      // Heading of the head fire, drawn a little past the furthest perimeter
+      const heading = (prediction.headingDeg * Math.PI) / 180;
+      const arrowM = Math.max(500, (perimeters[0]?.headM ?? 0) * 1.2);
+      const arrowEnd: [number, number] = [
+        sensorData.latitude + (arrowM * Math.cos(heading)) / 111000,
+        sensorData.longitude + (arrowM * Math.sin(heading)) / (111000 * Math.cos(sensorData.latitude * Math.PI / 180)),
+      ];
+      L.polyline([[sensorData.latitude, sensorData.longitude], arrowEnd], {
+        color: '#4285F4',
+        weight: 4,
+        opacity: 0.8,
+        dashArray: '10, 10'
+      }).addTo(layer).bindPopup(`
+        <div class="text-center">
+          <strong>Spread Direction</strong><br/>
+          Towards ${getWindDirection(prediction.headingDeg)}<br/>
+          ${prediction.rateOfSpreadMPerMin.toFixed(1)} m/min at full intensity
+          ${wind?.source === 'manual' ? '<br/><em>From manually entered wind</em>' : ''}
+        </div>
+      `);
+      L.marker(arrowEnd, {
+        icon: createWindIcon(prediction.headingDeg),
+        zIndexOffset: 1000
+      }).addTo(layer);
 
-      // Fit map to show all affected areas with padding
-      if (affectedAreas.length > 0) {
-        const group = new L.FeatureGroup([
-          ...affectedAreas.map(area => L.circle([area.lat, area.lng], { radius: area.radius })),
-          L.marker([sensorData.latitude, sensorData.longitude])
+      // Fit map to show the largest perimeter, unless the link carried its own view
+      if (!initialView) {
+        const bounds = L.latLngBounds([
+          ...(perimeters[0]?.outline ?? []),
+          arrowEnd,
+          [sensorData.latitude, sensorData.longitude],
         ]);
-        
         setTimeout(() => {
-          map.fitBounds(group.getBounds().pad(0.1));
+          map.fitBounds(bounds.pad(0.1));
         }, 100);
       }
     }
-  }, [map, sensorData, affectedAreas, windData]);
+  }, [map, sensorData, prediction, wind, initialView]);
 
   if (!sensorData) {
     return (
@@ -359,7 +323,7 @@ const AffectedAreas: React.FC = () => {
         <div className="flex items-center gap-4">
           <Button 
             variant="ghost" 
-            onClick={() => navigate('/monitoring')}
+            onClick={() => navigate(`/monitoring/${encodeURIComponent(sensorData.deviceId)}`)}
             className="text-gray-700 hover:text-green-600"
           >
             <ArrowLeft className="w-4 h-4 mr-2" />
@@ -389,15 +353,15 @@ const AffectedAreas: React.FC = () => {
                   <div className="flex gap-2 ml-auto text-xs">
                     <div className="flex items-center gap-1">
                       <div className="w-3 h-3 bg-red-500 rounded"></div>
-                      <span>High Risk</span>
+                      <span>30 min</span>
                     </div>
                     <div className="flex items-center gap-1">
                       <div className="w-3 h-3 bg-orange-500 rounded"></div>
-                      <span>Medium Risk</span>
+                      <span>60 min</span>
                     </div>
                     <div className="flex items-center gap-1">
                       <div className="w-3 h-3 bg-yellow-500 rounded"></div>
-                      <span>Low Risk</span>
+                      <span>120 min</span>
                     </div>
                   </div>
                 </CardTitle>
@@ -456,27 +420,58 @@ const AffectedAreas: React.FC = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                {windData ? (
+                {weather ? (
                   <>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Speed:</span>
-                      <span className="font-semibold">{windData.speed.toFixed(1)} km/h</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Direction:</span>
-                      <span className="font-semibold">{getWindDirection(windData.direction)}</span>
+                      <span className="font-semibold">{(weather.wind_speed * 3.6).toFixed(1)} km/h</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-gray-600">Gusts:</span>
-                      <span className="font-semibold">{windData.gust.toFixed(1)} km/h</span>
-                    </div>
-                    <div className="mt-4 p-3 bg-yellow-50 rounded-lg border border-yellow-200">
-                      <p className="text-sm text-yellow-800">
-                        <strong>Wind Impact:</strong> Fire is likely to spread {windData.speed > 15 ? 'rapidly' : 'moderately'} 
-                        towards {getWindDirection(windData.direction)}.
-                      </p>
+                      <span className="text-gray-600">From:</span>
+                      <span className="font-semibold">{getWindDirection(weather.wind_deg)}</span>
                     </div>
+                    {weather.wind_gust !== undefined && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Gusts:</span>
+                        <span className="font-semibold">{(weather.wind_gust * 3.6).toFixed(1)} km/h</span>
+                      </div>
+                    )}
+                    {weather.asOf && (
+                      <p className="text-xs text-gray-500">Offline; weather as of {new Date(weather.asOf).toLocaleString()}</p>
+                    )}
                   </>
+                ) : weatherUnavailable ? (
+                  <div className="space-y-3">
+                    <p className="text-sm text-amber-700">
+                      Wind unavailable: the weather service could not be reached and nothing is cached for this spot.
+                      Enter the wind observed at the fire to predict its spread.
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={manualSpeedKmh}
+                        placeholder="Speed"
+                        onChange={e => setManualSpeedKmh(e.target.value)}
+                        className="w-24"
+                        aria-label="Wind speed in km/h"
+                      />
+                      <span className="text-sm text-gray-600">km/h from</span>
+                      <Select value={String(manualFromDeg)} onValueChange={value => setManualFromDeg(Number(value))}>
+                        <SelectTrigger className="w-24" aria-label="Wind direction">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WIND_DIRECTIONS.map((direction, index) => (
+                            <SelectItem key={direction} value={String(index * 22.5)}>
+                              {direction}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
                 ) : (
                   <p className="text-gray-500 text-center">Loading wind data...</p>
                 )}
@@ -487,40 +482,90 @@ const AffectedAreas: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-red-600">
                   <AlertTriangle className="w-5 h-5" />
-                  Risk Assessment
+                  Spread Prediction
                 </CardTitle>
               </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  <div className="p-3 bg-red-50 rounded-lg border border-red-200">
-                    <h4 className="font-semibold text-red-800 mb-1">High Risk Areas</h4>
-                    <p className="text-sm text-red-700">
-                      {affectedAreas.length} potential spread zones identified
-                    </p>
-                  </div>
-                  <div className="text-sm text-gray-600 space-y-2">
-                    <p className="flex items-center gap-2">
-                      <div className="w-3 h-3 bg-red-500 rounded"></div>
-                      <span>Red zones: High probability of fire spread</span>
-                    </p>
-                    <p className="flex items-center gap-2">
-                      <div className="w-3 h-3 bg-orange-500 rounded"></div>
-                      <span>Orange zones: Moderate risk areas</span>
-                    </p>
-                    <p className="flex items-center gap-2">
-                      <div className="w-3 h-3 bg-yellow-500 rounded"></div>
-                      <span>Yellow zones: Low risk areas</span>
-                    </p>
-                    <p className="text-red-600 font-semibold mt-2">
-                      • Consider evacuation for red zone areas
-                    </p>
-                    <p className="text-orange-600 font-semibold">
-                      • Monitor orange zones closely
-                    </p>
-                  </div>
+              <CardContent className="space-y-4">
+                <div className="space-y-1">
+                  <span className="text-sm text-gray-600">Fuel type</span>
+                  <Select
+                    value={fuel}
+                    onValueChange={value => updateParams({ [URL_PARAMS.fuel]: value === DEFAULT_FUEL ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FUEL_TYPES.map(option => (
+                        <SelectItem key={option} value={option}>
+                          {FUEL_MODELS[option].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+
+                {prediction ? (
+                  <>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Rate of spread:</span>
+                        <span className="font-semibold">{prediction.rateOfSpreadMPerMin.toFixed(1)} m/min</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Heading:</span>
+                        <span className="font-semibold">Towards {getWindDirection(prediction.headingDeg)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Dead fuel moisture:</span>
+                        <span className="font-semibold">{(prediction.fuelMoisture * 100).toFixed(0)}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Reaction intensity:</span>
+                        <span className="font-semibold">{prediction.reactionIntensityKwM2.toFixed(0)} kW/m²</span>
+                      </div>
+                    </div>
+
+                    {prediction.rateOfSpreadMPerMin === 0 ? (
+                      <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+                        <p className="text-sm text-green-800">
+                          Fuel is too moist to carry a surface fire at the current humidity.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {prediction.perimeters.map((perimeter, index) => (
+                          <div key={perimeter.minutes} className="flex items-center gap-2 text-sm">
+                            <div className={`w-3 h-3 rounded ${PERIMETER_LEGEND_CLASSES[index]}`}></div>
+                            <span className="font-semibold w-16">{perimeter.minutes} min</span>
+                            <span className="text-gray-600">
+                              {formatDistance(perimeter.headM)} head run · {perimeter.areaHa.toFixed(1)} ha
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {wind?.source === 'manual' && (
+                      <p className="text-xs text-amber-700">
+                        Based on manually entered wind, not live weather.
+                      </p>
+                    )}
+
+                    <p className="text-xs text-gray-500">
+                      Rothermel surface spread with elliptical growth, for flat ground and steady wind. Treat it as a
+                      guide for where to send crews first, not a forecast.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-gray-500 text-center">
+                    {weatherUnavailable ? 'Enter the wind to see a prediction.' : 'Waiting for wind data...'}
+                  </p>
+                )}
               </CardContent>
             </Card>
+
+            <SpreadSimulationPanel map={map} origin={sensorData} wind={wind} fuel={fuel} />
           </div>
         </div>
       </main>
@@ -1,110 +1,115 @@
 // src/pages/Dashboard.tsx
-import React, { useState, useEffect, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+import { toast } from 'sonner';
 import LeafletMap, { LeafletMapHandle } from '@/components/LeafletMap';
-import { getFireAlerts } from '@/api/fireAlerts';
-import { SensorData } from '@/types/sensor';
+import ZonePanel from '@/components/ZonePanel';
+import PlaybackBar from '@/components/PlaybackBar';
+import { useSensors } from '@/hooks/use-sensors';
+import { useLiveFeedStatus } from '@/hooks/use-live-feed';
+import { useZones } from '@/hooks/use-zones';
+import { useStatusRules } from '@/hooks/use-status-rules';
+import { useUrlState } from '@/hooks/use-url-state';
+import { usePlayback } from '@/hooks/use-playback';
+import { useMapLayerChoices } from '@/hooks/use-map-layers';
+import { MapLayerChoices } from '@/types/mapLayers';
+import { computeZoneAggregates, filterSensorsByZone } from '@/api/zones';
+import { parseBasemap, parseHeatmapMetric, sanitizeOverlays, setMapLayerChoices } from '@/api/mapLayers';
+import { describeRequestError } from '@/api/httpClient';
+import { mapViewParams, readMapView, URL_PARAMS } from '@/lib/urlState';
 import { Button } from '@/components/ui/button';
-import { LogOut } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Link2, LogOut } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
-import FireAlertPopup from '@/components/FireAlertPopup';
-
-// Convert API data to SensorData format with proper error handling
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-
-  return apiDevices.map(device => {
-    // Safely extract device ID with fallbacks
-    const deviceId =
-      device.deviceId ||
-      device.id ||
-      (device._id ? `DEV-${device._id.slice(-4)}` : 'DEV-unknown');
-
-    // Safely extract ID with fallback to deviceId
-    const id = device._id || device.id || deviceId;
-
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || device.temperature || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp:
-        device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: device.name || `Sensor ${deviceId}`,
-      status: device.isfire || device.isFire ? 'warning' : 'active',
-    };
-  });
-};
+
+const ALL_ZONES = 'all';
 
 const Dashboard: React.FC = () => {
-  const [selectedSensorId, setSelectedSensorId] = useState<string>('');
-  const [fireAlerts, setFireAlerts] = useState<SensorData[]>([]);
-  const [showAlertPopup, setShowAlertPopup] = useState(false);
-  const [previousFireCount, setPreviousFireCount] = useState(0);
   const mapRef = useRef<LeafletMapHandle>(null);
+  const focusedLocationKey = useRef<string | null>(null);
+  const liveFeedStatus = useLiveFeedStatus();
+  const location = useLocation();
+  const navigationType = useNavigationType();
 
-  // Query returns AlertData[] (array), not { success, devices }
-  const { data: apiResponse = [], isLoading, error } = useQuery({
-    queryKey: ['fireAlerts'],
-    queryFn: getFireAlerts,
+  // Selection, view, zone filter and overlays all live in the URL so a copied link reopens this view
+  const [searchParams, updateParams] = useUrlState();
+  const [initialView] = useState(() => readMapView(searchParams));
+  const linkedDeviceId = searchParams.get(URL_PARAMS.sensor);
+  const zoneId = searchParams.get(URL_PARAMS.zone);
+  // A link's layers win over the ones remembered in this browser
+  const savedLayers = useMapLayerChoices();
+  const linkedBasemap = searchParams.get(URL_PARAMS.basemap);
+  const linkedOverlays = searchParams.get(URL_PARAMS.layers);
+  const linkedHeatmapMetric = searchParams.get(URL_PARAMS.heat);
+  const layers = useMemo<MapLayerChoices>(
+    () => ({
+      ...savedLayers,
+      basemap: parseBasemap(linkedBasemap) ?? savedLayers.basemap,
+      overlays: linkedOverlays === null ? savedLayers.overlays : sanitizeOverlays(linkedOverlays.split(',')),
+      heatmapMetric: parseHeatmapMetric(linkedHeatmapMetric) ?? savedLayers.heatmapMetric,
+    }),
+    [linkedBasemap, linkedOverlays, linkedHeatmapMetric, savedLayers]
+  );
+
+  const { data: apiSensors = [], isLoading, error } = useSensors({
     refetchInterval: 40000, // Refetch every 40 seconds
   });
 
-  // Convert the array into SensorData[]
-  const apiSensors: SensorData[] = convertApiToSensorData(apiResponse);
-  const currentFireCount = apiSensors.filter(sensor => sensor.isFire).length;
+  const zones = useZones();
+  const statusRules = useStatusRules();
+  const zoneAggregates = useMemo(
+    () => computeZoneAggregates(apiSensors, zones, statusRules),
+    [apiSensors, zones, statusRules]
+  );
+  const [isDrawingZone, setIsDrawingZone] = useState(false);
+  const [drawnOutline, setDrawnOutline] = useState<{ lat: number; lng: number }[] | null>(null);
+
+  // While replaying, the map shows the fleet as it stood at the scrubbed time
+  const playback = usePlayback(apiSensors);
+  const { time: playbackTime, history: playbackHistory } = playback;
+  const mapPlayback = useMemo(
+    () => (playback.active && playbackHistory ? { time: playbackTime, history: playbackHistory } : undefined),
+    [playback.active, playbackTime, playbackHistory]
+  );
+  const fleet = playback.active ? playback.sensors : apiSensors;
+
+  const zone = zones.find(candidate => candidate.id === zoneId);
+  const mapSensors = useMemo(() => (zone ? filterSensorsByZone(fleet, zone) : fleet), [fleet, zone]);
+  const selectedSensorId = apiSensors.find(sensor => sensor.deviceId === linkedDeviceId)?.id ?? '';
 
-  // Check for new fire alerts
+  // "View in Map" elsewhere in the app pushes /?sensor=ID; zoom right in on it. Links opened
+  // directly or our own URL updates keep the view they carry.
   useEffect(() => {
-    const fireSensors = apiSensors.filter(sensor => sensor.isFire);
-    
-    // Only show popup if there are new fires that weren't in the previous state
-    if (fireSensors.length > 0 && currentFireCount > previousFireCount) {
-      setFireAlerts(fireSensors);
-      setShowAlertPopup(true);
-    }
-    
-    // Update the previous fire count
-    setPreviousFireCount(currentFireCount);
-  }, [apiSensors, currentFireCount, previousFireCount]);
-
-  const handleViewInMap = (sensorId: string) => {
-    setSelectedSensorId(sensorId);
-    setShowAlertPopup(false);
-    
-    // Find the sensor in our data
-    const sensor = apiSensors.find(s => s.id === sensorId);
+    if (navigationType !== 'PUSH' || !linkedDeviceId || focusedLocationKey.current === location.key) return;
+
+    const sensor = apiSensors.find(s => s.deviceId === linkedDeviceId);
     if (sensor && mapRef.current) {
-      // Use the ref to zoom to the sensor
+      focusedLocationKey.current = location.key;
       mapRef.current.zoomToSensor(sensor);
     }
-  };
+  }, [navigationType, linkedDeviceId, location.key, apiSensors]);
 
-  const handleLiveMonitoring = (sensorId: string) => {
-    // Navigate to Live Monitoring page with the specific sensor pre-selected
-    window.location.href = `/monitoring/${sensorId}`;
+  const changeLayers = (next: MapLayerChoices) => {
+    setMapLayerChoices(next);
+    updateParams({
+      [URL_PARAMS.basemap]: next.basemap,
+      [URL_PARAMS.layers]: next.overlays.join(','),
+      // Only worth carrying while the heatmap is on
+      [URL_PARAMS.heat]: next.overlays.includes('heatmap') ? next.heatmapMetric : null,
+    });
   };
 
-  const handleClosePopup = () => {
-    setShowAlertPopup(false);
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link to this view copied');
+    } catch {
+      toast.error('Could not copy the link; copy it from the address bar instead');
+    }
   };
 
   return (
     <div className="min-h-screen">
-      {/* Fire Alert Popup */}
-      {showAlertPopup && fireAlerts.length > 0 && (
-        <FireAlertPopup
-          alerts={fireAlerts}
-          onViewInMap={handleViewInMap}
-          onLiveMonitoring={handleLiveMonitoring}
-          onClose={handleClosePopup}
-        />
-      )}
-
       {/* Header */}
       <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
         <div className="flex items-center gap-4">
@@ -151,29 +156,74 @@ const Dashboard: React.FC = () => {
       {/* Main Content */}
       <main className="p-6">
         <div className="glass-card p-6 rounded-lg">
-          <div className="mb-4">
-            <h2 className="text-2xl font-bold text-forest-primary mb-2">
-              Forest Sensor Network
-            </h2>
-            <p className="text-muted-foreground">
-              Monitor sensor locations and forest fire detection across the
-              region
-            </p>
+          <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-forest-primary mb-2">
+                Forest Sensor Network
+              </h2>
+              <p className="text-muted-foreground">
+                Monitor sensor locations and forest fire detection across the
+                region
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              {zones.length > 0 && (
+                <Select
+                    value={zone ? zone.id : ALL_ZONES}
+                    onValueChange={value => updateParams({ [URL_PARAMS.zone]: value === ALL_ZONES ? null : value })}
+                  >
+                    <SelectTrigger className="w-56 border-forest-accent/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_ZONES}>All zones</SelectItem>
+                      {zones.map(option => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                onClick={copyLink}
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                Copy Link
+              </Button>
+            </div>
           </div>
 
           <div className="h-[600px] w-full">
             <LeafletMap
               ref={mapRef}
-              sensors={apiSensors}
+              sensors={mapSensors}
               selectedSensorId={selectedSensorId}
-              onSensorClick={(sensor) => {
-                console.log('Sensor clicked:', sensor);
-                setSelectedSensorId(sensor.id);
-              }}
+              onSensorClick={(sensor) => updateParams({ [URL_PARAMS.sensor]: sensor.deviceId })}
+              initialView={initialView}
+              onViewChange={(view) => updateParams(mapViewParams(view))}
               className="h-full w-full"
+              layers={layers}
+              onLayersChange={changeLayers}
+              zones={zones}
+              zoneAggregates={zoneAggregates}
+              drawingZone={isDrawingZone}
+              onZoneDrawn={(points) => {
+                setIsDrawingZone(false);
+                setDrawnOutline(points);
+              }}
+              onZoneDrawCancel={() => setIsDrawingZone(false)}
+              playback={mapPlayback}
             />
           </div>
 
+          <div className="mt-4">
+            <PlaybackBar playback={playback} />
+          </div>
+
           {isLoading && (
             <div className="mt-4 text-center">
               <p className="text-muted-foreground">Loading sensor data...</p>
@@ -183,7 +233,7 @@ const Dashboard: React.FC = () => {
           {error && (
             <div className="mt-4 text-center">
               <p className="text-forest-danger">
-                Failed to load API data. Showing mock sensors only.
+                {describeRequestError(error)}. Showing mock sensors only.
               </p>
             </div>
           )}
@@ -191,9 +241,21 @@ const Dashboard: React.FC = () => {
           <div className="mt-4 flex justify-between items-center text-sm text-muted-foreground">
             <span>API Sensors: {apiSensors.length}</span>
             <span>Active Fires: {apiSensors.filter((s) => s.isFire).length}</span>
+            <span>{liveFeedStatus === 'open' ? 'Live feed connected' : 'Polling every 40s'}</span>
             <span>Last Updated: {new Date().toLocaleTimeString()}</span>
           </div>
         </div>
+
+        <div className="glass-card p-6 rounded-lg mt-6">
+          <ZonePanel
+            zones={zones}
+            aggregates={zoneAggregates}
+            isDrawing={isDrawingZone}
+            onDrawingChange={setIsDrawingZone}
+            drawnOutline={drawnOutline}
+            onDrawnOutlineHandled={() => setDrawnOutline(null)}
+          />
+        </div>
       </main>
     </div>
   );
@@ -0,0 +1,191 @@
+// src/pages/DataQuality.tsx
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getFireAlertReport } from '@/api/fireAlerts';
+import { sensorQueryKeys } from '@/api/sensors';
+import { DeviceRecordReport } from '@/api/deviceSchema';
+import { describeRequestError } from '@/api/httpClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { LogOut, RefreshCw, ShieldAlert, ShieldCheck, Wrench, XCircle } from 'lucide-react';
+
+interface DeviceQualityGroup {
+  deviceId: string;
+  records: DeviceRecordReport[];
+  rejected: number;
+  coerced: number;
+}
+
+const getOutcomeColor = (record: DeviceRecordReport) =>
+  record.outcome === 'rejected' ? 'bg-forest-danger text-white' : 'bg-forest-warning text-white';
+
+const DataQuality: React.FC = () => {
+  const { data: report, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: sensorQueryKeys.quality,
+    queryFn: ({ signal }) => getFireAlertReport(signal),
+    refetchInterval: 60000,
+  });
+
+  // Group flagged records per device so field teams can see which firmware is misbehaving
+  const groups = useMemo<DeviceQualityGroup[]>(() => {
+    if (!report) return [];
+
+    const byDevice = new Map<string, DeviceQualityGroup>();
+    report.records.forEach(record => {
+      const deviceId = record.deviceId || record.recordId || `record #${record.index + 1}`;
+      const group = byDevice.get(deviceId) || { deviceId, records: [], rejected: 0, coerced: 0 };
+      group.records.push(record);
+      group[record.outcome] += 1;
+      byDevice.set(deviceId, group);
+    });
+
+    return Array.from(byDevice.values()).sort((a, b) => b.rejected - a.rejected || b.coerced - a.coerced);
+  }, [report]);
+
+  const rejectedCount = report?.records.filter(r => r.outcome === 'rejected').length ?? 0;
+  const coercedCount = report?.records.filter(r => r.outcome === 'coerced').length ?? 0;
+  const validCount = (report?.total ?? 0) - rejectedCount - coercedCount;
+
+  const statItems = [
+    { label: 'Records Received', value: report?.total ?? 0, icon: RefreshCw, color: 'text-forest-primary', bgColor: 'bg-forest-accent/20' },
+    { label: 'Valid', value: validCount, icon: ShieldCheck, color: 'text-forest-success', bgColor: 'bg-forest-success/20' },
+    { label: 'Coerced', value: coercedCount, icon: Wrench, color: 'text-forest-warning', bgColor: 'bg-forest-warning/20' },
+    { label: 'Rejected', value: rejectedCount, icon: XCircle, color: 'text-forest-danger', bgColor: 'bg-forest-danger/20' },
+  ];
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger className="text-forest-primary" />
+          <div>
+            <h1 className="text-xl font-bold text-forest-primary">Data Quality</h1>
+            <p className="text-sm text-muted-foreground">Device records rejected or repaired during validation</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => refetch()}
+            disabled={isFetching}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Revalidate
+          </Button>
+          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <LogOut className="w-4 h-4 mr-2" />
+            Logout
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="space-y-6">
+          {/* Summary */}
+          <div className="glass-card p-6 rounded-lg">
+            <h2 className="text-2xl font-bold text-forest-primary mb-6">Validation Summary</h2>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {statItems.map(item => (
+                <Card key={item.label} className="glass-card border-forest-accent/30">
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">{item.label}</p>
+                        <p className={`text-2xl font-bold ${item.color}`}>{item.value}</p>
+                      </div>
+                      <div className={`p-2 rounded-full ${item.bgColor}`}>
+                        <item.icon className={`w-5 h-5 ${item.color}`} />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            {report && (
+              <p className="mt-4 text-xs text-muted-foreground">
+                Last checked: {new Date(report.checkedAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+
+          {/* Per-device records */}
+          <Card className="glass-card border-forest-accent/30">
+            <CardHeader>
+              <CardTitle className="text-forest-primary flex items-center gap-2">
+                <ShieldAlert className="w-5 h-5" />
+                Devices Needing Attention ({groups.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {groups.length === 0 ? (
+                <p className="text-muted-foreground text-sm">
+                  {isLoading ? 'Validating device records...' : 'All device records passed validation.'}
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {groups.map(group => (
+                    <div key={group.deviceId} className="p-4 rounded-lg border border-forest-accent/30">
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="font-medium text-forest-primary font-mono">{group.deviceId}</h4>
+                        <div className="flex gap-2">
+                          {group.rejected > 0 && (
+                            <Badge className="bg-forest-danger text-white">{group.rejected} rejected</Badge>
+                          )}
+                          {group.coerced > 0 && (
+                            <Badge className="bg-forest-warning text-white">{group.coerced} coerced</Badge>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="space-y-3">
+                        {group.records.map(record => (
+                          <div key={`${record.index}-${record.recordId}`} className="p-3 rounded-lg bg-muted/40">
+                            <div className="flex items-center justify-between mb-2 text-sm">
+                              <span className="text-muted-foreground">
+                                Record #{record.index + 1}
+                                {record.recordId && <span className="font-mono ml-2">{record.recordId}</span>}
+                              </span>
+                              <Badge className={getOutcomeColor(record)}>{record.outcome.toUpperCase()}</Badge>
+                            </div>
+                            <ul className="text-sm space-y-1">
+                              {record.issues.map((issue, index) => (
+                                <li key={index}>
+                                  <span className="font-mono text-forest-primary">{issue.field}</span>
+                                  <span className="text-muted-foreground">: {issue.message}</span>
+                                </li>
+                              ))}
+                            </ul>
+                            <details className="mt-2">
+                              <summary className="text-xs text-muted-foreground cursor-pointer">Raw payload</summary>
+                              <pre className="mt-2 text-xs bg-white p-2 rounded border overflow-x-auto">
+                                {JSON.stringify(record.raw, null, 2)}
+                              </pre>
+                            </details>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {error && (
+            <div className="glass-card p-6 rounded-lg text-center">
+              <p className="text-forest-danger">Failed to load API data: {describeRequestError(error)}</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DataQuality;
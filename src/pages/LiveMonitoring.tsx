@@ -1,8 +1,25 @@
 // src/components/LiveMonitoring.tsx
-import React, { useState, useEffect, useCallback } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getFireAlerts, getFireAlertByDeviceId } from '@/api/fireAlerts';
-import { getWeatherData } from '../api/weatherApi';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  describeCondition,
+  evaluateStatus,
+  getMetricLevel,
+  isAtLeast,
+  isPreFire,
+  isTrendCondition,
+  STATUS_LEVEL_LABELS,
+} from '@/api/statusRules';
+import { computeTrend, TREND_WINDOW_MINUTES } from '@/api/trends';
+import { useStatusRules } from '@/hooks/use-status-rules';
+import { useZones } from '@/hooks/use-zones';
+import { getRuleZones } from '@/api/zones';
+import { STATUS_LEVEL_PILL_CLASSES, STATUS_LEVEL_TEXT_CLASSES } from '@/lib/statusStyles';
+import { downsampleReadings, pickResolution } from '@/api/history';
+import { useDeviceHistory, useSensor, useSensors } from '@/hooks/use-sensors';
+import { useLiveFeedStatus } from '@/hooks/use-live-feed';
+import { getWeatherData, WeatherData } from '../api/weatherApi';
+import { describeRequestError, isAbortError } from '@/api/httpClient';
+import { appendSession, loadSessions, MAX_SAVED_SESSIONS } from '@/api/sessions';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -25,12 +42,20 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
-import { useParams, useNavigate } from 'react-router-dom';
-import { SensorData } from '@/types/sensor';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import ModelBar from '@/components/ModelBar';
+import TrendArrow from '@/components/TrendArrow';
+import { URL_PARAMS } from '@/lib/urlState';
 import { Badge } from '@/components/ui/badge';
+import { SensorReading } from '@/types/sensor';
+import { StatusLevel } from '@/types/statusRules';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
-interface SensorReading {
+const HISTORY_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Reading History lists this many of the latest readings
+const HISTORY_ROWS = 50;
+
+interface LiveReading {
   id: string;
   deviceId: string;
   latitude: number;
@@ -44,25 +69,12 @@ interface SensorReading {
   status: string;
 }
 
-interface WeatherData {
-  temp: number;
-  feels_like: number;
-  humidity: number;
-  pressure: number;
-  wind_speed: number;
-  wind_deg: number;
-  wind_gust?: number;
-  visibility: number;
-  description: string;
-  icon: string;
-}
-
 interface FireAlertSession {
   id: string;
   deviceId: string;
   startTime: string;
   endTime: string | null;
-  readings: SensorReading[];
+  readings: LiveReading[];
   maxTemp: number;
   minTemp: number;
   avgTemp: number;
@@ -75,34 +87,10 @@ interface FireAlertSession {
   status: 'active' | 'completed';
 }
 
-// Convert API data to SensorData format
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-
-  return apiDevices.map(device => {
-    const deviceId = device.deviceId || device.id || (device._id ? `DEV-${device._id.slice(-4)}` : 'DEV-unknown');
-    const id = device._id || device.id || deviceId;
-
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || device.temperature || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp: device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: device.name || `Sensor ${deviceId}`,
-      status: device.isfire || device.isFire ? 'warning' : 'active',
-    };
-  });
-};
-
 const LiveMonitoring: React.FC = () => {
   const [selectedSensorId, setSelectedSensorId] = useState<string>('');
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
-  const [sensorReadings, setSensorReadings] = useState<SensorReading[]>([]);
+  const [sensorReadings, setSensorReadings] = useState<LiveReading[]>([]);
   const [isMonitoringFire, setIsMonitoringFire] = useState<boolean>(false);
   const [activeSessions, setActiveSessions] = useState<FireAlertSession[]>([]);
   const [completedSessions, setCompletedSessions] = useState<FireAlertSession[]>([]);
@@ -112,16 +100,19 @@ const LiveMonitoring: React.FC = () => {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { sensorId } = useParams();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const linkedSensorId = searchParams.get(URL_PARAMS.sensor);
+  const liveFeedStatus = useLiveFeedStatus();
 
   // Fetch all available sensors from API
-  const { data: allSensorsData, isLoading: isLoadingSensors, refetch: refetchSensors } = useQuery({
-    queryKey: ['allFireAlerts'],
-    queryFn: getFireAlerts,
+  const { data: availableSensors = [], isLoading: isLoadingSensors, refetch: refetchSensors } = useSensors({
     refetchInterval: 30000,
   });
 
-  // Convert API data to sensor format
-  const availableSensors = convertApiToSensorData(allSensorsData || []);
+  // Links of the form /monitoring?sensor=ID land on the device route
+  useEffect(() => {
+    if (!sensorId && linkedSensorId) navigate(`/monitoring/${encodeURIComponent(linkedSensorId)}`, { replace: true });
+  }, [sensorId, linkedSensorId, navigate]);
 
   // Get sensor ID from URL parameters if available
   useEffect(() => {
@@ -134,38 +125,66 @@ const LiveMonitoring: React.FC = () => {
   }, [sensorId]);
 
   // Fetch data for the selected sensor
-  const { data: apiResponse, isLoading, error, refetch } = useQuery({
-    queryKey: ['fireAlerts', selectedSensorId],
-    queryFn: () => selectedSensorId ? getFireAlertByDeviceId(selectedSensorId) : null,
+  const { data: apiResponse, isLoading, error, refetch } = useSensor(selectedSensorId, {
     refetchInterval: 10000,
-    enabled: !!selectedSensorId,
   });
 
+  // Last 24h of readings for the selected sensor, fetched once per selection
+  const historyWindow = useMemo(() => {
+    const to = new Date();
+    return { deviceId: selectedSensorId, from: new Date(to.getTime() - HISTORY_WINDOW_MS), to };
+  }, [selectedSensorId]);
+
+  const { data: history = [] } = useDeviceHistory(historyWindow.deviceId, historyWindow.from, historyWindow.to);
+
+  // History merged with readings received since it was fetched, newest first
+  const recentReadings = useMemo(() => {
+    const byTimestamp = new Map<string, SensorReading>();
+    history.forEach(reading => byTimestamp.set(reading.timestamp, reading));
+    sensorReadings.forEach(reading => byTimestamp.set(reading.timestamp, reading));
+    return Array.from(byTimestamp.values()).sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }, [history, sensorReadings]);
+
+  const trendData = useMemo(() => {
+    const resolution = pickResolution(historyWindow.from, historyWindow.to, 96);
+    return downsampleReadings([...recentReadings].reverse(), resolution).map(reading => ({
+      time: new Date(reading.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      temp: Number(reading.temp.toFixed(1)),
+      humidity: Number(reading.humidity.toFixed(1)),
+      smoke: Number(reading.smoke.toFixed(1)),
+    }));
+  }, [recentReadings, historyWindow]);
+
   // Fetch weather data when sensor is selected and has readings
   useEffect(() => {
+    const controller = new AbortController();
     const fetchWeatherData = async () => {
       if (selectedSensorId && sensorReadings.length > 0) {
         const latestReading = sensorReadings[0];
         try {
-          const weather = await getWeatherData(latestReading.latitude, latestReading.longitude);
+          const weather = await getWeatherData(latestReading.latitude, latestReading.longitude, controller.signal);
           setWeatherData(weather);
         } catch (error) {
+          if (isAbortError(error)) return;
           console.error('Failed to fetch weather data:', error);
+          setWeatherData(null);
         }
       }
     };
 
     fetchWeatherData();
+    return () => controller.abort();
   }, [selectedSensorId, sensorReadings]);
 
   // Load saved sessions on component mount
   useEffect(() => {
-    const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-    setCompletedSessions(savedSessions);
+    loadSessions<FireAlertSession>().then(setCompletedSessions);
   }, []);
 
   // Check if reading is a duplicate
-  const isDuplicateReading = useCallback((newReading: SensorReading, existingReadings: SensorReading[]) => {
+  const isDuplicateReading = useCallback((newReading: LiveReading, existingReadings: LiveReading[]) => {
     return existingReadings.some(reading => 
       reading.timestamp === newReading.timestamp &&
       reading.temp === newReading.temp &&
@@ -174,24 +193,16 @@ const LiveMonitoring: React.FC = () => {
     );
   }, []);
 
-  // Convert API data to sensor format and store readings history
+  // Store the normalized sensor reading in the readings history
   useEffect(() => {
     if (apiResponse && selectedSensorId && apiResponse.timestamp !== lastProcessedTimestamp) {
       setLastUpdate(new Date());
       setLastProcessedTimestamp(apiResponse.timestamp);
       
-      const newReading = {
-        id: apiResponse.id || Date.now().toString(),
-        deviceId: apiResponse.deviceId,
-        latitude: apiResponse.latitude,
-        longitude: apiResponse.longitude,
-        humidity: apiResponse.humidity,
-        temp: apiResponse.temp,
-        smoke: apiResponse.smoke,
-        isFire: apiResponse.isFire,
-        timestamp: apiResponse.timestamp || new Date().toISOString(),
-        name: `Sensor ${apiResponse.deviceId}`,
-        status: apiResponse.isFire ? 'warning' : 'active'
+      const newReading: LiveReading = {
+        ...apiResponse,
+        name: apiResponse.name || `Sensor ${apiResponse.deviceId}`,
+        status: apiResponse.status || 'active',
       };
 
       setSensorReadings(prev => {
@@ -289,10 +300,9 @@ const LiveMonitoring: React.FC = () => {
         setCurrentSession(null);
         setActiveSessions(prev => prev.filter(session => session.id !== completedSession.id));
         
-        setCompletedSessions(prev => [completedSession, ...prev.slice(0, 9)]);
+        setCompletedSessions(prev => [completedSession, ...prev.slice(0, MAX_SAVED_SESSIONS - 1)]);
         
-        const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-        localStorage.setItem('fireAlertSessions', JSON.stringify([completedSession, ...savedSessions.slice(0, 9)]));
+        appendSession(completedSession);
       }
     }
   }, [sensorReadings, currentSession]);
@@ -317,17 +327,39 @@ const LiveMonitoring: React.FC = () => {
     }
   };
 
-  const getStatusColor = (sensor: SensorReading) => {
-    if (sensor.isFire) return 'text-red-600 bg-red-100';
-    if (sensor.temp > 35 || sensor.smoke > 50) return 'text-yellow-600 bg-yellow-100';
-    return 'text-green-600 bg-green-100';
-  };
+  const statusRules = useStatusRules();
+  const zones = useZones();
+  const ruleZones = useMemo(() => (apiResponse ? getRuleZones(apiResponse, zones) : []), [apiResponse, zones]);
+  const evaluate = useCallback(
+    (reading: SensorReading) =>
+      evaluateStatus(reading, {
+        deviceId: reading.deviceId,
+        zones: ruleZones,
+        history: recentReadings,
+        config: statusRules,
+      }),
+    [ruleZones, recentReadings, statusRules]
+  );
 
-  const getStatusText = (sensor: SensorReading) => {
-    if (sensor.isFire) return 'FIRE DETECTED';
-    if (sensor.temp > 35 || sensor.smoke > 50) return 'WARNING';
-    return 'NORMAL';
-  };
+  const getStatusColor = (level: StatusLevel) => STATUS_LEVEL_PILL_CLASSES[level];
+
+  const getStatusText = (level: StatusLevel) => STATUS_LEVEL_LABELS[level].toUpperCase();
+
+  const currentEvaluation = useMemo(
+    () => (sensorReadings[0] ? evaluate(sensorReadings[0]) : null),
+    [sensorReadings, evaluate]
+  );
+  // Earlier readings under the current one, each evaluated once per history update
+  const historyRows = useMemo(
+    () =>
+      recentReadings.slice(1, HISTORY_ROWS + 1).map(reading => ({ reading, level: evaluate(reading).level })),
+    [recentReadings, evaluate]
+  );
+  const historyTotal = Math.max(0, recentReadings.length - 1);
+  const preFire = currentEvaluation && isPreFire(currentEvaluation, sensorReadings[0]);
+  const trend = useMemo(() => computeTrend(recentReadings), [recentReadings]);
+  const metricLevel = (metric: 'temp' | 'humidity' | 'smoke') =>
+    currentEvaluation ? getMetricLevel(currentEvaluation, metric) : 'normal';
 
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString();
@@ -355,7 +387,7 @@ const LiveMonitoring: React.FC = () => {
   };
 
   const handleDashboard = () => {
-    navigate('/dashboard');
+    navigate(selectedSensorId ? `/?sensor=${encodeURIComponent(selectedSensorId)}` : '/');
   };
 
   const handleReports = () => {
@@ -369,7 +401,7 @@ const LiveMonitoring: React.FC = () => {
         weatherData: weatherData
       };
       localStorage.setItem('lastSensorData', JSON.stringify(sensorData));
-      navigate('/affected-areas', { 
+      navigate(`/affected-areas?${URL_PARAMS.sensor}=${encodeURIComponent(selectedSensorId)}`, { 
         state: { 
           sensorData: sensorReadings[0],
           weatherData: weatherData 
@@ -512,7 +544,7 @@ const LiveMonitoring: React.FC = () => {
                 {error && (
                   <div className="flex items-center gap-2 text-red-600">
                     <AlertTriangle className="w-4 h-4" />
-                    <span className="text-sm">Error loading sensor data</span>
+                    <span className="text-sm">Error loading sensor data: {describeRequestError(error)}</span>
                   </div>
                 )}
               </div>
@@ -564,7 +596,7 @@ const LiveMonitoring: React.FC = () => {
               <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg rounded-2xl">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-3">
-                    <div className={`p-2 rounded-lg ${getStatusColor(sensorReadings[0])}`}>
+                    <div className={`p-2 rounded-lg ${getStatusColor(currentEvaluation.level)}`}>
                       <AlertTriangle className="w-5 h-5" />
                     </div>
                     <div>
@@ -579,9 +611,27 @@ const LiveMonitoring: React.FC = () => {
                         🚨 FIRE DETECTED
                       </span>
                     )}
+                    {preFire && (
+                      <span className="flex items-center gap-2 text-sm text-orange-700 bg-orange-100 px-3 py-2 rounded-full ml-auto">
+                        <AlertTriangle className="w-4 h-4" />
+                        PRE-FIRE WARNING
+                      </span>
+                    )}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
+                  {preFire && (
+                    <div className="mb-6 p-4 rounded-xl border border-orange-300 bg-orange-50 text-sm text-orange-800">
+                      <p className="font-semibold mb-1">Readings are moving the way a starting fire does:</p>
+                      <ul className="list-disc pl-5">
+                        {currentEvaluation.matches
+                          .filter(match => isAtLeast(match.level, 'critical') && isTrendCondition(match.condition))
+                          .map((match, index) => (
+                            <li key={index}>{describeCondition(match.condition)}</li>
+                          ))}
+                      </ul>
+                    </div>
+                  )}
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
                     <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
                       <p className="text-sm text-gray-600">Device ID</p>
@@ -589,8 +639,8 @@ const LiveMonitoring: React.FC = () => {
                     </div>
                     <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
                       <p className="text-sm text-gray-600">Status</p>
-                      <p className={`text-lg font-semibold ${getStatusColor(sensorReadings[0])} px-2 py-1 rounded-full inline-block`}>
-                        {getStatusText(sensorReadings[0])}
+                      <p className={`text-lg font-semibold ${getStatusColor(currentEvaluation.level)} px-2 py-1 rounded-full inline-block`}>
+                        {getStatusText(currentEvaluation.level)}
                       </p>
                     </div>
                     <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
@@ -618,8 +668,12 @@ const LiveMonitoring: React.FC = () => {
                       </CardHeader>
                       <CardContent>
                         <p className="text-3xl font-bold text-red-600">{sensorReadings[0].temp}°C</p>
-                        <p className={`text-sm mt-2 ${sensorReadings[0].temp > 35 ? 'text-red-600' : 'text-green-600'}`}>
-                          {sensorReadings[0].temp > 35 ? '⚠️ Above normal range' : '✅ Normal range'}
+                        <p className="text-xs text-gray-600 mt-1 flex items-center gap-2">
+                          <TrendArrow metric="temp" trend={trend.temp} showRate />
+                          {trend.temp.average !== null && <span>{TREND_WINDOW_MINUTES}-min avg {trend.temp.average.toFixed(1)}°C</span>}
+                        </p>
+                        <p className={`text-sm mt-2 ${STATUS_LEVEL_TEXT_CLASSES[metricLevel('temp')]}`}>
+                          {metricLevel('temp') !== 'normal' ? '⚠️ Outside normal range' : '✅ Normal range'}
                         </p>
                       </CardContent>
                     </Card>
@@ -633,8 +687,12 @@ const LiveMonitoring: React.FC = () => {
                       </CardHeader>
                       <CardContent>
                         <p className="text-3xl font-bold text-blue-600">{sensorReadings[0].humidity}%</p>
-                        <p className={`text-sm mt-2 ${sensorReadings[0].humidity < 30 ? 'text-yellow-600' : 'text-green-600'}`}>
-                          {sensorReadings[0].humidity < 30 ? '⚠️ Low humidity' : '✅ Normal range'}
+                        <p className="text-xs text-gray-600 mt-1 flex items-center gap-2">
+                          <TrendArrow metric="humidity" trend={trend.humidity} showRate />
+                          {trend.humidity.average !== null && <span>{TREND_WINDOW_MINUTES}-min avg {trend.humidity.average.toFixed(1)}%</span>}
+                        </p>
+                        <p className={`text-sm mt-2 ${STATUS_LEVEL_TEXT_CLASSES[metricLevel('humidity')]}`}>
+                          {metricLevel('humidity') !== 'normal' ? '⚠️ Outside normal range' : '✅ Normal range'}
                         </p>
                       </CardContent>
                     </Card>
@@ -648,8 +706,12 @@ const LiveMonitoring: React.FC = () => {
                       </CardHeader>
                       <CardContent>
                         <p className="text-3xl font-bold text-gray-700">{sensorReadings[0].smoke} ppm</p>
-                        <p className={`text-sm mt-2 ${sensorReadings[0].smoke > 50 ? 'text-red-600' : 'text-green-600'}`}>
-                          {sensorReadings[0].smoke > 50 ? '⚠️ Elevated levels' : '✅ Normal levels'}
+                        <p className="text-xs text-gray-600 mt-1 flex items-center gap-2">
+                          <TrendArrow metric="smoke" trend={trend.smoke} showRate />
+                          {trend.smoke.average !== null && <span>{TREND_WINDOW_MINUTES}-min avg {trend.smoke.average.toFixed(1)} ppm</span>}
+                        </p>
+                        <p className={`text-sm mt-2 ${STATUS_LEVEL_TEXT_CLASSES[metricLevel('smoke')]}`}>
+                          {metricLevel('smoke') !== 'normal' ? '⚠️ Elevated levels' : '✅ Normal levels'}
                         </p>
                       </CardContent>
                     </Card>
@@ -696,6 +758,11 @@ const LiveMonitoring: React.FC = () => {
                           {weatherData.description}
                           {weatherData.wind_gust && ` • Gusts up to ${weatherData.wind_gust} m/s`}
                         </p>
+                        {weatherData.asOf && (
+                          <p className="text-xs text-yellow-700 mt-1">
+                            Cached conditions from {new Date(weatherData.asOf).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -704,8 +771,43 @@ const LiveMonitoring: React.FC = () => {
             </div>
           )}
 
+          {/* 24h Trend */}
+          {trendData.length > 1 && (
+            <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg rounded-2xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-3">
+                  <div className="bg-green-100 p-2 rounded-lg">
+                    <BarChart3 className="w-5 h-5 text-green-600" />
+                  </div>
+                  <div>
+                    24 Hour Trend
+                    <p className="text-sm font-normal text-gray-600 mt-1">
+                      Averaged readings for {selectedSensorId}
+                    </p>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trendData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="time" />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="temp" stroke="#ef4444" dot={false} name="Temperature (°C)" />
+                      <Line type="monotone" dataKey="humidity" stroke="#3b82f6" dot={false} name="Humidity (%)" />
+                      <Line type="monotone" dataKey="smoke" stroke="#8884d8" dot={false} name="Smoke (ppm)" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Reading History */}
-          {sensorReadings.length > 1 && (
+          {recentReadings.length > 1 && (
             <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg rounded-2xl">
               <CardHeader>
                 <CardTitle className="flex items-center gap-3">
@@ -715,14 +817,17 @@ const LiveMonitoring: React.FC = () => {
                   <div>
                     Reading History
                     <p className="text-sm font-normal text-gray-600 mt-1">
-                      {sensorReadings.length} records • Last 20 readings
+                      {historyRows.length < historyTotal
+                        ? `Latest ${historyRows.length} of ${historyTotal} records`
+                        : `${historyTotal} records`}{' '}
+                      • Last 24 hours
                     </p>
                   </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
-                  {sensorReadings.slice(1).map((reading, index) => (
+                  {historyRows.map(({ reading, level }, index) => (
                     <div 
                       key={`${reading.timestamp}-${index}`} 
                       className="p-4 border border-gray-200 rounded-xl bg-white hover:shadow-md transition-shadow duration-200"
@@ -734,8 +839,8 @@ const LiveMonitoring: React.FC = () => {
                             {formatTimestamp(reading.timestamp)}
                           </span>
                         </div>
-                        <span className={`text-sm font-semibold px-3 py-1 rounded-full ${getStatusColor(reading)}`}>
-                          {getStatusText(reading)}
+                        <span className={`text-sm font-semibold px-3 py-1 rounded-full ${getStatusColor(level)}`}>
+                          {getStatusText(level)}
                         </span>
                       </div>
                       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
@@ -834,7 +939,9 @@ const LiveMonitoring: React.FC = () => {
                   <div>
                     <p className="text-sm font-medium text-gray-900">Live Monitoring Active</p>
                     <p className="text-xs text-gray-600">
-                      Real-time data updates every 10 seconds
+                      {liveFeedStatus === 'open'
+                        ? 'Live feed connected • updates are pushed as they arrive'
+                        : 'Real-time data updates every 10 seconds'}
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,63 @@
+// src/pages/ManageSensors.tsx
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import RegisterSensorForm from '@/components/RegisterSensorForm';
+import RelocateSensorForm from '@/components/RelocateSensorForm';
+import DecommissionSensorPanel from '@/components/DecommissionSensorPanel';
+import BulkRegisterPanel from '@/components/BulkRegisterPanel';
+import { Wrench } from 'lucide-react';
+
+const ManageSensors: React.FC = () => {
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="h-16 glass border-b border-forest-accent/30 flex items-center px-6">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger className="text-forest-primary" />
+          <div>
+            <h1 className="text-xl font-bold text-forest-primary">Manage Sensors</h1>
+            <p className="text-sm text-muted-foreground">Register, relocate and retire field devices</p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <Card className="glass-card border-forest-accent/30">
+          <CardHeader>
+            <CardTitle className="text-forest-primary flex items-center gap-2">
+              <Wrench className="w-5 h-5" />
+              Provisioning
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="register">
+              <TabsList className="grid grid-cols-4 mb-6">
+                <TabsTrigger value="register">Register</TabsTrigger>
+                <TabsTrigger value="relocate">Relocate</TabsTrigger>
+                <TabsTrigger value="decommission">Decommission</TabsTrigger>
+                <TabsTrigger value="bulk">Bulk CSV</TabsTrigger>
+              </TabsList>
+              <TabsContent value="register">
+                <RegisterSensorForm />
+              </TabsContent>
+              <TabsContent value="relocate">
+                <RelocateSensorForm />
+              </TabsContent>
+              <TabsContent value="decommission">
+                <DecommissionSensorPanel />
+              </TabsContent>
+              <TabsContent value="bulk">
+                <BulkRegisterPanel />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ManageSensors;
@@ -1,5 +1,5 @@
 // src/pages/Reports.tsx
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { LogOut, Calendar, Clock, Thermometer, Droplets, Wind, MapPin, AlertTriangle, Trash2, BarChart3, Download } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
@@ -21,8 +21,28 @@ import {
   BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area
 } from 'recharts';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-interface SensorReading {
+import {
+  compareStatusLevels,
+  evaluateStatus,
+  getMetricLevel,
+  isAtLeast,
+  STATUS_LEVEL_LABELS,
+  STATUS_LEVELS,
+} from '@/api/statusRules';
+import { useStatusRules } from '@/hooks/use-status-rules';
+import { STATUS_LEVEL_COLORS, STATUS_LEVEL_TEXT_CLASSES } from '@/lib/statusStyles';
+import { StatusEvaluation, StatusLevel } from '@/types/statusRules';
+import { pickResolution } from '@/api/history';
+import { loadSessions, saveSessions } from '@/api/sessions';
+import { isAlertOpen } from '@/api/alerts';
+import { useAlertsForDevice } from '@/hooks/use-alerts';
+import AlertTimeline from '@/components/AlertTimeline';
+import AlertLifecycleControls from '@/components/AlertLifecycleControls';
+import { useDeviceHistory } from '@/hooks/use-sensors';
+import { useSensorRegistry } from '@/hooks/use-registry';
+import { describePlacement } from '@/api/registry';
+
+interface SessionReading {
   id: string;
   deviceId: string;
   latitude: number;
@@ -41,7 +61,7 @@ interface FireAlertSession {
   deviceId: string;
   startTime: string;
   endTime: string | null;
-  readings: SensorReading[];
+  readings: SessionReading[];
   maxTemp: number;
   minTemp: number;
   avgTemp: number;
@@ -56,6 +76,9 @@ interface FireAlertSession {
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
+// The alert watcher and the monitoring session notice a fire independently, a few polls apart
+const ALERT_MATCH_PADDING_MS = 10 * 60 * 1000;
+
 const Reports: React.FC = () => {
   const [sessions, setSessions] = useState<FireAlertSession[]>([]);
   const [selectedSession, setSelectedSession] = useState<FireAlertSession | null>(null);
@@ -63,10 +86,11 @@ const Reports: React.FC = () => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
   const navigate = useNavigate();
+  const registry = useSensorRegistry();
+  const selectedEntry = selectedSession ? registry[selectedSession.deviceId] : undefined;
 
   useEffect(() => {
-    const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-    setSessions(savedSessions);
+    loadSessions<FireAlertSession>().then(setSessions);
   }, []);
 
   const formatDate = (dateString: string) => {
@@ -98,23 +122,11 @@ const Reports: React.FC = () => {
   };
 
   const handleDashboard = () => {
-    navigate('/dashboard');
+    navigate('/');
   };
 
   const handleLiveMonitoring = () => {
-    navigate('/live-monitoring');
-  };
-
-  const getStatusColor = (reading: SensorReading) => {
-    if (reading.isFire) return 'text-red-600';
-    if (reading.temp > 35 || reading.smoke > 50) return 'text-yellow-600';
-    return 'text-green-600';
-  };
-
-  const getStatusText = (reading: SensorReading) => {
-    if (reading.isFire) return 'FIRE DETECTED';
-    if (reading.temp > 35 || reading.smoke > 50) return 'WARNING';
-    return 'NORMAL';
+    navigate('/monitoring');
   };
 
   const handleDeleteSession = (sessionId: string, e: React.MouseEvent) => {
@@ -127,7 +139,7 @@ const Reports: React.FC = () => {
     if (sessionToDelete) {
       const updatedSessions = sessions.filter(session => session.id !== sessionToDelete);
       setSessions(updatedSessions);
-      localStorage.setItem('fireAlertSessions', JSON.stringify(updatedSessions));
+      saveSessions(updatedSessions);
       
       // If the deleted session was selected, clear the selection
       if (selectedSession && selectedSession.id === sessionToDelete) {
@@ -144,49 +156,116 @@ const Reports: React.FC = () => {
     setShowDeleteDialog(false);
   };
 
+  // Readings for the session window from the history API; the session's own readings are a fallback
+  const sessionWindow = useMemo(() => {
+    if (!selectedSession) return { deviceId: '', from: new Date(0), to: new Date(0) };
+    const from = new Date(selectedSession.startTime);
+    const to = selectedSession.endTime ? new Date(selectedSession.endTime) : new Date();
+    return { deviceId: selectedSession.deviceId, from, to };
+  }, [selectedSession]);
+
+  // Every session reading run through the status rules, with the session itself as history
+  const statusRules = useStatusRules();
+  const sessionEvaluations = useMemo(() => {
+    const evaluations = new Map<string, StatusEvaluation>();
+    if (!selectedSession) return evaluations;
+    selectedSession.readings.forEach(reading => {
+      evaluations.set(
+        reading.timestamp,
+        evaluateStatus(reading, {
+          deviceId: selectedSession.deviceId,
+          history: selectedSession.readings,
+          config: statusRules,
+        })
+      );
+    });
+    return evaluations;
+  }, [selectedSession, statusRules]);
+
+  const levelOf = useCallback(
+    (reading: SessionReading): StatusLevel =>
+      sessionEvaluations.get(reading.timestamp)?.level ?? evaluateStatus(reading, { config: statusRules }).level,
+    [sessionEvaluations, statusRules]
+  );
+
+  const getStatusColor = (reading: SessionReading) => STATUS_LEVEL_TEXT_CLASSES[levelOf(reading)];
+
+  const getStatusText = (reading: SessionReading) => STATUS_LEVEL_LABELS[levelOf(reading)].toUpperCase();
+
+  // Most severe level the session reached overall and for each metric
+  const peakLevels = useMemo(() => {
+    const worst = (levels: StatusLevel[]) =>
+      levels.reduce<StatusLevel>((peak, level) => (compareStatusLevels(level, peak) > 0 ? level : peak), 'normal');
+    const evaluations = Array.from(sessionEvaluations.values());
+    return {
+      overall: worst(evaluations.map(evaluation => evaluation.level)),
+      temp: worst(evaluations.map(evaluation => getMetricLevel(evaluation, 'temp'))),
+      smoke: worst(evaluations.map(evaluation => getMetricLevel(evaluation, 'smoke'))),
+    };
+  }, [sessionEvaluations]);
+
+  const sessionAlerts = useAlertsForDevice(
+    sessionWindow.deviceId,
+    new Date(sessionWindow.from.getTime() - ALERT_MATCH_PADDING_MS),
+    new Date(sessionWindow.to.getTime() + ALERT_MATCH_PADDING_MS)
+  );
+
+  const { data: sessionHistory = [] } = useDeviceHistory(
+    sessionWindow.deviceId,
+    sessionWindow.from,
+    sessionWindow.to,
+    pickResolution(sessionWindow.from, sessionWindow.to)
+  );
+
   // Prepare chart data for the selected session
   const chartData = useMemo(() => {
     if (!selectedSession) return [];
-    
-    return selectedSession.readings.map(reading => ({
+
+    const readings = sessionHistory.length > 0
+      ? sessionHistory
+      : [...selectedSession.readings].sort(
+          (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        );
+
+    return readings.map(reading => ({
       time: new Date(reading.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
       timestamp: reading.timestamp,
       temp: reading.temp,
       smoke: reading.smoke,
       humidity: reading.humidity,
       isFire: reading.isFire ? 1 : 0,
-      status: reading.isFire ? 'Fire' : (reading.temp > 35 || reading.smoke > 50 ? 'Warning' : 'Normal')
+      status: STATUS_LEVEL_LABELS[
+        evaluateStatus(reading, { deviceId: selectedSession.deviceId, history: readings, config: statusRules }).level
+      ]
     }));
-  }, [selectedSession]);
+  }, [selectedSession, sessionHistory, statusRules]);
 
   // Prepare severity distribution data
   const severityData = useMemo(() => {
     if (!selectedSession) return [];
     
-    const normal = selectedSession.readings.filter(r => !r.isFire && r.temp <= 35 && r.smoke <= 50).length;
-    const warning = selectedSession.readings.filter(r => !r.isFire && (r.temp > 35 || r.smoke > 50)).length;
-    const fire = selectedSession.readings.filter(r => r.isFire).length;
-    
-    return [
-      { name: 'Normal', value: normal, color: '#10B981' },
-      { name: 'Warning', value: warning, color: '#F59E0B' },
-      { name: 'Fire', value: fire, color: '#EF4444' }
-    ];
-  }, [selectedSession]);
+    return STATUS_LEVELS.map(level => ({
+      name: STATUS_LEVEL_LABELS[level],
+      value: selectedSession.readings.filter(r => levelOf(r) === level).length,
+      color: STATUS_LEVEL_COLORS[level]
+    })).filter(entry => entry.value > 0);
+  }, [selectedSession, levelOf]);
 
   // Calculate statistics for the session
   const sessionStats = useMemo(() => {
     if (!selectedSession) return null;
     
-    const fireReadings = selectedSession.readings.filter(r => r.isFire).length;
-    const warningReadings = selectedSession.readings.filter(r => !r.isFire && (r.temp > 35 || r.smoke > 50)).length;
-    const normalReadings = selectedSession.readings.filter(r => !r.isFire && r.temp <= 35 && r.smoke <= 50).length;
+    // Watch counts as normal here; warning and critical are both reported as warnings
+    const levels = selectedSession.readings.map(levelOf);
+    const fireReadings = levels.filter(level => level === 'fire').length;
+    const warningReadings = levels.filter(level => isAtLeast(level, 'warning') && level !== 'fire').length;
+    const normalReadings = levels.filter(level => !isAtLeast(level, 'warning')).length;
     
     // Find peak fire time
     let peakFireTime = null;
     if (fireReadings > 0) {
       const fireTimestamps = selectedSession.readings
-        .filter(r => r.isFire)
+        .filter(r => levelOf(r) === 'fire')
         .map(r => new Date(r.timestamp).getTime());
       
       const avgFireTime = fireTimestamps.reduce((a, b) => a + b, 0) / fireTimestamps.length;
@@ -203,7 +282,7 @@ const Reports: React.FC = () => {
       normalPercentage: (normalReadings / selectedSession.readings.length * 100).toFixed(1),
       peakFireTime
     };
-  }, [selectedSession]);
+  }, [selectedSession, levelOf]);
 
   // Function to export session data as CSV
   const exportSessionData = () => {
@@ -310,7 +389,12 @@ const Reports: React.FC = () => {
                         </Button>
                         <div className="flex justify-between items-start">
                           <div>
-                            <h3 className="font-semibold">Device: {session.deviceId}</h3>
+                            <h3 className="font-semibold">
+                              {registry[session.deviceId]?.name || `Device: ${session.deviceId}`}
+                            </h3>
+                            {describePlacement(registry[session.deviceId]) && (
+                              <p className="text-xs text-muted-foreground">{describePlacement(registry[session.deviceId])}</p>
+                            )}
                             <p className="text-sm text-muted-foreground">
                               {new Date(session.startTime).toLocaleDateString()}
                             </p>
@@ -352,7 +436,7 @@ const Reports: React.FC = () => {
                   <CardHeader className="flex flex-row items-center justify-between">
                     <div>
                       <CardTitle>
-                        Fire Alert Details - {selectedSession.deviceId}
+                        Fire Alert Details - {selectedEntry?.name || selectedSession.deviceId}
                       </CardTitle>
                       <div className="flex gap-2 mt-2">
                         <Button 
@@ -401,13 +485,40 @@ const Reports: React.FC = () => {
                           {selectedSession.endTime ? formatDate(selectedSession.endTime) : 'Ongoing'}
                         </p>
                       </div>
+                      {selectedEntry && (
+                        <>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Range / Beat</p>
+                            <p className="text-lg font-semibold">{describePlacement(selectedEntry) || '—'}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Custodian</p>
+                            <p className="text-lg font-semibold">{selectedEntry.custodian || '—'}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Hardware</p>
+                            <p className="text-lg font-semibold">
+                              {[selectedEntry.hardwareModel, selectedEntry.firmwareVersion && `fw ${selectedEntry.firmwareVersion}`]
+                                .filter(Boolean)
+                                .join(', ') || '—'}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Installed</p>
+                            <p className="text-lg font-semibold">
+                              {selectedEntry.installDate ? new Date(selectedEntry.installDate).toLocaleDateString() : '—'}
+                            </p>
+                          </div>
+                        </>
+                      )}
                     </div>
 
                     <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                      <TabsList className="grid grid-cols-4 mb-6">
+                      <TabsList className="grid grid-cols-5 mb-6">
                         <TabsTrigger value="overview">Overview</TabsTrigger>
                         <TabsTrigger value="charts">Charts</TabsTrigger>
                         <TabsTrigger value="analysis">Analysis</TabsTrigger>
+                        <TabsTrigger value="lifecycle">Lifecycle</TabsTrigger>
                         <TabsTrigger value="rawdata">Raw Data</TabsTrigger>
                       </TabsList>
 
@@ -607,18 +718,15 @@ const Reports: React.FC = () => {
                                 <div>
                                   <div className="flex justify-between mb-1">
                                     <span>Temperature Risk</span>
-                                    <span className="font-medium">
-                                      {selectedSession.maxTemp > 60 ? 'High' : 
-                                       selectedSession.maxTemp > 40 ? 'Medium' : 'Low'}
-                                    </span>
+                                    <span className="font-medium">{STATUS_LEVEL_LABELS[peakLevels.temp]}</span>
                                   </div>
                                   <div className="w-full bg-gray-200 rounded-full h-2.5">
                                     <div 
-                                      className={`h-2.5 rounded-full ${
-                                        selectedSession.maxTemp > 60 ? 'bg-red-600' : 
-                                        selectedSession.maxTemp > 40 ? 'bg-yellow-500' : 'bg-green-600'
-                                      }`} 
-                                      style={{width: `${Math.min(selectedSession.maxTemp, 100)}%`}}
+                                      className="h-2.5 rounded-full"
+                                      style={{
+                                        width: `${Math.min(selectedSession.maxTemp, 100)}%`,
+                                        backgroundColor: STATUS_LEVEL_COLORS[peakLevels.temp]
+                                      }}
                                     ></div>
                                   </div>
                                 </div>
@@ -626,18 +734,15 @@ const Reports: React.FC = () => {
                                 <div>
                                   <div className="flex justify-between mb-1">
                                     <span>Smoke Risk</span>
-                                    <span className="font-medium">
-                                      {selectedSession.maxSmoke > 100 ? 'High' : 
-                                       selectedSession.maxSmoke > 50 ? 'Medium' : 'Low'}
-                                    </span>
+                                    <span className="font-medium">{STATUS_LEVEL_LABELS[peakLevels.smoke]}</span>
                                   </div>
                                   <div className="w-full bg-gray-200 rounded-full h-2.5">
                                     <div 
-                                      className={`h-2.5 rounded-full ${
-                                        selectedSession.maxSmoke > 100 ? 'bg-red-600' : 
-                                        selectedSession.maxSmoke > 50 ? 'bg-yellow-500' : 'bg-green-600'
-                                      }`} 
-                                      style={{width: `${Math.min(selectedSession.maxSmoke, 100)}%`}}
+                                      className="h-2.5 rounded-full"
+                                      style={{
+                                        width: `${Math.min(selectedSession.maxSmoke, 100)}%`,
+                                        backgroundColor: STATUS_LEVEL_COLORS[peakLevels.smoke]
+                                      }}
                                     ></div>
                                   </div>
                                 </div>
@@ -645,18 +750,12 @@ const Reports: React.FC = () => {
                                 <div>
                                   <div className="flex justify-between mb-1">
                                     <span>Overall Risk Level</span>
-                                    <span className="font-medium">
-                                      {selectedSession.maxTemp > 60 || selectedSession.maxSmoke > 100 ? 'High' : 
-                                       selectedSession.maxTemp > 40 || selectedSession.maxSmoke > 50 ? 'Medium' : 'Low'}
-                                    </span>
+                                    <span className="font-medium">{STATUS_LEVEL_LABELS[peakLevels.overall]}</span>
                                   </div>
                                   <div className="w-full bg-gray-200 rounded-full h-2.5">
                                     <div 
-                                      className={`h-2.5 rounded-full ${
-                                        selectedSession.maxTemp > 60 || selectedSession.maxSmoke > 100 ? 'bg-red-600' : 
-                                        selectedSession.maxTemp > 40 || selectedSession.maxSmoke > 50 ? 'bg-yellow-500' : 'bg-green-600'
-                                      }`} 
-                                      style={{width: `${Math.min(
+                                      className="h-2.5 rounded-full"
+                                      style={{backgroundColor: STATUS_LEVEL_COLORS[peakLevels.overall], width: `${Math.min(
                                         (selectedSession.maxTemp / 100 * 50) + (selectedSession.maxSmoke / 200 * 50), 
                                         100
                                       )}%`}}
@@ -676,22 +775,22 @@ const Reports: React.FC = () => {
                                 <div className="flex justify-between">
                                   <span className="text-muted-foreground">Potential Area Affected:</span>
                                   <span className="font-medium">
-                                    {selectedSession.maxTemp > 60 ? 'Large (5+ acres)' : 
-                                     selectedSession.maxTemp > 40 ? 'Medium (1-5 acres)' : 'Small (<1 acre)'}
+                                    {isAtLeast(peakLevels.overall, 'critical') ? 'Large (5+ acres)' : 
+                                     isAtLeast(peakLevels.overall, 'warning') ? 'Medium (1-5 acres)' : 'Small (<1 acre)'}
                                   </span>
                                 </div>
                                 <div className="flex justify-between">
                                   <span className="text-muted-foreground">Response Time Needed:</span>
                                   <span className="font-medium">
-                                    {selectedSession.maxTemp > 60 ? 'Immediate (<15 mins)' : 
-                                     selectedSession.maxTemp > 40 ? 'Urgent (15-30 mins)' : 'Standard (30+ mins)'}
+                                    {isAtLeast(peakLevels.overall, 'critical') ? 'Immediate (<15 mins)' : 
+                                     isAtLeast(peakLevels.overall, 'warning') ? 'Urgent (15-30 mins)' : 'Standard (30+ mins)'}
                                   </span>
                                 </div>
                                 <div className="flex justify-between">
                                   <span className="text-muted-foreground">Recommended Action:</span>
                                   <span className="font-medium">
-                                    {selectedSession.maxTemp > 60 ? 'Evacuate and deploy fire services' : 
-                                     selectedSession.maxTemp > 40 ? 'Increase monitoring and prepare response' : 'Continue standard monitoring'}
+                                    {isAtLeast(peakLevels.overall, 'critical') ? 'Evacuate and deploy fire services' : 
+                                     isAtLeast(peakLevels.overall, 'warning') ? 'Increase monitoring and prepare response' : 'Continue standard monitoring'}
                                   </span>
                                 </div>
                               </div>
@@ -712,10 +811,10 @@ const Reports: React.FC = () => {
                                   <li>Started at approximately {formatDate(selectedSession.startTime)}</li>
                                   <li>Lasted for {getDuration(selectedSession.startTime, selectedSession.endTime)}</li>
                                   <li>Reached peak intensity around {sessionStats.peakFireTime || 'unknown time'}</li>
-                                  <li>Showed {selectedSession.readings.some(r => r.temp > 70) ? 'high' : 'moderate'} temperature escalation</li>
+                                  <li>Showed {isAtLeast(peakLevels.temp, 'critical') ? 'high' : 'moderate'} temperature escalation</li>
                                 </ul>
                                 <p className="mt-2 text-sm text-muted-foreground">
-                                  This pattern suggests a {selectedSession.readings.some(r => r.temp > 70) ? 'rapidly developing' : 'gradual'} fire that may have been influenced by weather conditions and available fuel sources.
+                                  This pattern suggests a {isAtLeast(peakLevels.temp, 'critical') ? 'rapidly developing' : 'gradual'} fire that may have been influenced by weather conditions and available fuel sources.
                                 </p>
                               </div>
                             ) : (
@@ -725,6 +824,47 @@ const Reports: React.FC = () => {
                         </Card>
                       </TabsContent>
 
+                      {/* Lifecycle Tab */}
+                      <TabsContent value="lifecycle">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <div>
+                            <h3 className="text-lg font-semibold mb-4">Alert Lifecycle</h3>
+                            {sessionAlerts.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">
+                                No alert was raised for this device during the session.
+                              </p>
+                            ) : (
+                              <div className="space-y-6">
+                                {sessionAlerts.map(alert => (
+                                  <div key={alert.id} className="space-y-4">
+                                    <AlertTimeline alert={alert} />
+                                    {isAlertOpen(alert) && (
+                                      <div className="p-3 border rounded-lg bg-white">
+                                        <AlertLifecycleControls alert={alert} />
+                                      </div>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          <div>
+                            <h3 className="text-lg font-semibold mb-4">Readings</h3>
+                            <div className="space-y-1 max-h-96 overflow-y-auto">
+                              {[...selectedSession.readings]
+                                .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+                                .map((reading, index) => (
+                                  <div key={`${reading.timestamp}-${index}`} className="flex justify-between text-sm p-2 border rounded bg-white">
+                                    <span className="text-muted-foreground">{new Date(reading.timestamp).toLocaleTimeString()}</span>
+                                    <span>{reading.temp}°C · {reading.smoke} ppm</span>
+                                    <span className={`font-semibold ${getStatusColor(reading)}`}>{getStatusText(reading)}</span>
+                                  </div>
+                                ))}
+                            </div>
+                          </div>
+                        </div>
+                      </TabsContent>
+
                       {/* Raw Data Tab */}
                       <TabsContent value="rawdata">
                         <h3 className="text-lg font-semibold mb-4">All Readings ({selectedSession.readings.length} records)</h3>
@@ -0,0 +1,241 @@
+// src/pages/SensorRegistry.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  describePlacement,
+  importRegistryEntries,
+  parseRegistryCsv,
+  parseRegistryJson,
+  registryToCsv,
+  registryToJson,
+  removeRegistryEntry,
+} from '@/api/registry';
+import { useSensorRegistry } from '@/hooks/use-registry';
+import { useSensors } from '@/hooks/use-sensors';
+import { downloadText } from '@/lib/download';
+import { SensorRegistryEntry } from '@/types/registry';
+import SensorRegistryDialog from '@/components/SensorRegistryDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+const MAX_LISTED_IMPORT_ISSUES = 3;
+
+interface RegistryRow {
+  deviceId: string;
+  entry?: SensorRegistryEntry;
+  reporting: boolean;
+}
+
+const SensorRegistry: React.FC = () => {
+  const registry = useSensorRegistry();
+  const { data: sensors = [] } = useSensors();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<Partial<SensorRegistryEntry> | null>(null);
+
+  // Registered sensors plus devices that report telemetry but have no entry yet
+  const rows = useMemo<RegistryRow[]>(() => {
+    const reporting = new Set(sensors.map(sensor => sensor.deviceId));
+    const deviceIds = new Set([...Object.keys(registry), ...reporting]);
+    return Array.from(deviceIds)
+      .sort()
+      .map(deviceId => ({ deviceId, entry: registry[deviceId], reporting: reporting.has(deviceId) }));
+  }, [registry, sensors]);
+
+  const entries = Object.values(registry);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const result = file.name.toLowerCase().endsWith('.json') ? parseRegistryJson(text) : parseRegistryCsv(text);
+      importRegistryEntries(result.entries);
+
+      if (result.issues.length === 0) {
+        toast.success(`Imported ${result.entries.length} sensors`);
+      } else {
+        const listed = result.issues
+          .slice(0, MAX_LISTED_IMPORT_ISSUES)
+          .map(issue => `Row ${issue.row}: ${issue.message}`)
+          .join('; ');
+        toast.warning(`Imported ${result.entries.length} sensors, skipped ${result.issues.length}`, {
+          description: listed,
+        });
+      }
+    } catch (error) {
+      toast.error(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemove = (entry: SensorRegistryEntry) => {
+    if (!window.confirm(`Remove ${entry.name || entry.deviceId} from the registry?`)) return;
+    removeRegistryEntry(entry.deviceId);
+    toast.success(`Removed ${entry.name || entry.deviceId}`);
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger className="text-forest-primary" />
+          <div>
+            <h1 className="text-xl font-bold text-forest-primary">Sensor Registry</h1>
+            <p className="text-sm text-muted-foreground">Names, placement and hardware of deployed sensors</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={e => handleImport(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            disabled={entries.length === 0}
+            onClick={() => downloadText(registryToJson(entries), `sensor-registry-${stamp}.json`, 'application/json')}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            JSON
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            disabled={entries.length === 0}
+            onClick={() => downloadText(registryToCsv(entries), `sensor-registry-${stamp}.csv`, 'text/csv;charset=utf-8;')}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button
+            size="sm"
+            className="bg-forest-primary text-white hover:bg-forest-primary/90"
+            onClick={() => setEditing({})}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Sensor
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <Card className="glass-card border-forest-accent/30">
+          <CardHeader>
+            <CardTitle className="text-forest-primary flex items-center gap-2">
+              <ClipboardList className="w-5 h-5" />
+              Sensors ({entries.length} registered)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {rows.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                No sensors yet. Add one, or import a JSON or CSV file with a deviceId column.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sensor</TableHead>
+                    <TableHead>Range / Beat</TableHead>
+                    <TableHead>Installed</TableHead>
+                    <TableHead>Hardware</TableHead>
+                    <TableHead>Battery</TableHead>
+                    <TableHead>Custodian</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ deviceId, entry, reporting }) => (
+                    <TableRow key={deviceId}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          {entry?.photoUrl && (
+                            <img src={entry.photoUrl} alt="" className="w-10 h-10 rounded object-cover border" />
+                          )}
+                          <div>
+                            <p className="font-medium text-forest-primary">{entry?.name || deviceId}</p>
+                            <p className="text-xs font-mono text-muted-foreground">{deviceId}</p>
+                          </div>
+                          {!entry && <Badge variant="outline">Not registered</Badge>}
+                          {entry?.decommissionedAt ? (
+                            <Badge variant="outline">Decommissioned</Badge>
+                          ) : (
+                            entry && !reporting && <Badge variant="outline">No telemetry</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{describePlacement(entry) || '—'}</TableCell>
+                      <TableCell>
+                        {entry?.installDate ? new Date(entry.installDate).toLocaleDateString() : '—'}
+                        {entry?.mountingHeightM !== undefined && (
+                          <p className="text-xs text-muted-foreground">{entry.mountingHeightM} m high</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {entry?.hardwareModel || '—'}
+                        {entry?.firmwareVersion && (
+                          <p className="text-xs text-muted-foreground">Firmware {entry.firmwareVersion}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{entry?.batteryType || '—'}</TableCell>
+                      <TableCell>{entry?.custodian || '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            title={entry ? 'Edit' : 'Register'}
+                            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                            onClick={() => setEditing(entry ?? { deviceId })}
+                          >
+                            {entry ? <Pencil className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                          </Button>
+                          {entry && (
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              title="Remove from registry"
+                              className="border-forest-danger text-forest-danger hover:bg-forest-danger hover:text-white"
+                              onClick={() => handleRemove(entry)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <SensorRegistryDialog entry={editing} isOpen={editing !== null} onClose={() => setEditing(null)} />
+    </div>
+  );
+};
+
+export default SensorRegistry;
@@ -1,74 +1,57 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import SensorStats from '@/components/SensorStats';
 import SensorList from '@/components/SensorList';
 import SensorPopup from '@/components/SensorPopup';
-import { getFireAlerts } from '@/api/fireAlerts';
-import { SensorData, SensorStats as SensorStatsType } from '@/types/sensor';
+import SensorAttentionList from '@/components/SensorAttentionList';
+import { computeSensorStats } from '@/api/sensors';
+import { filterSensorsByZone, ZONE_KINDS } from '@/api/zones';
+import { describeRequestError } from '@/api/httpClient';
+import { useSensors } from '@/hooks/use-sensors';
+import { useHeartbeatClock, useHeartbeatSettings } from '@/hooks/use-heartbeat';
+import { useZones } from '@/hooks/use-zones';
+import { useUrlState } from '@/hooks/use-url-state';
+import { URL_PARAMS } from '@/lib/urlState';
+import { SensorData } from '@/types/sensor';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { LogOut } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 
-// Convert API data to SensorData format with proper error handling
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-  
-  return apiDevices.map(device => {
-    // Handle cases where device properties might be missing
-    const deviceId = device.deviceId || device._id || 'unknown';
-    const id = device._id || device.id || `dev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp: device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: `Sensor ${deviceId}`,
-      status: (device.isfire || device.isFire || device.temp > 35 || device.smoke > 140) ? 'warning' : 'active'
-    };
-  });
-};
+const ALL_ZONES = 'all';
 
 const SensorStatus: React.FC = () => {
   const navigate = useNavigate();
   const [selectedSensor, setSelectedSensor] = useState<SensorData | null>(null);
   const [isPopupOpen, setIsPopupOpen] = useState(false);
+  const [searchParams, updateParams] = useUrlState();
+  const zoneId = searchParams.get(URL_PARAMS.zone) ?? ALL_ZONES;
 
-  const { data: apiResponse, isLoading, error } = useQuery({
-    queryKey: ['fireAlerts'],
-    queryFn: getFireAlerts,
+  const { data: fleet = [], isLoading, error } = useSensors({
     refetchInterval: 5000,
   });
 
-  // Extract devices from API response or use empty array
-  const apiDevices = apiResponse && Array.isArray(apiResponse) ? apiResponse : [];
-  const allSensors = convertApiToSensorData(apiDevices);
+  const zones = useZones();
+  const zone = zones.find(candidate => candidate.id === zoneId);
+  const allSensors = zone ? filterSensorsByZone(fleet, zone) : fleet;
 
-  const stats: SensorStatsType = {
-    totalSensors: allSensors.length,
-    activeSensors: allSensors.filter(s => s.status === 'active').length,
-    fireDetected: allSensors.filter(s => s.isFire).length,
-    warningStatus: allSensors.filter(s => s.status === 'warning').length
-  };
+  const now = useHeartbeatClock();
+  useHeartbeatSettings();
+
+  const stats = computeSensorStats(allSensors, now);
 
   const handleSensorClick = (sensor: SensorData) => {
     setSelectedSensor(sensor);
     setIsPopupOpen(true);
   };
 
-  const handleViewInMap = (sensorId: string) => {
-    navigate(`/?sensor=${sensorId}`);
+  const handleViewInMap = (deviceId: string) => {
+    navigate(`/?sensor=${encodeURIComponent(deviceId)}`);
     setIsPopupOpen(false);
   };
 
-  const handleLiveTracking = (sensorId: string) => {
-    navigate(`/monitoring?sensor=${sensorId}`);
+  const handleLiveTracking = (deviceId: string) => {
+    navigate(`/monitoring/${encodeURIComponent(deviceId)}`);
     setIsPopupOpen(false);
   };
 
@@ -102,10 +85,32 @@ const SensorStatus: React.FC = () => {
         <div className="space-y-6">
           {/* Stats Section */}
           <div className="glass-card p-6 rounded-lg">
-            <h2 className="text-2xl font-bold text-forest-primary mb-6">Sensor Overview</h2>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <h2 className="text-2xl font-bold text-forest-primary">Sensor Overview</h2>
+              {zones.length > 0 && (
+                <Select value={zone ? zoneId : ALL_ZONES} onValueChange={value => updateParams({ [URL_PARAMS.zone]: value === ALL_ZONES ? null : value })}>
+                  <SelectTrigger className="w-64 border-forest-accent/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ZONES}>All zones</SelectItem>
+                    {zones.map(option => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name} ({ZONE_KINDS.find(kind => kind.value === option.kind)?.label})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
             <SensorStats stats={stats} />
           </div>
 
+          {/* Sensors that stopped reporting */}
+          <div className="glass-card p-6 rounded-lg">
+            <SensorAttentionList sensors={allSensors} onSensorClick={handleSensorClick} />
+          </div>
+
           {/* Sensor List */}
           <div className="glass-card p-6 rounded-lg">
             <SensorList 
@@ -123,7 +128,7 @@ const SensorStatus: React.FC = () => {
           
           {error && (
             <div className="glass-card p-6 rounded-lg text-center">
-              <p className="text-forest-danger">Failed to load API data. Showing mock sensors only.</p>
+              <p className="text-forest-danger">{describeRequestError(error)}. Showing mock sensors only.</p>
             </div>
           )}
         </div>
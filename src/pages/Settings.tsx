@@ -1,9 +1,117 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
-import { LogOut } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BellRing, LogOut, RefreshCw, RotateCcw, Save, Server, Siren, Volume2 } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
+import {
+  ENV_CONFIG,
+  RUNTIME_CONFIG_FIELDS,
+  getConfigOverrides,
+  resetConfigOverrides,
+  resolveConfig,
+  setConfigOverrides,
+  RuntimeConfig,
+} from '@/api/config';
+import { checkEndpointHealth, isHealthCheckTarget, HealthCheckTarget, HealthResult } from '@/api/health';
+import { SENSORS_QUERY_KEY } from '@/api/sensors';
+import { useRuntimeConfig } from '@/hooks/use-runtime-config';
+import { useAlertSettings } from '@/hooks/use-alert-settings';
+import { enableBackgroundAlerts, getBackgroundAlertsStatus, BackgroundAlertsStatus } from '@/lib/serviceWorker';
+import { setAlertSettings, SIREN_PATTERNS, SirenPattern } from '@/lib/alertSettings';
+import { startSiren } from '@/lib/siren';
+import EscalationSettings from '@/components/EscalationSettings';
+import StatusRulesSettings from '@/components/StatusRulesSettings';
+import HeartbeatSettings from '@/components/HeartbeatSettings';
+import MapLayerSettings from '@/components/MapLayerSettings';
+
+const SIREN_TEST_MS = 3000;
+
+const maskSecret = (value: string) => (value.length > 4 ? `••••${value.slice(-4)}` : value);
+
+const BACKGROUND_ALERT_MESSAGES: Record<BackgroundAlertsStatus, string> = {
+  enabled: 'This device is checked for new fires in the background, even with the dashboard closed.',
+  disabled: 'Install the app and allow notifications to be alerted while the dashboard is closed.',
+  denied: 'Notifications are blocked for this site. Allow them in the browser settings to enable background alerts.',
+  unsupported: 'This browser does not support background sync. Keep the dashboard open to receive alerts.',
+};
 
 const Settings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const config = useRuntimeConfig();
+  const [draft, setDraft] = useState<Partial<RuntimeConfig>>(() => getConfigOverrides());
+  // unsaved marks a result checked against edited values that have not been saved yet
+  const [health, setHealth] = useState<Partial<Record<HealthCheckTarget, HealthResult & { unsaved: boolean }>>>({});
+  const [checking, setChecking] = useState<Partial<Record<HealthCheckTarget, boolean>>>({});
+  const [backgroundAlerts, setBackgroundAlerts] = useState<BackgroundAlertsStatus | null>(null);
+  const alertSettings = useAlertSettings();
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => ('Notification' in window ? Notification.permission : 'unsupported')
+  );
+
+  useEffect(() => {
+    getBackgroundAlertsStatus().then(setBackgroundAlerts);
+  }, []);
+
+  const applyChanges = () => {
+    queryClient.invalidateQueries({ queryKey: SENSORS_QUERY_KEY });
+    setHealth({});
+  };
+
+  const handleSave = () => {
+    setConfigOverrides(draft);
+    setDraft(getConfigOverrides());
+    applyChanges();
+    toast.success('Endpoint settings saved');
+  };
+
+  const handleReset = () => {
+    resetConfigOverrides();
+    setDraft({});
+    applyChanges();
+    toast.success('Endpoints reset to environment defaults');
+  };
+
+  const runCheck = async (target: HealthCheckTarget) => {
+    setChecking(prev => ({ ...prev, [target]: true }));
+    // Check what is in the form, so an endpoint can be tried out before it is saved
+    const candidate = resolveConfig(draft);
+    const unsaved = RUNTIME_CONFIG_FIELDS.some(field => candidate[field.key] !== config[field.key]);
+    const result = await checkEndpointHealth(target, candidate);
+    setHealth(prev => ({ ...prev, [target]: { ...result, unsaved } }));
+    setChecking(prev => ({ ...prev, [target]: false }));
+  };
+
+  const checkAll = () => {
+    RUNTIME_CONFIG_FIELDS.forEach(field => {
+      if (isHealthCheckTarget(field.key)) runCheck(field.key);
+    });
+  };
+
+  const handleEnableBackgroundAlerts = async () => {
+    const status = await enableBackgroundAlerts();
+    setBackgroundAlerts(status);
+    if (status === 'enabled') toast.success('Background fire alerts enabled');
+  };
+
+  const requestNotificationPermission = async () => {
+    setNotificationPermission(await Notification.requestPermission());
+  };
+
+  const testSiren = () => {
+    const stop = startSiren(alertSettings.sirenPattern, alertSettings.sirenVolume);
+    setTimeout(stop, SIREN_TEST_MS);
+  };
+
+  const overrideCount = Object.keys(getConfigOverrides()).length;
+
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -28,13 +136,258 @@ const Settings: React.FC = () => {
 
       {/* Main Content */}
       <main className="p-6">
-        <div className="glass-card p-6 rounded-lg text-center">
-          <h2 className="text-2xl font-bold text-forest-primary mb-4">Settings Coming Soon</h2>
-          <p className="text-muted-foreground">This feature will be available in the next update.</p>
-        </div>
+        <Card className="glass-card border-forest-accent/30">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-forest-primary flex items-center gap-2">
+                <Server className="w-5 h-5" />
+                Backend Endpoints
+              </CardTitle>
+              <Badge variant="outline" className="border-forest-accent text-forest-primary">
+                {overrideCount > 0 ? `${overrideCount} overridden` : 'Environment defaults'}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Overrides are stored in this browser only. Leave a field empty to use the value from the build environment.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {RUNTIME_CONFIG_FIELDS.map(field => {
+              const result = isHealthCheckTarget(field.key) ? health[field.key] : undefined;
+              const isChecking = isHealthCheckTarget(field.key) && checking[field.key];
+              const defaultValue = ENV_CONFIG[field.key];
+
+              return (
+                <div key={field.key} className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor={field.key} className="text-forest-primary">{field.label}</Label>
+                    {result && (
+                      <Badge className={result.ok ? 'bg-forest-success text-white' : 'bg-forest-danger text-white'}>
+                        {result.ok ? `OK · ${result.latencyMs} ms` : 'Failed'}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      id={field.key}
+                      type={field.secret ? 'password' : 'text'}
+                      value={draft[field.key] ?? ''}
+                      placeholder={field.secret ? maskSecret(defaultValue) : defaultValue || 'Not set'}
+                      onChange={e => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                      className="border-forest-accent/50 font-mono text-sm"
+                    />
+                    {isHealthCheckTarget(field.key) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                        onClick={() => runCheck(field.key as HealthCheckTarget)}
+                        disabled={isChecking}
+                      >
+                        <RefreshCw className={`w-4 h-4 mr-2 ${isChecking ? 'animate-spin' : ''}`} />
+                        Check
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {field.description}
+                    {result &&
+                      ` — ${result.message} (${result.unsaved ? 'unsaved values, ' : ''}${new Date(result.checkedAt).toLocaleTimeString()})`}
+                  </p>
+                </div>
+              );
+            })}
+
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90" onClick={handleSave}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                onClick={handleReset}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset to Defaults
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                onClick={checkAll}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Check All
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-forest-accent/30 mt-6">
+          <CardHeader>
+            <CardTitle className="text-forest-primary flex items-center gap-2">
+              <Siren className="w-5 h-5" />
+              Fire Alerts
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              How this dashboard gets your attention when a sensor newly reports fire. Alerts repeat until acknowledged.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="desktopNotifications" className="text-forest-primary">Desktop notifications</Label>
+                <p className="text-xs text-muted-foreground">
+                  {notificationPermission === 'granted' && 'Shown even when this tab is in the background.'}
+                  {notificationPermission === 'default' && 'The browser has not been asked for permission yet.'}
+                  {notificationPermission === 'denied' && 'Blocked for this site in the browser settings.'}
+                  {notificationPermission === 'unsupported' && 'Not supported by this browser.'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {notificationPermission === 'default' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+                    onClick={requestNotificationPermission}
+                  >
+                    Allow
+                  </Button>
+                )}
+                <Switch
+                  id="desktopNotifications"
+                  checked={alertSettings.desktopNotifications}
+                  onCheckedChange={checked => setAlertSettings({ desktopNotifications: checked })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="flashTitle" className="text-forest-primary">Flash tab title</Label>
+                <p className="text-xs text-muted-foreground">Alternates the page title with the devices on fire.</p>
+              </div>
+              <Switch
+                id="flashTitle"
+                checked={alertSettings.flashTitle}
+                onCheckedChange={checked => setAlertSettings({ flashTitle: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="preFireWarnings" className="text-forest-primary">Pre-fire warnings</Label>
+                <p className="text-xs text-muted-foreground">
+                  Warns when a sensor reaches Critical through a rising trend, before it reports a fire.
+                </p>
+              </div>
+              <Switch
+                id="preFireWarnings"
+                checked={alertSettings.preFireWarnings}
+                onCheckedChange={checked => setAlertSettings({ preFireWarnings: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="sirenEnabled" className="text-forest-primary">Siren</Label>
+                <p className="text-xs text-muted-foreground">Plays once you have interacted with the page.</p>
+              </div>
+              <Switch
+                id="sirenEnabled"
+                checked={alertSettings.sirenEnabled}
+                onCheckedChange={checked => setAlertSettings({ sirenEnabled: checked })}
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label className="text-forest-primary">Siren sound</Label>
+                <Select
+                  value={alertSettings.sirenPattern}
+                  onValueChange={value => setAlertSettings({ sirenPattern: value as SirenPattern })}
+                  disabled={!alertSettings.sirenEnabled}
+                >
+                  <SelectTrigger className="border-forest-accent/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SIREN_PATTERNS.map(pattern => (
+                      <SelectItem key={pattern.value} value={pattern.value}>{pattern.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-forest-primary flex items-center gap-2">
+                  <Volume2 className="w-4 h-4" />
+                  Volume {Math.round(alertSettings.sirenVolume * 100)}%
+                </Label>
+                <Slider
+                  value={[alertSettings.sirenVolume * 100]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => setAlertSettings({ sirenVolume: value / 100 })}
+                  disabled={!alertSettings.sirenEnabled}
+                  className="pt-3"
+                />
+              </div>
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+              onClick={testSiren}
+              disabled={!alertSettings.sirenEnabled}
+            >
+              <Siren className="w-4 h-4 mr-2" />
+              Test Siren
+            </Button>
+          </CardContent>
+        </Card>
+
+        <EscalationSettings />
+
+        <StatusRulesSettings />
+
+        <HeartbeatSettings />
+
+        <MapLayerSettings />
+
+        <Card className="glass-card border-forest-accent/30 mt-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-forest-primary flex items-center gap-2">
+                <BellRing className="w-5 h-5" />
+                Background Alerts
+              </CardTitle>
+              {backgroundAlerts && (
+                <Badge className={backgroundAlerts === 'enabled' ? 'bg-forest-success text-white' : 'bg-muted text-muted-foreground'}>
+                  {backgroundAlerts}
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {backgroundAlerts ? BACKGROUND_ALERT_MESSAGES[backgroundAlerts] : 'Checking browser support...'}
+            </p>
+            {backgroundAlerts === 'disabled' && (
+              <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90" onClick={handleEnableBackgroundAlerts}>
+                <BellRing className="w-4 h-4 mr-2" />
+                Enable Background Alerts
+              </Button>
+            )}
+          </CardContent>
+        </Card>
       </main>
     </div>
   );
 };
 
-export default Settings;
\ No newline at end of file
+export default Settings;
@@ -0,0 +1,53 @@
+import { SensorReading } from './sensor';
+
+export type AlertState = 'new' | 'acknowledged' | 'dispatched' | 'contained' | 'resolved' | 'false-alarm';
+
+// One step in an alert's audit trail
+export interface AlertTransition {
+  from: AlertState | null;
+  to: AlertState;
+  actor: string;
+  note: string;
+  at: string;
+}
+
+export type NotifierChannel = 'webhook' | 'email' | 'sms';
+
+// One rung of the escalation chain: who to tell, how, and after how long without acknowledgement
+export interface EscalationStep {
+  id: string;
+  afterMinutes: number;
+  recipient: string;
+  channel: NotifierChannel;
+  // Webhook URL, email address or phone number depending on channel
+  target: string;
+}
+
+export interface EscalationPolicy {
+  enabled: boolean;
+  steps: EscalationStep[];
+}
+
+// A delivery attempt for one escalation step, kept on the alert next to its transitions
+export interface EscalationEvent {
+  stepId: string;
+  recipient: string;
+  channel: NotifierChannel;
+  target: string;
+  ok: boolean;
+  message: string;
+  at: string;
+}
+
+export interface FireAlertRecord {
+  id: string;
+  deviceId: string;
+  state: AlertState;
+  openedAt: string;
+  closedAt: string | null;
+  // Reading that raised the alert
+  trigger: SensorReading;
+  transitions: AlertTransition[];
+  // Missing on alerts recorded before escalation existed
+  escalations?: EscalationEvent[];
+}
@@ -0,0 +1,134 @@
+// src/types/fireSpread.ts
+
+export type FuelType = 'grass' | 'grassUnderstory' | 'shrub' | 'broadleafLitter' | 'pineLitter';
+
+// Surface fuel bed in the units Rothermel's equations were fitted in
+export interface FuelModel {
+  label: string;
+  // Anderson (1982) fuel model the values come from
+  andersonModel: number;
+  // Dead fine fuel load, lb/ft²
+  load: number;
+  // Surface-area-to-volume ratio, 1/ft
+  surfaceToVolume: number;
+  // Fuel bed depth, ft
+  depth: number;
+  // Dead fuel moisture of extinction, fraction
+  extinctionMoisture: number;
+  // Share of the 10 m wind that reaches mid-flame height under this fuel's cover
+  windReduction: number;
+}
+
+export interface SpreadInput {
+  latitude: number;
+  longitude: number;
+  fuel: FuelType;
+  // 10 m wind, as OpenWeatherMap reports it
+  windSpeedMs: number;
+  // Direction the wind blows from, degrees clockwise from north
+  windFromDeg: number;
+  relativeHumidity: number;
+  temperatureC: number;
+  // 0-1, how established the fire already is, from the sensor's readings
+  intensity: number;
+  slopePercent?: number;
+}
+
+// Wind a prediction runs on, and whether it came from the weather service or the user
+export interface WindConditions {
+  speedMs: number;
+  fromDeg: number;
+  source: 'weather' | 'cached' | 'manual';
+}
+
+export interface SpreadPerimeter {
+  minutes: number;
+  // Distances from the ignition point, metres
+  headM: number;
+  backM: number;
+  flankM: number;
+  areaHa: number;
+  // Closed outline, [lat, lng]
+  outline: [number, number][];
+}
+
+export interface SpreadPrediction {
+  // Steady-state head fire rate of spread, metres per minute
+  rateOfSpreadMPerMin: number;
+  // Direction the head fire travels, degrees clockwise from north
+  headingDeg: number;
+  lengthToBreadth: number;
+  // Dead fine fuel moisture used, fraction
+  fuelMoisture: number;
+  // Rothermel reaction intensity, kW/m²
+  reactionIntensityKwM2: number;
+  perimeters: SpreadPerimeter[];
+}
+
+// Single-band raster in WGS84 degrees, rows running north to south
+export interface RasterGrid {
+  cols: number;
+  rows: number;
+  west: number;
+  north: number;
+  cellWidth: number;
+  cellHeight: number;
+  values: Float32Array;
+  noData: number | null;
+}
+
+// Grid the cellular automaton runs on, centred on the ignition point
+export interface SimulationGrid {
+  cols: number;
+  rows: number;
+  cellM: number;
+  west: number;
+  north: number;
+  cellWidthDeg: number;
+  cellHeightDeg: number;
+  // Index into FUEL_TYPES plus one; 0 cannot burn (water, rock, roads)
+  fuel: Uint8Array;
+  // Metres above sea level, when an elevation raster is loaded
+  elevation: Float32Array | null;
+  ignition: number;
+}
+
+export interface SimulationRequest {
+  grid: SimulationGrid;
+  windSpeedMs: number;
+  windFromDeg: number;
+  relativeHumidity: number;
+  temperatureC: number;
+  durationMin: number;
+  frameMin: number;
+}
+
+// What the panel hands the worker: the raster files are read, parsed and sampled there, so a
+// large raster never blocks the page
+export interface SimulationJob extends Omit<SimulationRequest, 'grid'> {
+  latitude: number;
+  longitude: number;
+  // Used wherever the fuel raster has no cover
+  fallbackFuel: FuelType;
+  fuelFile: File | null;
+  elevationFile: File | null;
+}
+
+export type CellState = 'unburnable' | 'fuel' | 'burning' | 'burned';
+
+export interface SimulationFrame {
+  minute: number;
+  // One CELL_STATES code per grid cell
+  cells: Uint8Array;
+  burnedHa: number;
+  // Fire has caught in the outermost cells, so it would have spread past the simulated area
+  reachedEdge: boolean;
+  // Last frame: the duration ran out or the fire went out
+  done: boolean;
+}
+
+// Posted by the worker: the grid once it is built, then a frame at a time, or why it stopped
+export type SimulationMessage =
+  | { type: 'grid'; grid: SimulationGrid }
+  | { type: 'frame'; frame: SimulationFrame }
+  | { type: 'error'; message: string };
@@ -0,0 +1,42 @@
+export type BasemapId = 'osm' | 'satellite' | 'terrain';
+
+export type OverlayId = 'fireZones' | 'coverage' | 'boundaries' | 'roads' | 'water' | 'heatmap';
+
+export type HeatmapMetric = 'temp' | 'smoke' | 'humidity';
+
+export type SatelliteProvider = 'esri' | 'mapbox';
+export type TerrainProvider = 'opentopomap' | 'esri' | 'mapbox';
+
+// Where each basemap's tiles come from, set on the Settings page
+export interface MapProviderSettings {
+  satellite: SatelliteProvider;
+  terrain: TerrainProvider;
+  // Public (pk.) token, only needed for the Mapbox providers
+  mapboxToken: string;
+}
+
+// What the user last had switched on, restored on the next visit
+export interface MapLayerChoices {
+  basemap: BasemapId;
+  overlays: OverlayId[];
+  heatmapMetric: HeatmapMetric;
+  // 0-1
+  heatmapOpacity: number;
+}
+
+export interface TileSource {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains?: string;
+  tileSize?: number;
+  zoomOffset?: number;
+}
+
+export interface WaterSource {
+  id: string;
+  latitude: number;
+  longitude: number;
+  kind: 'hydrant' | 'tank' | 'reservoir' | 'water';
+  name?: string;
+}
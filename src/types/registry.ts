@@ -0,0 +1,33 @@
+// Everything known about a deployed sensor that the device itself doesn't report
+export interface SensorRegistryEntry {
+  deviceId: string;
+  name?: string;
+  // Forest range and the beat within it, as used by the forest department
+  range?: string;
+  beat?: string;
+  // YYYY-MM-DD
+  installDate?: string;
+  mountingHeightM?: number;
+  hardwareModel?: string;
+  firmwareVersion?: string;
+  batteryType?: string;
+  custodian?: string;
+  // Link or data URL
+  photoUrl?: string;
+  // Set when the sensor is taken out of service; it then drops out of the fleet on every screen
+  decommissionedAt?: string;
+  updatedAt: string;
+}
+
+export type SensorRegistry = Record<string, SensorRegistryEntry>;
+
+export interface RegistryImportIssue {
+  // 1-based row of the CSV, or index + 1 in a JSON array
+  row: number;
+  message: string;
+}
+
+export interface RegistryImportResult {
+  entries: SensorRegistryEntry[];
+  issues: RegistryImportIssue[];
+}
@@ -1,3 +1,5 @@
+import { SensorRegistryEntry } from './registry';
+
 export interface SensorData {
   id: string;
   deviceId: string;
@@ -10,6 +12,9 @@ export interface SensorData {
   timestamp: string;
   name?: string;
   status?: 'active' | 'inactive' | 'warning';
+  zone?: string;
+  // Joined from the sensor registry when the device has an entry
+  registry?: SensorRegistryEntry;
 }
 
 export interface SensorStats {
@@ -17,4 +22,32 @@ export interface SensorStats {
   activeSensors: number;
   fireDetected: number;
   warningStatus: number;
-}
\ No newline at end of file
+}
+
+// A single time-stamped reading from a device's history
+export interface SensorReading {
+  deviceId: string;
+  timestamp: string;
+  temp: number;
+  humidity: number;
+  smoke: number;
+  isFire: boolean;
+  latitude?: number;
+  longitude?: number;
+}
+
+// How recently a device reported compared to how often it is expected to
+export type HeartbeatState = 'fresh' | 'late' | 'stale' | 'offline';
+
+export interface Heartbeat {
+  state: HeartbeatState;
+  lastSeen: number;
+  sinceMs: number;
+  expectedMs: number;
+}
+
+export interface HeartbeatSettings {
+  defaultIntervalMinutes: number;
+  // Expected reporting interval per deviceId, for devices that differ from the default
+  intervals: Record<string, number>;
+}
@@ -0,0 +1,45 @@
+export type StatusLevel = 'normal' | 'watch' | 'warning' | 'critical' | 'fire';
+
+// Levels that are reached by matching a rule; normal is what's left when none match
+export type RuleLevel = Exclude<StatusLevel, 'normal'>;
+
+export type RuleMetric = 'temp' | 'humidity' | 'smoke';
+
+export type RuleOperator = '>' | '>=' | '<' | '<=';
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  // 'value' compares the reading itself, 'rate' its change per minute, 'average' its moving average
+  measure: 'value' | 'rate' | 'average';
+  operator: RuleOperator;
+  threshold: number;
+  // value: how long it must have held; rate and average: the window they are measured over
+  forMinutes: number;
+}
+
+export interface StatusRule {
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+}
+
+export type RuleSet = Record<RuleLevel, StatusRule>;
+
+export type RuleOverrideScope = 'sensor' | 'zone';
+
+// Replaces the default rule of each level it lists for one sensor or every sensor in a zone
+export interface RuleOverride {
+  scope: RuleOverrideScope;
+  id: string;
+  rules: Partial<RuleSet>;
+}
+
+export interface StatusRulesConfig {
+  rules: RuleSet;
+  overrides: RuleOverride[];
+}
+
+export interface StatusEvaluation {
+  level: StatusLevel;
+  // Every condition that held, across all levels, so callers can point at the metric
+  matches: { level: RuleLevel; condition: RuleCondition }[];
+}
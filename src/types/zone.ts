@@ -0,0 +1,25 @@
+import { StatusLevel } from './statusRules';
+
+export type ZoneKind = 'division' | 'range' | 'beat' | 'protected';
+
+// [longitude, latitude], in GeoJSON order
+export type ZonePosition = [number, number];
+// Outer ring first, then any holes
+export type ZonePolygon = ZonePosition[][];
+
+export interface ForestZone {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  // A zone may be several separate patches, as in a GeoJSON MultiPolygon
+  polygons: ZonePolygon[];
+  createdAt: string;
+}
+
+export interface ZoneAggregate {
+  zoneId: string;
+  sensorCount: number;
+  activeFires: number;
+  // Most severe status among the zone's sensors; normal when it has none
+  worstLevel: StatusLevel;
+}
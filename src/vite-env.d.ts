@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FIRE_ALERTS_API_URL?: string;
+  readonly VITE_WEATHER_API_URL?: string;
+  readonly VITE_WEATHER_API_KEY?: string;
+  readonly VITE_PREDICTION_API_URL?: string;
+  readonly VITE_LIVE_FEED_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
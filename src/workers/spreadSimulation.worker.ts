@@ -0,0 +1,41 @@
+// src/workers/spreadSimulation.worker.ts
+// Reads the rasters, builds the grid and runs the cellular-automaton spread off the main thread,
+// posting the grid and then each frame as it is ready.
+import { FUEL_TYPES } from '@/api/fireSpread';
+import { loadRasterFile } from '@/api/rasters';
+import { buildSimulationGrid, pickCellSize, simulateSpread } from '@/api/spreadSimulation';
+import { SimulationJob, SimulationMessage } from '@/types/fireSpread';
+
+const post = (message: SimulationMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const loadRaster = async (file: File | null) => {
+  if (!file) return null;
+  try {
+    return await loadRasterFile(file);
+  } catch (error) {
+    throw new Error(`Could not load ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+self.onmessage = async (event: MessageEvent<SimulationJob>) => {
+  const { latitude, longitude, fallbackFuel, fuelFile, elevationFile, ...conditions } = event.data;
+  try {
+    // One at a time, so only one parsed raster is held next to the file being read
+    const fuelRaster = await loadRaster(fuelFile);
+    const elevationRaster = await loadRaster(elevationFile);
+    // With a fuel raster any fuel may be in the way, so size the grid for the fastest
+    const cellM = pickCellSize(
+      conditions,
+      fuelRaster ? FUEL_TYPES : [fallbackFuel],
+      elevationRaster && { latitude, longitude, elevationRaster }
+    );
+    const grid = buildSimulationGrid({ latitude, longitude, fallbackFuel, fuelRaster, elevationRaster, cellM });
+    post({ type: 'grid', grid });
+
+    for (const frame of simulateSpread({ grid, ...conditions })) {
+      post({ type: 'frame', frame }, [frame.cells.buffer]);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,15 +1,30 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lists the built app shell for public/sw.js to precache
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).filter((file) => !file.endsWith(".map"));
+    const manifest = { version: Date.now().toString(36), files };
+    this.emitFile({
+      type: "asset",
+      fileName: "precache-manifest.js",
+      source: `self.__PRECACHE_MANIFEST = ${JSON.stringify(manifest)};\n`,
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), precacheManifest(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),